@@ -1,10 +1,17 @@
-import { Color, type Piece, PieceType } from './types';
+import { Color, type Attacker, type Piece, PieceType } from './types';
 import { SquareUtils } from './square_utils';
 
 /**
  * Detects if squares are under attack by opponent pieces.
  */
 export class AttackDetector {
+  private static readonly KNIGHT_OFFSETS: [number, number][] = [
+    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+    [1, -2], [1, 2], [2, -1], [2, 1]
+  ];
+  private static readonly ROOK_DIRECTIONS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+  private static readonly BISHOP_DIRECTIONS: [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
   /**
    * Check if a square is attacked by any piece of the given color.
    */
@@ -26,17 +33,14 @@ export class AttackDetector {
     if (this.checkPawnAttacks(squares, file, rank, byColor)) return true;
 
     // Check sliding pieces
-    const rookDirs: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-    const bishopDirs: [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-
-    for (const [rankDir, fileDir] of rookDirs) {
+    for (const [rankDir, fileDir] of this.ROOK_DIRECTIONS) {
       if (this.checkSlidingAttack(squares, file, rank, fileDir, rankDir, byColor,
         [PieceType.Rook, PieceType.Queen])) {
         return true;
       }
     }
 
-    for (const [rankDir, fileDir] of bishopDirs) {
+    for (const [rankDir, fileDir] of this.BISHOP_DIRECTIONS) {
       if (this.checkSlidingAttack(squares, file, rank, fileDir, rankDir, byColor,
         [PieceType.Bishop, PieceType.Queen])) {
         return true;
@@ -46,18 +50,109 @@ export class AttackDetector {
     return false;
   }
 
+  /**
+   * Every piece of the given color that attacks a square, nearest first along
+   * each line. With includeXRay, pieces lined up behind an attacker on the same
+   * line (a queen behind a rook, a bishop behind a pawn) are included and
+   * marked as x-ray attackers.
+   */
+  public static getAttackers(
+    squares: (Piece | null)[],
+    squareIndex: number,
+    byColor: Color,
+    includeXRay = true
+  ): Attacker[] {
+    const file = squareIndex % 8;
+    const rank = Math.floor(squareIndex / 8);
+    const attackers: Attacker[] = [];
+
+    for (const [rankOff, fileOff] of this.KNIGHT_OFFSETS) {
+      if (!SquareUtils.isValidFileRank(file + fileOff, rank + rankOff)) continue;
+      const index = SquareUtils.fileRankToIndex(file + fileOff, rank + rankOff);
+      const piece = squares[index];
+      if (piece?.type === PieceType.Knight && piece.color === byColor) {
+        attackers.push({ square: SquareUtils.fromIndex(index), piece, xray: false });
+      }
+    }
+
+    for (const [rankDir, fileDir] of [...this.ROOK_DIRECTIONS, ...this.BISHOP_DIRECTIONS]) {
+      this.collectLineAttackers(squares, file, rank, fileDir, rankDir, byColor, includeXRay, attackers);
+    }
+
+    return attackers;
+  }
+
+  /**
+   * Indices of the squares a piece attacks from where it stands, including
+   * squares held by its own side (which it defends).
+   */
+  public static getAttackedSquares(squares: (Piece | null)[], fromIndex: number): number[] {
+    const piece = squares[fromIndex];
+    if (!piece) return [];
+
+    const file = fromIndex % 8;
+    const rank = Math.floor(fromIndex / 8);
+    const targets: number[] = [];
+    const addStep = (fileOff: number, rankOff: number) => {
+      if (SquareUtils.isValidFileRank(file + fileOff, rank + rankOff)) {
+        targets.push(SquareUtils.fileRankToIndex(file + fileOff, rank + rankOff));
+      }
+    };
+
+    switch (piece.type) {
+      case PieceType.Pawn: {
+        const rankDir = piece.color === Color.White ? 1 : -1;
+        addStep(-1, rankDir);
+        addStep(1, rankDir);
+        break;
+      }
+      case PieceType.Knight:
+        for (const [rankOff, fileOff] of this.KNIGHT_OFFSETS) addStep(fileOff, rankOff);
+        break;
+      case PieceType.King:
+        for (const [rankDir, fileDir] of [...this.ROOK_DIRECTIONS, ...this.BISHOP_DIRECTIONS]) addStep(fileDir, rankDir);
+        break;
+      default: {
+        const directions = piece.type === PieceType.Rook ? this.ROOK_DIRECTIONS :
+          piece.type === PieceType.Bishop ? this.BISHOP_DIRECTIONS :
+            [...this.ROOK_DIRECTIONS, ...this.BISHOP_DIRECTIONS];
+        for (const [rankDir, fileDir] of directions) {
+          let newFile = file + fileDir;
+          let newRank = rank + rankDir;
+          while (SquareUtils.isValidFileRank(newFile, newRank)) {
+            const index = SquareUtils.fileRankToIndex(newFile, newRank);
+            targets.push(index);
+            if (squares[index]) break;
+            newFile += fileDir;
+            newRank += rankDir;
+          }
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Number of pieces of the given color directly attacking each square,
+   * indexed by square index.
+   */
+  public static getAttackMap(squares: (Piece | null)[], byColor: Color): number[] {
+    const counts = new Array<number>(64).fill(0);
+    for (let index = 0; index < 64; index++) {
+      if (squares[index]?.color !== byColor) continue;
+      for (const target of this.getAttackedSquares(squares, index)) counts[target]++;
+    }
+    return counts;
+  }
+
   private static checkKnightAttacks(
     squares: (Piece | null)[],
     file: number,
     rank: number,
     byColor: Color
   ): boolean {
-    const knightOffsets: [number, number][] = [
-      [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-      [1, -2], [1, 2], [2, -1], [2, 1]
-    ];
-
-    for (const [rankOff, fileOff] of knightOffsets) {
+    for (const [rankOff, fileOff] of this.KNIGHT_OFFSETS) {
       const newFile = file + fileOff;
       const newRank = rank + rankOff;
       if (SquareUtils.isValidFileRank(newFile, newRank)) {
@@ -145,4 +240,50 @@ export class AttackDetector {
 
     return false;
   }
-}
\ No newline at end of file
+
+  /**
+   * Walk outward from a square along one line, collecting pieces of the given
+   * color that attack back along it. Kings and pawns only count next to the
+   * square; any piece that cannot attack along the line ends the walk.
+   */
+  private static collectLineAttackers(
+    squares: (Piece | null)[],
+    startFile: number,
+    startRank: number,
+    fileDir: number,
+    rankDir: number,
+    byColor: Color,
+    includeXRay: boolean,
+    attackers: Attacker[]
+  ): void {
+    const diagonal = fileDir !== 0 && rankDir !== 0;
+    // A pawn attacks forward, so it must stand behind the square from its own side
+    const pawnRankDir = byColor === Color.White ? -1 : 1;
+    let file = startFile + fileDir;
+    let rank = startRank + rankDir;
+    let distance = 1;
+    let found = false;
+
+    while (SquareUtils.isValidFileRank(file, rank)) {
+      const index = SquareUtils.fileRankToIndex(file, rank);
+      const piece = squares[index];
+      if (piece) {
+        if (piece.color !== byColor) return;
+
+        const attacks =
+          piece.type === PieceType.Queen ||
+          piece.type === (diagonal ? PieceType.Bishop : PieceType.Rook) ||
+          (distance === 1 && piece.type === PieceType.King) ||
+          (distance === 1 && diagonal && piece.type === PieceType.Pawn && rankDir === pawnRankDir);
+        if (!attacks) return;
+
+        attackers.push({ square: SquareUtils.fromIndex(index), piece, xray: found });
+        if (!includeXRay) return;
+        found = true;
+      }
+      file += fileDir;
+      rank += rankDir;
+      distance++;
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import type { Piece } from './types';
+import { Color, PieceType } from './types';
+
+/**
+ * Bitboard primitives and precomputed attack tables.
+ *
+ * A bitboard is a set of squares with bit n standing for square index n
+ * (a1 = 0, h8 = 63). JavaScript bitwise operators work on 32 bits and BigInt
+ * arithmetic allocates, so each bitboard is kept as a low half (a1-h4) and a
+ * high half (a5-h8). Tables store the halves side by side: entry 2n is the
+ * low half for square n and entry 2n + 1 the high half.
+ */
+export class Bitboard {
+  // Ray steps as [file, rank]. The first four run towards higher square indices.
+  private static readonly DIRECTIONS: [number, number][] = [
+    [0, 1], [1, 1], [1, 0], [-1, 1],
+    [0, -1], [-1, -1], [-1, 0], [1, -1]
+  ];
+
+  static readonly ROOK_DIRECTIONS: readonly number[] = [0, 2, 4, 6];
+  static readonly BISHOP_DIRECTIONS: readonly number[] = [1, 3, 5, 7];
+  static readonly QUEEN_DIRECTIONS: readonly number[] = [0, 1, 2, 3, 4, 5, 6, 7];
+
+  static readonly KNIGHT_ATTACKS = Bitboard.buildStepTable([
+    [1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]
+  ]);
+
+  static readonly KING_ATTACKS = Bitboard.buildStepTable([
+    [0, 1], [1, 1], [1, 0], [1, -1], [0, -1], [-1, -1], [-1, 0], [-1, 1]
+  ]);
+
+  static readonly WHITE_PAWN_ATTACKS = Bitboard.buildStepTable([[-1, 1], [1, 1]]);
+  static readonly BLACK_PAWN_ATTACKS = Bitboard.buildStepTable([[-1, -1], [1, -1]]);
+
+  // Squares along each ray from each square, excluding the square itself; entry (direction * 64 + square) * 2
+  static readonly RAYS = Bitboard.buildRays();
+
+  static pawnAttacks(color: Color): Uint32Array {
+    return color === Color.White ? this.WHITE_PAWN_ATTACKS : this.BLACK_PAWN_ATTACKS;
+  }
+
+  static has(lo: number, hi: number, square: number): boolean {
+    return square < 32 ? ((lo >>> square) & 1) === 1 : ((hi >>> (square - 32)) & 1) === 1;
+  }
+
+  static lowestBit(lo: number, hi: number): number {
+    if (lo !== 0) return 31 - Math.clz32(lo & -lo);
+    return 63 - Math.clz32(hi & -hi);
+  }
+
+  static highestBit(lo: number, hi: number): number {
+    if (hi !== 0) return 63 - Math.clz32(hi);
+    return 31 - Math.clz32(lo);
+  }
+
+  static popCount(lo: number, hi: number): number {
+    let count = 0;
+    for (let half = lo; half !== 0; half &= half - 1) count++;
+    for (let half = hi; half !== 0; half &= half - 1) count++;
+    return count;
+  }
+
+  /**
+   * Nearest occupied square along a ray, or -1 if the ray is empty.
+   */
+  static firstBlocker(square: number, direction: number, occupiedLo: number, occupiedHi: number): number {
+    const offset = (direction * 64 + square) * 2;
+    const lo = this.RAYS[offset] & occupiedLo;
+    const hi = this.RAYS[offset + 1] & occupiedHi;
+    if (lo === 0 && hi === 0) return -1;
+    return direction < 4 ? this.lowestBit(lo, hi) : this.highestBit(lo, hi);
+  }
+
+  /**
+   * Squares a slider on the given square attacks along the given directions,
+   * up to and including the first occupied square. Written into out[0..1].
+   */
+  static slidingAttacks(
+    square: number,
+    directions: readonly number[],
+    occupiedLo: number,
+    occupiedHi: number,
+    out: Uint32Array
+  ): void {
+    let lo = 0;
+    let hi = 0;
+
+    for (const direction of directions) {
+      const offset = (direction * 64 + square) * 2;
+      let rayLo = this.RAYS[offset];
+      let rayHi = this.RAYS[offset + 1];
+
+      const blocker = this.firstBlocker(square, direction, occupiedLo, occupiedHi);
+      if (blocker >= 0) {
+        const beyond = (direction * 64 + blocker) * 2;
+        rayLo &= ~this.RAYS[beyond];
+        rayHi &= ~this.RAYS[beyond + 1];
+      }
+
+      lo |= rayLo;
+      hi |= rayHi;
+    }
+
+    out[0] = lo;
+    out[1] = hi;
+  }
+
+  private static buildStepTable(steps: [number, number][]): Uint32Array {
+    const table = new Uint32Array(128);
+    for (let square = 0; square < 64; square++) {
+      for (const [fileStep, rankStep] of steps) {
+        const file = (square % 8) + fileStep;
+        const rank = Math.floor(square / 8) + rankStep;
+        if (file >= 0 && file < 8 && rank >= 0 && rank < 8) {
+          this.setBit(table, square * 2, rank * 8 + file);
+        }
+      }
+    }
+    return table;
+  }
+
+  private static buildRays(): Uint32Array {
+    const table = new Uint32Array(8 * 64 * 2);
+    this.DIRECTIONS.forEach(([fileStep, rankStep], direction) => {
+      for (let square = 0; square < 64; square++) {
+        let file = (square % 8) + fileStep;
+        let rank = Math.floor(square / 8) + rankStep;
+        while (file >= 0 && file < 8 && rank >= 0 && rank < 8) {
+          this.setBit(table, (direction * 64 + square) * 2, rank * 8 + file);
+          file += fileStep;
+          rank += rankStep;
+        }
+      }
+    });
+    return table;
+  }
+
+  private static setBit(table: Uint32Array, offset: number, square: number): void {
+    if (square < 32) {
+      table[offset] |= 1 << square;
+    } else {
+      table[offset + 1] |= 1 << (square - 32);
+    }
+  }
+}
+
+/**
+ * Check and pin state for one side, computed once per position. Bitboards
+ * are [low half, high half].
+ */
+export interface CheckInfo {
+  kingIndex: number;
+  checkerCount: number;
+  checkers: [number, number];
+  // Squares a non-king move must land on: all squares when not in check,
+  // otherwise the checking piece and the squares between it and the king
+  evasionMask: [number, number];
+  // Pinned piece square to the squares it may still move to along its pin
+  pinRays: Map<number, [number, number]>;
+}
+
+/**
+ * Piece placement as one bitboard per piece type and color plus an
+ * occupancy bitboard per color, kept in step with the Board's square array.
+ */
+export class BitboardPosition {
+  private static readonly PIECE_INDEX: Record<PieceType, number> = {
+    [PieceType.Pawn]: 0,
+    [PieceType.Knight]: 1,
+    [PieceType.Bishop]: 2,
+    [PieceType.Rook]: 3,
+    [PieceType.Queen]: 4,
+    [PieceType.King]: 5
+  };
+
+  // Piece boards for white (0-5) and black (6-11), then white and black occupancy (12, 13)
+  private static readonly OCCUPANCY_INDEX = 12;
+
+  private readonly boards: Uint32Array;
+
+  constructor(boards: Uint32Array = new Uint32Array(14 * 2)) {
+    this.boards = boards;
+  }
+
+  static fromSquares(squares: (Piece | null)[]): BitboardPosition {
+    const position = new BitboardPosition();
+    squares.forEach((piece, index) => {
+      if (piece) position.place(index, piece);
+    });
+    return position;
+  }
+
+  clone(): BitboardPosition {
+    return new BitboardPosition(this.boards.slice());
+  }
+
+  place(index: number, piece: Piece): void {
+    this.setBit(this.pieceOffset(piece.type, piece.color), index, true);
+    this.setBit(this.occupancyOffset(piece.color), index, true);
+  }
+
+  remove(index: number, piece: Piece): void {
+    this.setBit(this.pieceOffset(piece.type, piece.color), index, false);
+    this.setBit(this.occupancyOffset(piece.color), index, false);
+  }
+
+  /**
+   * Low and high halves of the bitboard for one piece type and color.
+   */
+  pieces(type: PieceType, color: Color): [number, number] {
+    const offset = this.pieceOffset(type, color);
+    return [this.boards[offset], this.boards[offset + 1]];
+  }
+
+  occupancy(color: Color): [number, number] {
+    const offset = this.occupancyOffset(color);
+    return [this.boards[offset], this.boards[offset + 1]];
+  }
+
+  occupiedLo(): number {
+    return this.boards[BitboardPosition.OCCUPANCY_INDEX * 2] | this.boards[BitboardPosition.OCCUPANCY_INDEX * 2 + 2];
+  }
+
+  occupiedHi(): number {
+    return this.boards[BitboardPosition.OCCUPANCY_INDEX * 2 + 1] | this.boards[BitboardPosition.OCCUPANCY_INDEX * 2 + 3];
+  }
+
+  isSquareAttacked(index: number, byColor: Color): boolean {
+    return this.isAttackedWith(index, byColor, this.occupiedLo(), this.occupiedHi(), -1);
+  }
+
+  /**
+   * Pieces giving check to the king of the given color, the squares that
+   * answer a single check, and the pieces pinned to that king.
+   */
+  checkInfo(color: Color, kingIndex: number): CheckInfo {
+    const opponent = color === Color.White ? Color.Black : Color.White;
+    const occupiedLo = this.occupiedLo();
+    const occupiedHi = this.occupiedHi();
+    const [ownLo, ownHi] = this.occupancy(color);
+    const entry = kingIndex * 2;
+
+    const knights = this.pieceOffset(PieceType.Knight, opponent);
+    const pawns = this.pieceOffset(PieceType.Pawn, opponent);
+    // An enemy pawn checks the king exactly when one of our pawns on the king's square would attack it
+    const pawnAttacks = Bitboard.pawnAttacks(color);
+    let checkersLo = (Bitboard.KNIGHT_ATTACKS[entry] & this.boards[knights]) | (pawnAttacks[entry] & this.boards[pawns]);
+    let checkersHi = (Bitboard.KNIGHT_ATTACKS[entry + 1] & this.boards[knights + 1]) |
+      (pawnAttacks[entry + 1] & this.boards[pawns + 1]);
+    let evasionLo = checkersLo;
+    let evasionHi = checkersHi;
+    const pinRays = new Map<number, [number, number]>();
+
+    const queens = this.pieceOffset(PieceType.Queen, opponent);
+    for (let direction = 0; direction < 8; direction++) {
+      const sliders = this.pieceOffset(direction % 2 === 1 ? PieceType.Bishop : PieceType.Rook, opponent);
+      const attackersLo = this.boards[sliders] | this.boards[queens];
+      const attackersHi = this.boards[sliders + 1] | this.boards[queens + 1];
+      if (attackersLo === 0 && attackersHi === 0) continue;
+
+      const blocker = Bitboard.firstBlocker(kingIndex, direction, occupiedLo, occupiedHi);
+      if (blocker < 0) continue;
+
+      if (Bitboard.has(attackersLo, attackersHi, blocker)) {
+        if (blocker < 32) checkersLo |= 1 << blocker; else checkersHi |= 1 << (blocker - 32);
+        const [lineLo, lineHi] = this.segment(kingIndex, blocker, direction);
+        evasionLo |= lineLo;
+        evasionHi |= lineHi;
+      } else if (Bitboard.has(ownLo, ownHi, blocker)) {
+        const pinner = Bitboard.firstBlocker(blocker, direction, occupiedLo, occupiedHi);
+        if (pinner >= 0 && Bitboard.has(attackersLo, attackersHi, pinner)) {
+          pinRays.set(blocker, this.segment(kingIndex, pinner, direction));
+        }
+      }
+    }
+
+    const checkerCount = Bitboard.popCount(checkersLo, checkersHi);
+    return {
+      kingIndex,
+      checkerCount,
+      checkers: [checkersLo, checkersHi],
+      evasionMask: checkerCount === 0 ? [-1, -1] : [evasionLo, evasionHi],
+      pinRays
+    };
+  }
+
+  /**
+   * Whether moving a piece from one square to another would leave its own
+   * king attacked. capturedIndex is the square of the captured piece (the
+   * destination, or the passed pawn for en passant), or -1 for quiet moves.
+   */
+  leavesKingInCheck(
+    fromIndex: number,
+    toIndex: number,
+    capturedIndex: number,
+    color: Color,
+    kingIndex: number
+  ): boolean {
+    let lo = this.occupiedLo();
+    let hi = this.occupiedHi();
+
+    if (fromIndex < 32) lo &= ~(1 << fromIndex); else hi &= ~(1 << (fromIndex - 32));
+    if (capturedIndex >= 0) {
+      if (capturedIndex < 32) lo &= ~(1 << capturedIndex); else hi &= ~(1 << (capturedIndex - 32));
+    }
+    if (toIndex < 32) lo |= 1 << toIndex; else hi |= 1 << (toIndex - 32);
+
+    const king = kingIndex === fromIndex ? toIndex : kingIndex;
+    const opponent = color === Color.White ? Color.Black : Color.White;
+    return this.isAttackedWith(king, opponent, lo, hi, capturedIndex);
+  }
+
+  /**
+   * Attack test against a hypothetical occupancy, ignoring any attacker
+   * standing on the excluded (just captured) square.
+   */
+  private isAttackedWith(
+    target: number,
+    byColor: Color,
+    occupiedLo: number,
+    occupiedHi: number,
+    excluded: number
+  ): boolean {
+    const excludeLo = excluded >= 0 && excluded < 32 ? ~(1 << excluded) : -1;
+    const excludeHi = excluded >= 32 ? ~(1 << (excluded - 32)) : -1;
+    const entry = target * 2;
+
+    const knights = this.pieceOffset(PieceType.Knight, byColor);
+    const pawns = this.pieceOffset(PieceType.Pawn, byColor);
+    const king = this.pieceOffset(PieceType.King, byColor);
+    // A pawn of byColor attacks the target exactly when a defending pawn on the target would attack it
+    const pawnAttacks = Bitboard.pawnAttacks(byColor === Color.White ? Color.Black : Color.White);
+
+    const stepAttackers =
+      (Bitboard.KNIGHT_ATTACKS[entry] & this.boards[knights] & excludeLo) |
+      (Bitboard.KNIGHT_ATTACKS[entry + 1] & this.boards[knights + 1] & excludeHi) |
+      (pawnAttacks[entry] & this.boards[pawns] & excludeLo) |
+      (pawnAttacks[entry + 1] & this.boards[pawns + 1] & excludeHi) |
+      (Bitboard.KING_ATTACKS[entry] & this.boards[king]) |
+      (Bitboard.KING_ATTACKS[entry + 1] & this.boards[king + 1]);
+    if (stepAttackers !== 0) return true;
+
+    const queens = this.pieceOffset(PieceType.Queen, byColor);
+    return this.isSliderAttack(target, Bitboard.ROOK_DIRECTIONS, this.pieceOffset(PieceType.Rook, byColor), queens,
+      occupiedLo, occupiedHi, excluded) ||
+      this.isSliderAttack(target, Bitboard.BISHOP_DIRECTIONS, this.pieceOffset(PieceType.Bishop, byColor), queens,
+        occupiedLo, occupiedHi, excluded);
+  }
+
+  private isSliderAttack(
+    target: number,
+    directions: readonly number[],
+    sliders: number,
+    queens: number,
+    occupiedLo: number,
+    occupiedHi: number,
+    excluded: number
+  ): boolean {
+    const attackersLo = this.boards[sliders] | this.boards[queens];
+    const attackersHi = this.boards[sliders + 1] | this.boards[queens + 1];
+    if (attackersLo === 0 && attackersHi === 0) return false;
+
+    for (const direction of directions) {
+      const blocker = Bitboard.firstBlocker(target, direction, occupiedLo, occupiedHi);
+      if (blocker >= 0 && blocker !== excluded && Bitboard.has(attackersLo, attackersHi, blocker)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Squares along a ray from one square up to and including another.
+   */
+  private segment(from: number, to: number, direction: number): [number, number] {
+    const ray = (direction * 64 + from) * 2;
+    const beyond = (direction * 64 + to) * 2;
+    return [
+      Bitboard.RAYS[ray] & ~Bitboard.RAYS[beyond],
+      Bitboard.RAYS[ray + 1] & ~Bitboard.RAYS[beyond + 1]
+    ];
+  }
+
+  private setBit(offset: number, index: number, value: boolean): void {
+    const half = index < 32 ? offset : offset + 1;
+    const mask = 1 << (index & 31);
+    this.boards[half] = value ? this.boards[half] | mask : this.boards[half] & ~mask;
+  }
+
+  private pieceOffset(type: PieceType, color: Color): number {
+    return (BitboardPosition.PIECE_INDEX[type] + (color === Color.White ? 0 : 6)) * 2;
+  }
+
+  private occupancyOffset(color: Color): number {
+    return (BitboardPosition.OCCUPANCY_INDEX + (color === Color.White ? 0 : 1)) * 2;
+  }
+}
@@ -1,35 +1,105 @@
-import { Color, PieceType, SquareType } from './types';
-import type { File, Piece, Move, Square, CastlingRights, GameState} from './types';
+import { Color, PieceType, Termination } from './types';
+import type {
+  File, Piece, Move, MoveRecord, Square, CastlingRights, CastlingRookFiles, CastlingSide, GameState, GameStatus,
+  GameResult, GameOverReason, Attacker
+} from './types';
 import { SquareUtils } from './square_utils';
 import { MoveGenerator } from './move_generator';
-import { type Command } from './commands/types';
+import {
+  type Command,
+  type CommandResult,
+  Action,
+  CommandFailureReason
+} from './commands/types';
 import type { BoardStateReader } from './board_state';
 import { CommandValidator } from './commands/command_validator';
-import { FENParser } from './fen_parser';
+import { FENParser, type CastlingNotation } from './fen_parser';
 import { CastlingHandler } from './castling_handler';
+import { Zobrist } from './zobrist';
+import { Chess960 } from './chess960';
+import { InsufficientMaterial } from './insufficient_material';
+import { Bitboard, BitboardPosition, type CheckInfo } from './bitboard';
 import { AttackDetector } from './attack_detector';
+import { StaticExchange, type ExchangeResult } from './static_exchange';
+
+/**
+ * Everything needed to take back one move. makeMove keeps one frame per
+ * search ply and reuses it, together with a spare move cache, so making and
+ * unmaking moves does not allocate undo records.
+ */
+interface UndoFrame {
+  move: Move | null;
+  piece: Piece | null;
+  capturedPiece: Piece | null;
+  capturedIndex: number;
+  castlingSide: CastlingSide | null;
+  castlingRights: CastlingRights;
+  enPassantSquare: Square | null;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+  validMovesCache: Map<number, Move[]>;
+  checkInfoCache: Map<Color, CheckInfo>;
+  isCacheDirty: boolean;
+}
 
 export class Board implements BoardStateReader {
+  // GameStatus reasons for terminations that are not reported as a plain draw
+  private static readonly GAME_OVER_REASONS: Partial<Record<Termination, GameOverReason>> = {
+    [Termination.Checkmate]: 'checkmate',
+    [Termination.Stalemate]: 'stalemate',
+    [Termination.Resignation]: 'resignation',
+    [Termination.Timeout]: 'timeout',
+    [Termination.Abandonment]: 'abandonment'
+  };
+
+  // Shared piece objects for promotions, so playing a promotion does not allocate
+  private static readonly PROMOTED_PIECES: Record<Color, Partial<Record<PieceType, Piece>>> = {
+    [Color.White]: Board.createPromotedPieces(Color.White),
+    [Color.Black]: Board.createPromotedPieces(Color.Black)
+  };
+
   private squares: (Piece | null)[];
   private activeColor: Color;
   private castlingRights: CastlingRights;
+  private castlingRookFiles: CastlingRookFiles;
+  private chess960: boolean;
   private enPassantSquare: Square | null;
   private halfMoveClock: number;
   private fullMoveNumber: number;
+  // Result of a game ended by the players rather than by the position on the board
+  private declaredResult: GameResult | null;
+
+  // Played moves, most recent last, and moves taken back that can be replayed
+  private history: MoveRecord[];
+  private redoStack: Move[];
+
+  // Undo frames for makeMove, reused across searches; searchPly frames are in use
+  private searchFrames: UndoFrame[];
+  private searchPly: number;
+
+  // Incrementally maintained Zobrist key and how often each key occurred this game
+  private positionKey: bigint;
+  private positionCounts: Map<bigint, number>;
 
   private piecePositions: Map<Color, Map<PieceType, Set<number>>>;
   private kingPositions: Map<Color, number>;
+  private bitboards: BitboardPosition;
+  private checkInfoCache: Map<Color, CheckInfo>;
   private validMovesCache: Map<number, Move[]>;
   private isCacheDirty: boolean;
 
   // Lazy-initialized helpers
   private _commandValidator?: CommandValidator;
 
-  public static fromFEN(fen: string): Board {
+  /**
+   * Set up a position from FEN. In Chess960 mode castling rights may be
+   * given in X-FEN or Shredder-FEN and castling uses Chess960 rules.
+   */
+  public static fromFEN(fen: string, chess960 = false): Board {
     const board = new Board();
     board.clearBoard();
 
-    const parsed = FENParser.parse(fen);
+    const parsed = FENParser.parse(fen, chess960);
 
     for (const [square, piece] of parsed.pieces) {
       board.placePiece(square, piece);
@@ -37,14 +107,24 @@ export class Board implements BoardStateReader {
 
     board.activeColor = parsed.activeColor;
     board.castlingRights = parsed.castlingRights;
+    board.castlingRookFiles = parsed.castlingRookFiles;
+    board.chess960 = chess960;
     board.enPassantSquare = parsed.enPassantSquare;
     board.halfMoveClock = parsed.halfMoveClock;
     board.fullMoveNumber = parsed.fullMoveNumber;
 
+    board.resetPositionTracking();
     board.invalidateCache();
     return board;
   }
 
+  /**
+   * Start a Chess960 game from a numbered starting position, or a random one.
+   */
+  public static fromChess960Position(positionNumber: number = Chess960.randomPositionNumber()): Board {
+    return Board.fromFEN(Chess960.startingFEN(positionNumber), true);
+  }
+
   constructor() {
     this.squares = new Array(64).fill(null);
     this.activeColor = Color.White;
@@ -54,19 +134,31 @@ export class Board implements BoardStateReader {
       blackKingside: true,
       blackQueenside: true
     };
+    this.castlingRookFiles = { ...CastlingHandler.STANDARD_ROOK_FILES };
+    this.chess960 = false;
     this.enPassantSquare = null;
     this.halfMoveClock = 0;
     this.fullMoveNumber = 1;
+    this.declaredResult = null;
+    this.history = [];
+    this.redoStack = [];
+    this.searchFrames = [];
+    this.searchPly = 0;
+    this.positionKey = 0n;
+    this.positionCounts = new Map();
 
     this.piecePositions = new Map([
       [Color.White, this.createPieceTypeMap()],
       [Color.Black, this.createPieceTypeMap()]
     ]);
     this.kingPositions = new Map();
+    this.bitboards = new BitboardPosition();
+    this.checkInfoCache = new Map();
     this.validMovesCache = new Map();
     this.isCacheDirty = true;
 
     this.setupInitialPosition();
+    this.resetPositionTracking();
   }
 
   private get commandValidator(): CommandValidator {
@@ -102,6 +194,14 @@ export class Board implements BoardStateReader {
     return { ...this.castlingRights };
   }
 
+  public getCastlingRookFiles(): CastlingRookFiles {
+    return { ...this.castlingRookFiles };
+  }
+
+  public isChess960(): boolean {
+    return this.chess960;
+  }
+
   public getKingPosition(color: Color): number {
     return this.kingPositions.get(color)!;
   }
@@ -147,26 +247,228 @@ export class Board implements BoardStateReader {
     };
   }
 
-  //TODO: Change API to have a single executeCommand method that internally validates, and executes all corresponding moves if valid. 
-  // Update tests to check that executeCommand was successful instead of checking isValidCommand
   public isValidCommand(command: Command): boolean {
+    if (command.action === Action.Undo) return this.declaredResult !== null || this.history.length > 0;
+    if (command.action === Action.Redo) return this.redoStack.length > 0;
+    if (command.action === Action.ClaimDraw) return this.canClaimDraw();
     return this.commandValidator.isValidCommand(command);
   }
 
+  /**
+   * Validate a parsed voice command and execute it if exactly one legal
+   * move matches. Castling reports both the king and rook moves.
+   */
+  public executeCommand(command: Command): CommandResult {
+    // Taking back moves is allowed even after the game has ended
+    if (command.action === Action.Undo && this.withdrawResult()) {
+      return this.buildCommandSuccess([], null);
+    }
+
+    if (command.action === Action.Undo || command.action === Action.Redo) {
+      const move = command.action === Action.Undo ? this.undo() : this.redo();
+      return move
+        ? this.buildCommandSuccess([move], null)
+        : { success: false, reason: CommandFailureReason.NoMatch, candidates: [] };
+    }
+
+    if (this.isGameOver().isOver) {
+      return { success: false, reason: CommandFailureReason.GameOver, candidates: [] };
+    }
+
+    if (command.action === Action.Resign) {
+      this.resign();
+      return this.buildCommandSuccess([], null);
+    }
+
+    if (command.action === Action.ClaimDraw) {
+      return this.claimDraw()
+        ? this.buildCommandSuccess([], null)
+        : { success: false, reason: CommandFailureReason.NoMatch, candidates: [] };
+    }
+
+    const candidates = this.commandValidator.findMatchingMoves(command);
+
+    if (candidates.length > 1) {
+      return { success: false, reason: CommandFailureReason.Ambiguous, candidates };
+    }
+
+    if (candidates.length === 0) {
+      const wouldLeaveKingInCheck = this.commandValidator.findIllegalMatchingMoves(command).length > 0;
+      return {
+        success: false,
+        reason: wouldLeaveKingInCheck ? CommandFailureReason.KingInCheck : CommandFailureReason.NoMatch,
+        candidates: []
+      };
+    }
+
+    return this.playCommandMove(candidates[0]);
+  }
+
+  /**
+   * Execute one of the candidates an ambiguous command matched, once the
+   * player has picked it, and report it the same way executeCommand does.
+   */
+  public executeCandidate(move: Move): CommandResult {
+    if (this.isGameOver().isOver) {
+      return { success: false, reason: CommandFailureReason.GameOver, candidates: [] };
+    }
+
+    const validMove = this.getValidMovesForSquare(move.startSquare).find(
+      m => m.endSquare === move.endSquare && this.matchesPromotion(m, move)
+    );
+    if (!validMove) {
+      return { success: false, reason: CommandFailureReason.NoMatch, candidates: [] };
+    }
+
+    return this.playCommandMove(validMove);
+  }
+
+  /**
+   * Execute a move if it is legal and the game is not over. A pawn reaching
+   * the last rank without a chosen promotion piece is promoted to a queen.
+   */
   public executeMove(move: Move): boolean {
+    if (this.getResult()) return false;
+
     const validMoves = this.getValidMovesForSquare(move.startSquare);
-    const isValid = validMoves.some(
-      m => m.startSquare === move.startSquare && m.endSquare === move.endSquare
+    const validMove = validMoves.find(
+      m => m.startSquare === move.startSquare &&
+        m.endSquare === move.endSquare &&
+        this.matchesPromotion(m, move)
     );
 
-    if (!isValid) return false;
+    if (!validMove) return false;
 
     const piece = this.getPieceAt(move.startSquare);
     if (!piece || piece.type !== move.piece || piece.color !== move.color) {
       return false;
     }
 
-    this.executeValidatedMove(move, piece);
+    this.executeValidatedMove(validMove);
+    this.redoStack = [];
+    return true;
+  }
+
+  /**
+   * Take back the last move, restoring the exact prior position. A declared
+   * result, such as a resignation, is withdrawn first without taking back a move.
+   * @returns The move taken back, or null if a result was withdrawn or there is no move to undo
+   */
+  public undo(): Move | null {
+    if (this.withdrawResult()) return null;
+
+    const record = this.history.pop();
+    if (!record) return null;
+
+    this.revertMove(record);
+    this.redoStack.push(record.move);
+    return record.move;
+  }
+
+  /**
+   * Replay the most recently undone move, unless the game has since ended.
+   * @returns The move replayed, or null if there is no move to redo
+   */
+  public redo(): Move | null {
+    if (this.getResult()) return null;
+
+    const move = this.redoStack.pop();
+    if (!move) return null;
+
+    this.executeValidatedMove(move);
+    return move;
+  }
+
+  public getHistory(): MoveRecord[] {
+    return this.history.map(record => ({ ...record }));
+  }
+
+  /**
+   * Zobrist key of the current position (pieces, castling rights,
+   * capturable en passant file and side to move).
+   */
+  public getPositionKey(): bigint {
+    return this.positionKey;
+  }
+
+  /**
+   * Number of times the current position has occurred in this game.
+   */
+  public getRepetitionCount(): number {
+    return this.positionCounts.get(this.positionKey) ?? 0;
+  }
+
+  public isThreefoldRepetition(): boolean {
+    return this.getRepetitionCount() >= 3;
+  }
+
+  public isFivefoldRepetition(): boolean {
+    return this.getRepetitionCount() >= 5;
+  }
+
+  /**
+   * Neither side has the material to checkmate, which ends the game as a draw.
+   */
+  public isDeadPosition(): boolean {
+    return InsufficientMaterial.isDeadPosition(this);
+  }
+
+  /**
+   * Whether the given side could still checkmate. A player who runs out of
+   * time against an opponent without mating material draws rather than loses.
+   */
+  public hasMatingMaterial(color: Color): boolean {
+    return InsufficientMaterial.hasMatingMaterial(this, color);
+  }
+
+  /**
+   * Whether the side to move may claim a draw by threefold repetition
+   * or the 50-move rule.
+   */
+  public canClaimDraw(): boolean {
+    return this.isThreefoldRepetition() || this.halfMoveClock >= 100;
+  }
+
+  /**
+   * Claim a draw, ending the game if the claim is valid.
+   */
+  public claimDraw(): boolean {
+    if (!this.canClaimDraw()) return false;
+    const termination = this.isThreefoldRepetition() ? Termination.ThreefoldRepetition : Termination.FiftyMoveRule;
+    return this.declareResult(null, termination);
+  }
+
+  /**
+   * End the game with the given side resigning, by default the side to move.
+   */
+  public resign(color: Color = this.activeColor): boolean {
+    return this.declareResult(this.opponentOf(color), Termination.Resignation);
+  }
+
+  public agreeDraw(): boolean {
+    return this.declareResult(null, Termination.Agreement);
+  }
+
+  /**
+   * End the game because the given side ran out of time. The opponent wins
+   * unless they have no mating material, in which case the game is drawn.
+   */
+  public flag(color: Color): boolean {
+    const winner = InsufficientMaterial.isTimeoutDraw(this, color) ? null : this.opponentOf(color);
+    return this.declareResult(winner, Termination.Timeout);
+  }
+
+  public abandon(color: Color): boolean {
+    return this.declareResult(this.opponentOf(color), Termination.Abandonment);
+  }
+
+  /**
+   * Withdraw a result declared by the players, leaving the position as it was.
+   * @returns Whether there was a declared result to withdraw
+   */
+  public withdrawResult(): boolean {
+    if (!this.declaredResult) return false;
+    this.declaredResult = null;
     return true;
   }
 
@@ -181,17 +483,16 @@ export class Board implements BoardStateReader {
     const piece = this.squares[index];
     if (!piece) return [];
 
-    const pseudoLegalMoves = MoveGenerator.generateMoves(
-      piece, square, this.squares, this.enPassantSquare
+    const legalMoves = MoveGenerator.generateLegalMoves(
+      piece, square, this.bitboards, this.enPassantSquare, this.getCheckInfo(piece.color)
     );
 
-    const legalMoves = pseudoLegalMoves.filter(move => this.isMoveLegal(move));
-
     if (piece.type === PieceType.King) {
       legalMoves.push(...CastlingHandler.getCastlingMoves(this, piece.color));
     }
 
     this.validMovesCache.set(index, legalMoves);
+    this.isCacheDirty = false;
     return legalMoves;
   }
 
@@ -207,32 +508,181 @@ export class Board implements BoardStateReader {
     return moves;
   }
 
+  /**
+   * Play a legal move, such as one from getAllValidMoves, for search or
+   * analysis. Unlike executeMove the move is not validated and is not added
+   * to the game history; undo frames and move caches are reused, so each
+   * pair of makeMove and unmakeMove calls restores the position exactly.
+   */
+  public makeMove(move: Move): void {
+    let frame = this.searchFrames[this.searchPly];
+    if (!frame) {
+      frame = Board.createUndoFrame();
+      this.searchFrames.push(frame);
+    }
+    this.searchPly++;
+
+    // Park this position's move caches in the frame so unmakeMove can restore them
+    const { validMovesCache, checkInfoCache } = frame;
+    frame.validMovesCache = this.validMovesCache;
+    frame.checkInfoCache = this.checkInfoCache;
+    frame.isCacheDirty = this.isCacheDirty;
+    this.validMovesCache = validMovesCache;
+    this.checkInfoCache = checkInfoCache;
+
+    this.playMove(move, frame);
+  }
+
+  /**
+   * Take back the last move played with makeMove.
+   */
+  public unmakeMove(): void {
+    if (this.searchPly === 0) {
+      throw new Error('unmakeMove called without a matching makeMove');
+    }
+
+    const frame = this.searchFrames[--this.searchPly];
+    this.takeBackMove(frame);
+
+    const { validMovesCache, checkInfoCache } = frame;
+    frame.validMovesCache = this.validMovesCache;
+    frame.checkInfoCache = this.checkInfoCache;
+    this.validMovesCache = validMovesCache;
+    this.checkInfoCache = checkInfoCache;
+    this.isCacheDirty = frame.isCacheDirty;
+    frame.move = null;
+    frame.piece = null;
+    frame.capturedPiece = null;
+  }
+
+  /**
+   * Count the leaf nodes of the legal move tree to the given depth.
+   * Comparing against published counts verifies move generation.
+   */
+  public perft(depth: number): number {
+    if (depth <= 0) return 1;
+
+    const moves = this.getAllValidMoves();
+    if (depth === 1) return moves.length;
+
+    let nodes = 0;
+    for (const move of moves) {
+      nodes += this.perftAfter(move, depth - 1);
+    }
+    return nodes;
+  }
+
+  /**
+   * Perft split by root move, keyed by coordinate notation such as "e2e4"
+   * or "e7e8q", for finding which move a count mismatch comes from.
+   */
+  public divide(depth: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    if (depth <= 0) return counts;
+
+    for (const move of this.getAllValidMoves()) {
+      const promotion = move.promotion ? FENParser.pieceChar(move.promotion) : '';
+      counts.set(`${move.startSquare}${move.endSquare}${promotion}`, this.perftAfter(move, depth - 1));
+    }
+    return counts;
+  }
+
+  /**
+   * Squares of the given side's pieces that are pinned to their own king.
+   */
+  public getPinnedPieces(color: Color): Square[] {
+    return [...this.getCheckInfo(color).pinRays.keys()].map(index => SquareUtils.fromIndex(index));
+  }
+
+  /**
+   * Squares of the pieces giving check to the side to move.
+   */
+  public getCheckers(): Square[] {
+    const [lo, hi] = this.getCheckInfo(this.activeColor).checkers;
+    const squares: Square[] = [];
+    for (let index = 0; index < 64; index++) {
+      if (Bitboard.has(lo, hi, index)) squares.push(SquareUtils.fromIndex(index));
+    }
+    return squares;
+  }
+
+  /**
+   * Pieces attacking a square, by default those of the side opposing the
+   * piece on it (or the side not to move, for an empty square). Pieces lined
+   * up behind another attacker are included and marked as x-ray attackers.
+   */
+  public getAttackers(square: Square, byColor: Color = this.opponentOf(this.occupantColor(square))): Attacker[] {
+    return AttackDetector.getAttackers(this.squares, SquareUtils.toIndex(square), byColor);
+  }
+
+  /**
+   * Pieces defending a square: those of the side owning the piece on it,
+   * or of the side to move for an empty square.
+   */
+  public getDefenders(square: Square): Attacker[] {
+    return AttackDetector.getAttackers(this.squares, SquareUtils.toIndex(square), this.occupantColor(square));
+  }
+
+  /**
+   * Number of the given side's pieces directly attacking each square,
+   * indexed by square index.
+   */
+  public getAttackMap(color: Color): number[] {
+    return AttackDetector.getAttackMap(this.squares, color);
+  }
+
+  /**
+   * Material won or lost by a move once every recapture on its target square
+   * has been played out.
+   */
+  public evaluateExchange(move: Move): ExchangeResult {
+    return StaticExchange.evaluate(this, move);
+  }
+
+  /**
+   * Squares of the given side's pieces that the opponent can win by capturing.
+   */
+  public getHangingPieces(color: Color): Square[] {
+    return this.getAllSquaresForColor(color).filter(square => StaticExchange.isHanging(this, square));
+  }
+
   public isSquareAttacked(squareIndex: number, byColor: Color): boolean {
-    return AttackDetector.isSquareAttacked(this.squares, squareIndex, byColor);
+    return this.bitboards.isSquareAttacked(squareIndex, byColor);
   }
 
   public isInCheck(): boolean {
-    return AttackDetector.isSquareAttacked(this.squares, this.kingPositions.get(this.activeColor)!,
+    return this.bitboards.isSquareAttacked(this.kingPositions.get(this.activeColor)!,
       this.activeColor === Color.White ? Color.Black : Color.White);
   }
 
-  public isGameOver(): { isOver: boolean; reason?: 'checkmate' | 'stalemate' | 'draw' } {
+  /**
+   * How the game ended, or null while it is still in progress. Results
+   * declared by the players take precedence; otherwise the position decides.
+   */
+  public getResult(): GameResult | null {
+    if (this.declaredResult) return { ...this.declaredResult };
+
     const validMoves = this.getAllValidMoves();
     if (validMoves.length === 0) {
       return this.isInCheck()
-        ? { isOver: true, reason: 'checkmate' }
-        : { isOver: true, reason: 'stalemate' };
+        ? this.buildResult(this.opponentOf(this.activeColor), Termination.Checkmate)
+        : this.buildResult(null, Termination.Stalemate);
     }
 
-    if (this.halfMoveClock >= 100) {
-      return { isOver: true, reason: 'draw' };
-    }
+    // Fivefold repetition, the 75-move rule and dead positions end the game without a claim
+    if (this.isFivefoldRepetition()) return this.buildResult(null, Termination.FivefoldRepetition);
+    if (this.halfMoveClock >= 150) return this.buildResult(null, Termination.SeventyFiveMoveRule);
+    if (this.isDeadPosition()) return this.buildResult(null, Termination.InsufficientMaterial);
 
-    if (this.hasInsufficientMaterial()) {
-      return { isOver: true, reason: 'draw'};
-    }
+    return null;
+  }
+
+  public isGameOver(): GameStatus {
+    const result = this.getResult();
+    if (!result) return { isOver: false };
 
-    return { isOver: false };
+    const reason = Board.GAME_OVER_REASONS[result.termination] ?? 'draw';
+    return result.winner ? { isOver: true, reason, winner: result.winner } : { isOver: true, reason };
   }
 
   public clone(): Board {
@@ -240,15 +690,24 @@ export class Board implements BoardStateReader {
     newBoard.squares = this.squares.map(p => p ? { ...p } : null);
     newBoard.activeColor = this.activeColor;
     newBoard.castlingRights = { ...this.castlingRights };
+    newBoard.castlingRookFiles = { ...this.castlingRookFiles };
+    newBoard.chess960 = this.chess960;
     newBoard.enPassantSquare = this.enPassantSquare;
     newBoard.halfMoveClock = this.halfMoveClock;
     newBoard.fullMoveNumber = this.fullMoveNumber;
+    newBoard.declaredResult = this.declaredResult;
+    newBoard.positionKey = this.positionKey;
+    newBoard.positionCounts = new Map(this.positionCounts);
+    newBoard.history = [...this.history];
+    newBoard.redoStack = [...this.redoStack];
 
     newBoard.piecePositions = new Map([
       [Color.White, newBoard.createPieceTypeMap()],
       [Color.Black, newBoard.createPieceTypeMap()]
     ]);
 
+    newBoard.bitboards = this.bitboards.clone();
+
     for (let i = 0; i < 64; i++) {
       const piece = newBoard.squares[i];
       if (piece) {
@@ -263,65 +722,238 @@ export class Board implements BoardStateReader {
   }
 
   public getTargetSquares(square: Square): Square[] {
-    return this.getValidMovesForSquare(square).map(m => m.endSquare);
+    // Promotion moves share a target square, so collapse them to one entry
+    return [...new Set(this.getValidMovesForSquare(square).map(m => m.endSquare))];
   }
 
-  public toFEN(): string {
+  public toFEN(castlingNotation: CastlingNotation = 'xfen'): string {
     return FENParser.generate(
       this.squares,
       this.activeColor,
       this.castlingRights,
       this.enPassantSquare,
       this.halfMoveClock,
-      this.fullMoveNumber
+      this.fullMoveNumber,
+      this.castlingRookFiles,
+      castlingNotation
     );
   }
 
   // ============ Private Methods ============
 
-  private executeValidatedMove(move: Move, piece: Piece): void {
-    const capturedPiece = this.getPieceAt(move.endSquare);
-    const isPawnMove = piece.type === PieceType.Pawn;
+  /**
+   * Apply an already validated move, recording it in the game history, and
+   * return the captured piece, if any.
+   */
+  private executeValidatedMove(move: Move): Piece | null {
+    const frame = Board.createUndoFrame();
+    this.playMove(move, frame);
+
+    this.history.push({
+      move,
+      capturedPiece: frame.capturedPiece,
+      capturedSquare: frame.capturedIndex >= 0 ? SquareUtils.fromIndex(frame.capturedIndex) : null,
+      castlingRights: frame.castlingRights,
+      enPassantSquare: frame.enPassantSquare,
+      halfMoveClock: frame.halfMoveClock,
+      fullMoveNumber: frame.fullMoveNumber
+    });
+    return frame.capturedPiece;
+  }
 
-    // Handle en passant capture
-    if (isPawnMove && move.endSquare === this.enPassantSquare) {
-      const capturedRank = piece.color === Color.White ?
-        SquareUtils.getRank(move.endSquare) - 1 :
-        SquareUtils.getRank(move.endSquare) + 1;
-      const capturedIndex = SquareUtils.fileRankToIndex(
-        SquareUtils.getFile(move.endSquare), capturedRank
-      );
-      this.removePiece(SquareUtils.fromIndex(capturedIndex));
-    }
+  /**
+   * Restore the position from before a recorded move that has already
+   * been removed from the history.
+   */
+  private revertMove(record: MoveRecord): void {
+    const { move } = record;
+    const frame = Board.createUndoFrame();
+
+    frame.move = move;
+    frame.piece = { type: move.piece, color: move.color };
+    frame.capturedPiece = record.capturedPiece;
+    frame.capturedIndex = record.capturedSquare ? SquareUtils.toIndex(record.capturedSquare) : -1;
+    frame.castlingSide = CastlingHandler.getCastlingSide(this, move, record.castlingRights);
+    frame.castlingRights = { ...record.castlingRights };
+    frame.enPassantSquare = record.enPassantSquare;
+    frame.halfMoveClock = record.halfMoveClock;
+    frame.fullMoveNumber = record.fullMoveNumber;
+
+    this.takeBackMove(frame);
+  }
 
-    // Handle castling rook movement
-    if (piece.type === PieceType.King) {
-      const fileDiff = SquareUtils.getFile(move.endSquare) - SquareUtils.getFile(move.startSquare);
-      if (Math.abs(fileDiff) === 2) {
-        this.moveCastlingRook(piece.color, fileDiff > 0);
+  /**
+   * Move the pieces and update the game state for a legal move, saving
+   * what takeBackMove needs into the frame.
+   */
+  private playMove(move: Move, frame: UndoFrame): void {
+    const fromIndex = SquareUtils.toIndex(move.startSquare);
+    const toIndex = SquareUtils.toIndex(move.endSquare);
+    const piece = this.squares[fromIndex]!;
+    const isPawnMove = piece.type === PieceType.Pawn;
+    // A Chess960 castling move lands on the king's own rook, which is not a capture
+    const castlingSide = CastlingHandler.getCastlingSide(this, move);
+
+    frame.move = move;
+    frame.piece = piece;
+    frame.capturedPiece = null;
+    frame.capturedIndex = -1;
+    frame.castlingSide = castlingSide;
+    Object.assign(frame.castlingRights, this.castlingRights);
+    frame.enPassantSquare = this.enPassantSquare;
+    frame.halfMoveClock = this.halfMoveClock;
+    frame.fullMoveNumber = this.fullMoveNumber;
+
+    this.positionKey ^= Zobrist.stateKey(this);
+
+    if (castlingSide) {
+      // Lift both pieces first since king and rook squares may overlap in Chess960
+      const rookIndex = this.castlingRookIndex(piece.color, castlingSide);
+      const rook = this.removePieceAt(rookIndex)!;
+      this.removePieceAt(fromIndex);
+      this.placePieceAt(CastlingHandler.kingTargetIndex(piece.color, castlingSide), piece);
+      this.placePieceAt(CastlingHandler.rookTargetIndex(piece.color, castlingSide), rook);
+    } else {
+      let capturedIndex = this.squares[toIndex] ? toIndex : -1;
+      if (isPawnMove && move.endSquare === this.enPassantSquare) {
+        capturedIndex = toIndex + (piece.color === Color.White ? -8 : 8);
+      }
+      if (capturedIndex >= 0) {
+        frame.capturedPiece = this.removePieceAt(capturedIndex);
+        frame.capturedIndex = capturedIndex;
       }
-    }
 
-    // Execute main move
-    this.removePiece(move.startSquare);
-    if (capturedPiece) this.removePiece(move.endSquare);
-    this.placePiece(move.endSquare, piece);
+      // Swap in the promoted piece if any
+      this.removePieceAt(fromIndex);
+      this.placePieceAt(toIndex, move.promotion ? Board.PROMOTED_PIECES[piece.color][move.promotion]! : piece);
+    }
 
-    // Update game state
     this.updateEnPassantSquare(move, piece, isPawnMove);
     this.updateCastlingRights(move);
-    this.updateClocks(isPawnMove, capturedPiece !== null);
-    this.activeColor = this.activeColor === Color.White ? Color.Black : Color.White;
+    this.updateClocks(isPawnMove, frame.capturedPiece !== null);
+    this.activeColor = this.opponentOf(this.activeColor);
+    this.positionKey ^= Zobrist.stateKey(this);
+    this.recordPosition();
     this.invalidateCache();
   }
 
-  private moveCastlingRook(color: Color, kingside: boolean): void {
-    const rank = color === Color.White ? '1' : '8';
-    if (kingside) {
-      this.movePieceInternal(`h${rank}` as Square, `f${rank}` as Square);
+  private takeBackMove(frame: UndoFrame): void {
+    const move = frame.move!;
+    const piece = frame.piece!;
+    const fromIndex = SquareUtils.toIndex(move.startSquare);
+
+    this.releasePosition();
+    this.positionKey ^= Zobrist.stateKey(this);
+
+    if (frame.castlingSide) {
+      const rook = this.removePieceAt(CastlingHandler.rookTargetIndex(piece.color, frame.castlingSide))!;
+      this.removePieceAt(CastlingHandler.kingTargetIndex(piece.color, frame.castlingSide));
+      this.placePieceAt(fromIndex, piece);
+      this.placePieceAt(this.castlingRookIndex(piece.color, frame.castlingSide), rook);
     } else {
-      this.movePieceInternal(`a${rank}` as Square, `d${rank}` as Square);
+      this.removePieceAt(SquareUtils.toIndex(move.endSquare));
+      this.placePieceAt(fromIndex, piece);
+      if (frame.capturedPiece) {
+        this.placePieceAt(frame.capturedIndex, frame.capturedPiece);
+      }
     }
+
+    this.activeColor = piece.color;
+    Object.assign(this.castlingRights, frame.castlingRights);
+    this.enPassantSquare = frame.enPassantSquare;
+    this.halfMoveClock = frame.halfMoveClock;
+    this.fullMoveNumber = frame.fullMoveNumber;
+    this.positionKey ^= Zobrist.stateKey(this);
+    this.invalidateCache();
+  }
+
+  private castlingRookIndex(color: Color, side: CastlingSide): number {
+    const rank = color === Color.White ? 0 : 7;
+    return SquareUtils.fileRankToIndex(this.castlingRookFiles[CastlingHandler.rightFor(color, side)], rank);
+  }
+
+  private perftAfter(move: Move, depth: number): number {
+    this.makeMove(move);
+    const nodes = this.perft(depth);
+    this.unmakeMove();
+    return nodes;
+  }
+
+  /**
+   * End the game with a result chosen by the players. Fails if the game
+   * is already over.
+   */
+  private declareResult(winner: Color | null, termination: Termination): boolean {
+    if (this.getResult()) return false;
+    this.declaredResult = this.buildResult(winner, termination);
+    return true;
+  }
+
+  private buildResult(winner: Color | null, termination: Termination): GameResult {
+    return {
+      winner,
+      termination,
+      ply: this.history.length,
+      fullMoveNumber: this.fullMoveNumber,
+      lastMove: this.history.at(-1)?.move ?? null
+    };
+  }
+
+  private playCommandMove(move: Move): CommandResult {
+    const castlingSide = CastlingHandler.getCastlingSide(this, move);
+    // In Chess960 the king or rook may already stand on its castled square and is not reported as moving
+    const movesMade = castlingSide
+      ? CastlingHandler.expandCastlingMove(this, move, castlingSide).filter(m => m.startSquare !== m.endSquare)
+      : [move];
+    const capturedPiece = this.executeValidatedMove(move);
+    this.redoStack = [];
+
+    return this.buildCommandSuccess(movesMade, capturedPiece);
+  }
+
+  private buildCommandSuccess(moves: Move[], capturedPiece: Piece | null): CommandResult {
+    const result = this.getResult();
+    return {
+      success: true,
+      moves,
+      capturedPiece,
+      isCheck: this.isInCheck(),
+      isCheckmate: result?.termination === Termination.Checkmate,
+      fen: this.toFEN(),
+      gameStatus: this.isGameOver(),
+      result
+    };
+  }
+
+  private resetPositionTracking(): void {
+    this.positionKey = Zobrist.computeKey(this);
+    this.positionCounts = new Map([[this.positionKey, 1]]);
+  }
+
+  private recordPosition(): void {
+    this.positionCounts.set(this.positionKey, this.getRepetitionCount() + 1);
+  }
+
+  private releasePosition(): void {
+    const count = this.getRepetitionCount();
+    if (count <= 1) {
+      this.positionCounts.delete(this.positionKey);
+    } else {
+      this.positionCounts.set(this.positionKey, count - 1);
+    }
+  }
+
+  private opponentOf(color: Color): Color {
+    return color === Color.White ? Color.Black : Color.White;
+  }
+
+  private occupantColor(square: Square): Color {
+    return this.getPieceAt(square)?.color ?? this.activeColor;
+  }
+
+  private matchesPromotion(validMove: Move, requested: Move): boolean {
+    if (!validMove.promotion) return requested.promotion === undefined;
+    return validMove.promotion === (requested.promotion ?? PieceType.Queen);
   }
 
   private updateEnPassantSquare(move: Move, piece: Piece, isPawnMove: boolean): void {
@@ -353,13 +985,11 @@ export class Board implements BoardStateReader {
       }
     }
 
-    const affectedSquares: [Square, keyof CastlingRights][] = [
-      ['a1', 'whiteQueenside'], ['h1', 'whiteKingside'],
-      ['a8', 'blackQueenside'], ['h8', 'blackKingside']
-    ];
-
-    for (const [square, right] of affectedSquares) {
-      if (move.startSquare === square || move.endSquare === square) {
+    // Moving or capturing a castling rook removes its right
+    for (const right of Object.keys(this.castlingRights) as (keyof CastlingRights)[]) {
+      const rank = right.startsWith('white') ? 0 : 7;
+      const rookSquare = SquareUtils.fromIndex(SquareUtils.fileRankToIndex(this.castlingRookFiles[right], rank));
+      if (move.startSquare === rookSquare || move.endSquare === rookSquare) {
         this.castlingRights[right] = false;
       }
     }
@@ -377,88 +1007,34 @@ export class Board implements BoardStateReader {
     }
   }
 
-  private isMoveLegal(move: Move): boolean {
-    const fromIndex = SquareUtils.toIndex(move.startSquare);
-    const toIndex = SquareUtils.toIndex(move.endSquare);
-    const movingPiece = this.squares[fromIndex];
-    const capturedPiece = this.squares[toIndex];
-
-    // Temporarily execute move
-    this.squares[fromIndex] = null;
-    this.squares[toIndex] = movingPiece;
-
-    let enPassantCaptured: Piece | null = null;
-    let enPassantIndex = -1;
-
-    if (movingPiece?.type === PieceType.Pawn && move.endSquare === this.enPassantSquare) {
-      const capturedRank = movingPiece.color === Color.White ?
-        SquareUtils.getRank(move.endSquare) - 1 :
-        SquareUtils.getRank(move.endSquare) + 1;
-      enPassantIndex = SquareUtils.fileRankToIndex(
-        SquareUtils.getFile(move.endSquare), capturedRank
-      );
-      enPassantCaptured = this.squares[enPassantIndex];
-      this.squares[enPassantIndex] = null;
-    }
-
-    const kingPos = movingPiece?.type === PieceType.King ?
-      toIndex : this.kingPositions.get(move.color)!;
-    const opponentColor = move.color === Color.White ? Color.Black : Color.White;
-    const isInCheck = AttackDetector.isSquareAttacked(this.getAllSquarePieces(), kingPos, opponentColor);
-
-    // Restore board
-    this.squares[fromIndex] = movingPiece;
-    this.squares[toIndex] = capturedPiece;
-    if (enPassantIndex >= 0) {
-      this.squares[enPassantIndex] = enPassantCaptured;
+  private getCheckInfo(color: Color): CheckInfo {
+    let checkInfo = this.checkInfoCache.get(color);
+    if (!checkInfo) {
+      checkInfo = this.bitboards.checkInfo(color, this.kingPositions.get(color)!);
+      this.checkInfoCache.set(color, checkInfo);
     }
-
-    return !isInCheck;
+    return checkInfo;
   }
 
-  private hasInsufficientMaterial(): boolean {
-    const whitePieces = this.piecePositions.get(Color.White)!;
-    const blackPieces = this.piecePositions.get(Color.Black)!;
-
-    // If more than two piece types available, king has more than one supporting piece so sufficient material is present
-    const supportingWhitePieces = [...whitePieces].filter(([pieceType, indices]) => indices.size > 0 && pieceType != PieceType.King)
-    if (supportingWhitePieces.length > 1) {
-      return false;
-    }
-
-    const supportingBlackPieces = [...blackPieces].filter(([pieceType, indices]) => indices.size > 0 && pieceType != PieceType.King);
-    if (supportingBlackPieces.length > 1) {
-      return false;
-    }
-
-    const onlyWhiteKing = supportingWhitePieces.length == 0;
-    const onlyBlackKing = supportingBlackPieces.length == 0;
-
-    // King vs king is an insufficient material scenario
-    if (onlyWhiteKing && onlyBlackKing) {
-      return true;
-    }
-
-    // Only one side has an unsupported king, need to check K+B vs K, K+N vs K, 
-    if (onlyWhiteKing || onlyBlackKing) {
-        const checkPieces = onlyWhiteKing ? supportingBlackPieces : supportingWhitePieces;
-        
-        // Only one piece type should be available, check whether it is a bishop or king
-        if (checkPieces[0][0] === PieceType.Bishop || PieceType.Knight){
-          return true;
-        }
-    }
-    
-    // If both sides have one bishop that occupy the same square type, there is insufficient material
-    if (supportingWhitePieces[0][0] === PieceType.Bishop && supportingBlackPieces[0][0] === PieceType.Bishop) {
-      const whiteBishopSquare = SquareUtils.fromIndex(supportingWhitePieces[0][1].values().next().value!)
-      const blackBishopSquare = SquareUtils.fromIndex(supportingBlackPieces[0][1].values().next().value!)
+  private static createUndoFrame(): UndoFrame {
+    return {
+      move: null,
+      piece: null,
+      capturedPiece: null,
+      capturedIndex: -1,
+      castlingSide: null,
+      castlingRights: { whiteKingside: false, whiteQueenside: false, blackKingside: false, blackQueenside: false },
+      enPassantSquare: null,
+      halfMoveClock: 0,
+      fullMoveNumber: 1,
+      validMovesCache: new Map(),
+      checkInfoCache: new Map(),
+      isCacheDirty: true
+    };
+  }
 
-      if (this.getSquareType(whiteBishopSquare) === this.getSquareType(blackBishopSquare)) {
-        return true;
-      }
-    }
-    return false;
+  private static createPromotedPieces(color: Color): Partial<Record<PieceType, Piece>> {
+    return Object.fromEntries(MoveGenerator.PROMOTION_PIECES.map(type => [type, { type, color }]));
   }
 
   private createPieceTypeMap(): Map<PieceType, Set<number>> {
@@ -491,9 +1067,14 @@ export class Board implements BoardStateReader {
   }
 
   private placePiece(square: Square, piece: Piece): void {
-    const index = SquareUtils.toIndex(square);
+    this.placePieceAt(SquareUtils.toIndex(square), piece);
+  }
+
+  private placePieceAt(index: number, piece: Piece): void {
     this.squares[index] = piece;
     this.piecePositions.get(piece.color)!.get(piece.type)!.add(index);
+    this.bitboards.place(index, piece);
+    this.positionKey ^= Zobrist.pieceKey(piece, index);
 
     if (piece.type === PieceType.King) {
       this.kingPositions.set(piece.color, index);
@@ -501,30 +1082,23 @@ export class Board implements BoardStateReader {
     this.invalidateCache();
   }
 
-  private removePiece(square: Square): Piece | null {
-    const index = SquareUtils.toIndex(square);
+  private removePieceAt(index: number): Piece | null {
     const piece = this.squares[index];
 
     if (piece) {
       this.squares[index] = null;
       this.piecePositions.get(piece.color)!.get(piece.type)!.delete(index);
+      this.bitboards.remove(index, piece);
+      this.positionKey ^= Zobrist.pieceKey(piece, index);
       this.invalidateCache();
     }
     return piece;
   }
 
-  private movePieceInternal(from: Square, to: Square): void {
-    const piece = this.removePiece(from);
-    if (piece) this.placePiece(to, piece);
-  }
-
-  private getSquareType(square: Square) : SquareType {
-    return (square.charCodeAt(0) + SquareUtils.getRank(square) + 1) % 2 == 0 ? SquareType.Light : SquareType.Dark
-  }
-
   private invalidateCache(): void {
     this.isCacheDirty = true;
     this.validMovesCache.clear();
+    this.checkInfoCache.clear();
   }
 
   private clearBoard(): void {
@@ -534,7 +1108,10 @@ export class Board implements BoardStateReader {
       [Color.Black, this.createPieceTypeMap()]
     ]);
     this.kingPositions = new Map();
+    this.bitboards = new BitboardPosition();
+    this.positionKey = 0n;
     this.validMovesCache.clear();
+    this.checkInfoCache.clear();
     this.isCacheDirty = true;
   }
 }
\ No newline at end of file
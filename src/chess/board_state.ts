@@ -1,4 +1,4 @@
-import type { Square, Piece, CastlingRights, File } from './types';
+import type { Square, Piece, CastlingRights, CastlingRookFiles, File, Move } from './types';
 import { Color, PieceType } from './types';
 
 /**
@@ -12,8 +12,12 @@ export interface BoardStateReader {
   getAllSquarePieces(): (Piece | null)[];
   getEnPassantSquare(): Square | null;
   getCastlingRights(): CastlingRights;
+  getCastlingRookFiles(): CastlingRookFiles;
+  isChess960(): boolean;
   getKingPosition(color: Color): number;
+  isSquareAttacked(index: number, byColor: Color): boolean;
   findPieces(type: PieceType, color: Color): Square[];
   getAllSquaresForColor(color: Color): Square[];
   getSquaresOnFile(file: File, color: Color): Square[];
+  getValidMovesForSquare(square: Square): Move[];
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import type { Move } from './types';
+import type { Move, CastlingRights, CastlingRookFiles, CastlingSide, CastlingObstacle } from './types';
 import { Color, PieceType } from './types';
 import { SquareUtils } from './square_utils';
 import type { BoardStateReader } from './board_state';
@@ -6,108 +6,183 @@ import { AttackDetector } from './attack_detector';
 
 /**
  * Handles castling validation and move generation.
+ *
+ * Castling always ends with the king on the g- or c-file and the rook on the
+ * f- or d-file, wherever they started. In standard chess a castling move is
+ * encoded as the king moving two squares; in Chess960 it is encoded as the
+ * king capturing its own rook, since the king may move one square or none.
  */
 export class CastlingHandler {
+  static readonly STANDARD_ROOK_FILES: Readonly<CastlingRookFiles> = {
+    whiteKingside: 7,
+    whiteQueenside: 0,
+    blackKingside: 7,
+    blackQueenside: 0
+  };
 
-  public static canCastleKingside(boardState: BoardStateReader): boolean {
-    const color = boardState.getActiveColor();
-    const rights = boardState.getCastlingRights();
-    const canKingside = color === Color.White ?
-      rights.whiteKingside : rights.blackKingside;
-
-    if (!canKingside) return false;
+  private static readonly KING_TARGET_FILES: Record<CastlingSide, number> = { kingside: 6, queenside: 2 };
+  private static readonly ROOK_TARGET_FILES: Record<CastlingSide, number> = { kingside: 5, queenside: 3 };
 
-    return CastlingHandler.validateCastlingPath(boardState, color, true);
+  public static canCastleKingside(boardState: BoardStateReader): boolean {
+    return CastlingHandler.canCastle(boardState, boardState.getActiveColor(), 'kingside');
   }
 
   public static canCastleQueenside(boardState: BoardStateReader): boolean {
-    const color = boardState.getActiveColor();
-    const rights = boardState.getCastlingRights();
-    const canQueenside = color === Color.White ?
-      rights.whiteQueenside : rights.blackQueenside;
-
-    if (!canQueenside) return false;
-
-    return CastlingHandler.validateCastlingPath(boardState, color, false);
+    return CastlingHandler.canCastle(boardState, boardState.getActiveColor(), 'queenside');
   }
 
   public static getCastlingMoves(boardState: BoardStateReader, color: Color): Move[] {
     const moves: Move[] = [];
-    const rank = color === Color.White ? 0 : 7;
-    const kingIndex = SquareUtils.fileRankToIndex(4, rank);
-    const opponentColor = color === Color.White ? Color.Black : Color.White;
+    const rank = CastlingHandler.backRank(color);
+    const startSquare = SquareUtils.fromIndex(boardState.getKingPosition(color));
 
-    if (AttackDetector.isSquareAttacked(boardState.getAllSquarePieces(), kingIndex, opponentColor)) {
-      return moves;
-    }
+    for (const side of ['kingside', 'queenside'] as CastlingSide[]) {
+      if (!CastlingHandler.canCastle(boardState, color, side)) continue;
 
-    if (CastlingHandler.canCastleKingsideForColor(boardState, color)) {
-      moves.push({
-        piece: PieceType.King,
-        color,
-        startSquare: SquareUtils.fromIndex(kingIndex),
-        endSquare: SquareUtils.fromIndex(SquareUtils.fileRankToIndex(6, rank))
-      });
-    }
+      const endFile = boardState.isChess960() ?
+        boardState.getCastlingRookFiles()[CastlingHandler.rightFor(color, side)] :
+        CastlingHandler.KING_TARGET_FILES[side];
 
-    if (CastlingHandler.canCastleQueensideForColor(boardState, color)) {
       moves.push({
         piece: PieceType.King,
         color,
-        startSquare: SquareUtils.fromIndex(kingIndex),
-        endSquare: SquareUtils.fromIndex(SquareUtils.fileRankToIndex(2, rank))
+        startSquare,
+        endSquare: SquareUtils.fromIndex(SquareUtils.fileRankToIndex(endFile, rank))
       });
     }
 
     return moves;
   }
 
-  private static canCastleKingsideForColor(boardState: BoardStateReader, color: Color): boolean {
-    const rights = boardState.getCastlingRights();
-    const canKingside = color === Color.White ?
-      rights.whiteKingside : rights.blackKingside;
+  /**
+   * The side a king move castles to, or null if it is not a castling move.
+   * Rights default to the current ones; pass the rights from before the move
+   * to recognise a castling move that has already been played.
+   */
+  public static getCastlingSide(
+    boardState: BoardStateReader,
+    move: Move,
+    rights: CastlingRights = boardState.getCastlingRights()
+  ): CastlingSide | null {
+    if (move.piece !== PieceType.King) return null;
+
+    const rank = CastlingHandler.backRank(move.color);
+    if (SquareUtils.getRank(move.startSquare) !== rank || SquareUtils.getRank(move.endSquare) !== rank) {
+      return null;
+    }
 
-    if (!canKingside) return false;
-    return CastlingHandler.validateCastlingPath(boardState, color, true);
+    if (boardState.isChess960()) {
+      const rookFiles = boardState.getCastlingRookFiles();
+      const endFile = SquareUtils.getFile(move.endSquare);
+      for (const side of ['kingside', 'queenside'] as CastlingSide[]) {
+        const right = CastlingHandler.rightFor(move.color, side);
+        if (rights[right] && rookFiles[right] === endFile) return side;
+      }
+      return null;
+    }
+
+    const fileDiff = SquareUtils.getFile(move.endSquare) - SquareUtils.getFile(move.startSquare);
+    if (Math.abs(fileDiff) !== 2) return null;
+    return fileDiff > 0 ? 'kingside' : 'queenside';
+  }
+
+  /**
+   * The king and rook moves a castling move actually makes on the board.
+   */
+  public static expandCastlingMove(boardState: BoardStateReader, move: Move, side: CastlingSide): [Move, Move] {
+    const rank = CastlingHandler.backRank(move.color);
+    const rookFile = boardState.getCastlingRookFiles()[CastlingHandler.rightFor(move.color, side)];
+    const toSquare = (file: number) => SquareUtils.fromIndex(SquareUtils.fileRankToIndex(file, rank));
+
+    return [
+      { ...move, endSquare: toSquare(CastlingHandler.KING_TARGET_FILES[side]) },
+      {
+        piece: PieceType.Rook,
+        color: move.color,
+        startSquare: toSquare(rookFile),
+        endSquare: toSquare(CastlingHandler.ROOK_TARGET_FILES[side])
+      }
+    ];
   }
 
-  private static canCastleQueensideForColor(boardState: BoardStateReader, color: Color): boolean {
-    const rights = boardState.getCastlingRights();
-    const canQueenside = color === Color.White ?
-      rights.whiteQueenside : rights.blackQueenside;
+  /**
+   * Square indices the king and rook end on after castling to a side.
+   */
+  public static kingTargetIndex(color: Color, side: CastlingSide): number {
+    return SquareUtils.fileRankToIndex(CastlingHandler.KING_TARGET_FILES[side], CastlingHandler.backRank(color));
+  }
 
-    if (!canQueenside) return false;
-    return CastlingHandler.validateCastlingPath(boardState, color, false);
+  public static rookTargetIndex(color: Color, side: CastlingSide): number {
+    return SquareUtils.fileRankToIndex(CastlingHandler.ROOK_TARGET_FILES[side], CastlingHandler.backRank(color));
+  }
+
+  public static rightFor(color: Color, side: CastlingSide): keyof CastlingRights {
+    if (color === Color.White) {
+      return side === 'kingside' ? 'whiteKingside' : 'whiteQueenside';
+    }
+    return side === 'kingside' ? 'blackKingside' : 'blackQueenside';
   }
 
-  private static validateCastlingPath(boardState: BoardStateReader, color: Color, kingside: boolean): boolean {
-    const rank = color === Color.White ? 0 : 7;
+  /**
+   * Why the given side cannot castle, or null if it can. Checked in order:
+   * the castling right and rook, pieces in the way, the king in check, and
+   * the king passing through or landing on an attacked square.
+   */
+  public static getCastlingObstacle(
+    boardState: BoardStateReader,
+    color: Color,
+    side: CastlingSide
+  ): CastlingObstacle | null {
+    const right = CastlingHandler.rightFor(color, side);
+    if (!boardState.getCastlingRights()[right]) return 'no_right';
+
+    const rank = CastlingHandler.backRank(color);
     const opponentColor = color === Color.White ? Color.Black : Color.White;
-    const kingIndex = SquareUtils.fileRankToIndex(4, rank);
     const pieceSquares = boardState.getAllSquarePieces();
 
-    if (AttackDetector.isSquareAttacked(pieceSquares, kingIndex, opponentColor)) {
-      return false;
+    const kingIndex = boardState.getKingPosition(color);
+    const kingFile = kingIndex % 8;
+    const rookFile = boardState.getCastlingRookFiles()[right];
+    const rookIndex = SquareUtils.fileRankToIndex(rookFile, rank);
+    const kingTargetFile = CastlingHandler.KING_TARGET_FILES[side];
+    const rookTargetFile = CastlingHandler.ROOK_TARGET_FILES[side];
+
+    const rook = pieceSquares[rookIndex];
+    if (rook?.type !== PieceType.Rook || rook.color !== color) return 'no_right';
+
+    const lowFile = Math.min(kingFile, rookFile, kingTargetFile, rookTargetFile);
+    const highFile = Math.max(kingFile, rookFile, kingTargetFile, rookTargetFile);
+    for (let file = lowFile; file <= highFile; file++) {
+      const index = SquareUtils.fileRankToIndex(file, rank);
+      if (index !== kingIndex && index !== rookIndex && pieceSquares[index] !== null) {
+        return 'blocked';
+      }
     }
 
-    if (kingside) {
-      const f = SquareUtils.fileRankToIndex(5, rank);
-      const g = SquareUtils.fileRankToIndex(6, rank);
-
-      return boardState.getPieceAtIndex(f) === null &&
-        boardState.getPieceAtIndex(g) === null &&
-        !AttackDetector.isSquareAttacked(pieceSquares, f, opponentColor) &&
-        !AttackDetector.isSquareAttacked(pieceSquares, g, opponentColor);
-    } else {
-      const b = SquareUtils.fileRankToIndex(1, rank);
-      const c = SquareUtils.fileRankToIndex(2, rank);
-      const d = SquareUtils.fileRankToIndex(3, rank);
-
-      return boardState.getPieceAtIndex(b) === null &&
-        boardState.getPieceAtIndex(c) === null &&
-        boardState.getPieceAtIndex(d) === null &&
-        !AttackDetector.isSquareAttacked(pieceSquares, c, opponentColor) &&
-        !AttackDetector.isSquareAttacked(pieceSquares, d, opponentColor);
+    const step = Math.sign(kingTargetFile - kingFile);
+    for (let file = kingFile; ; file += step) {
+      if (boardState.isSquareAttacked(SquareUtils.fileRankToIndex(file, rank), opponentColor)) {
+        return file === kingFile ? 'in_check' : 'attacked';
+      }
+      if (file === kingTargetFile) break;
     }
+
+    // The rook may have been shielding the king's target square
+    const kingTargetIndex = SquareUtils.fileRankToIndex(kingTargetFile, rank);
+    const after = [...pieceSquares];
+    after[kingIndex] = null;
+    after[rookIndex] = null;
+    after[kingTargetIndex] = pieceSquares[kingIndex];
+    after[SquareUtils.fileRankToIndex(rookTargetFile, rank)] = rook;
+
+    return AttackDetector.isSquareAttacked(after, kingTargetIndex, opponentColor) ? 'attacked' : null;
+  }
+
+  private static canCastle(boardState: BoardStateReader, color: Color, side: CastlingSide): boolean {
+    return CastlingHandler.getCastlingObstacle(boardState, color, side) === null;
+  }
+
+  private static backRank(color: Color): number {
+    return color === Color.White ? 0 : 7;
   }
-}
\ No newline at end of file
+}
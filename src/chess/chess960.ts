@@ -0,0 +1,83 @@
+import { PieceType } from './types';
+
+/**
+ * Chess960 (Fischer Random) starting positions, numbered 0-959 using
+ * Scharnagl's scheme. Position 518 is the standard starting position.
+ */
+export class Chess960 {
+  static readonly POSITION_COUNT = 960;
+  static readonly STANDARD_POSITION = 518;
+
+  // Knight placements among the five squares left after bishops and queen
+  private static readonly KNIGHT_PLACEMENTS: [number, number][] = [
+    [0, 1], [0, 2], [0, 3], [0, 4], [1, 2],
+    [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]
+  ];
+
+  private static readonly PIECE_CHARS: Record<PieceType, string> = {
+    [PieceType.King]: 'k',
+    [PieceType.Queen]: 'q',
+    [PieceType.Rook]: 'r',
+    [PieceType.Bishop]: 'b',
+    [PieceType.Knight]: 'n',
+    [PieceType.Pawn]: 'p'
+  };
+
+  /**
+   * Back rank pieces from the a-file to the h-file for a position number.
+   * @throws RangeError if the number is not an integer from 0 to 959
+   */
+  static backRank(positionNumber: number): PieceType[] {
+    if (!Number.isInteger(positionNumber) || positionNumber < 0 || positionNumber >= this.POSITION_COUNT) {
+      throw new RangeError(`Chess960 position number must be an integer from 0 to 959, got ${positionNumber}`);
+    }
+
+    const rank: (PieceType | null)[] = new Array(8).fill(null);
+    let n = positionNumber;
+
+    // Light-squared bishop on b/d/f/h, dark-squared bishop on a/c/e/g
+    rank[(n % 4) * 2 + 1] = PieceType.Bishop;
+    n = Math.floor(n / 4);
+    rank[(n % 4) * 2] = PieceType.Bishop;
+    n = Math.floor(n / 4);
+
+    this.placeOnEmpty(rank, n % 6, PieceType.Queen);
+    n = Math.floor(n / 6);
+
+    // Place the second knight first so the first knight's index is unaffected
+    const [first, second] = this.KNIGHT_PLACEMENTS[n];
+    this.placeOnEmpty(rank, second, PieceType.Knight);
+    this.placeOnEmpty(rank, first, PieceType.Knight);
+
+    // The king always sits between the rooks on the three squares left
+    this.placeOnEmpty(rank, 0, PieceType.Rook);
+    this.placeOnEmpty(rank, 0, PieceType.King);
+    this.placeOnEmpty(rank, 0, PieceType.Rook);
+
+    return rank as PieceType[];
+  }
+
+  /**
+   * Starting FEN for a position number, with X-FEN castling rights.
+   */
+  static startingFEN(positionNumber: number): string {
+    const black = this.backRank(positionNumber).map(type => this.PIECE_CHARS[type]).join('');
+    return `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()} w KQkq - 0 1`;
+  }
+
+  static randomPositionNumber(random: () => number = Math.random): number {
+    return Math.floor(random() * this.POSITION_COUNT);
+  }
+
+  private static placeOnEmpty(rank: (PieceType | null)[], emptyIndex: number, piece: PieceType): void {
+    let seen = 0;
+    for (let file = 0; file < rank.length; file++) {
+      if (rank[file] !== null) continue;
+      if (seen === emptyIndex) {
+        rank[file] = piece;
+        return;
+      }
+      seen++;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { Move } from '../types';
+import type { BoardStateReader } from '../board_state';
+import { CommandParser } from './command_parser';
+import { CommandValidator } from './command_validator';
+import { type Command, Action } from './types';
+
+/**
+ * One reading of a spoken command.
+ */
+export interface Interpretation {
+  command: Command;
+  // The input with each misheard word replaced, e.g. "knight takes e5" for "knight ate e5"
+  text: string;
+  // How far the readings chosen for words with several are from what was heard
+  cost: number;
+  // Legal moves the command matches in the current position
+  matchingMoves: Move[];
+}
+
+/**
+ * Reads a spoken command in the light of the position. Words with more
+ * than one likely reading ("ate" may be "takes" or "eight", "too" may be
+ * "to" or "two") are tried every way, and a reading that gives exactly one
+ * legal move wins over one that is ambiguous or illegal.
+ */
+export class CommandInterpreter {
+  // Readings closer than this to a word's best reading are tried as well
+  private static readonly READING_MARGIN = 0.1;
+  private static readonly MAX_READINGS_PER_WORD = 3;
+  private static readonly MAX_VARIANTS = 16;
+
+  private readonly validator: CommandValidator;
+
+  constructor(boardState: BoardStateReader) {
+    this.validator = new CommandValidator(boardState);
+  }
+
+  /**
+   * The most likely command for the input.
+   * @throws CommandParseError when no reading of the input can be parsed
+   */
+  public interpret(input: string): Command {
+    const [best] = this.getInterpretations(input);
+    return best?.command ?? CommandParser.parseCommand(input);
+  }
+
+  /**
+   * Every reading of the input that parses, most likely first: readings
+   * with exactly one legal move, then ambiguous ones, then the rest, each
+   * group ordered by cost.
+   */
+  public getInterpretations(input: string): Interpretation[] {
+    const interpretations: Interpretation[] = [];
+    const seen = new Set<string>();
+
+    for (const { text, cost } of this.variants(input)) {
+      let command: Command;
+      try {
+        command = CommandParser.parseCommand(text);
+      } catch {
+        continue;
+      }
+
+      const key = JSON.stringify(command);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      interpretations.push({ command, text, cost, matchingMoves: this.validator.findMatchingMoves(command) });
+    }
+
+    return interpretations
+      .map((interpretation, order) => ({ interpretation, order }))
+      .sort((a, b) =>
+        this.rank(a.interpretation) - this.rank(b.interpretation) ||
+        a.interpretation.cost - b.interpretation.cost ||
+        a.order - b.order
+      )
+      .map(({ interpretation }) => interpretation);
+  }
+
+  /**
+   * 0 for a command that can be played as it stands, 1 for an ambiguous
+   * move and 2 for a move that matches nothing.
+   */
+  private rank(interpretation: Interpretation): number {
+    const { command, matchingMoves } = interpretation;
+    const isMove = command.action === Action.Move || command.action === Action.Capture ||
+      command.action === Action.Promote || command.action === Action.ShortCastle ||
+      command.action === Action.LongCastle;
+
+    if (!isMove || matchingMoves.length === 1) return 0;
+    return matchingMoves.length > 1 ? 1 : 2;
+  }
+
+  /**
+   * The input with every combination of readings for the words that have
+   * several close ones. Other words are left for the parser to correct.
+   */
+  private variants(input: string): { text: string; cost: number }[] {
+    const words = input.toLowerCase().trim().split(/\s+/).filter(w => w.length > 0);
+    let variants = [{ words: [] as string[], cost: 0 }];
+
+    for (const word of words) {
+      const readings = this.readings(word);
+      const next = [];
+      for (const variant of variants) {
+        for (const reading of readings) {
+          next.push({ words: [...variant.words, reading.word], cost: variant.cost + reading.cost });
+        }
+      }
+      variants = next.slice(0, CommandInterpreter.MAX_VARIANTS);
+    }
+
+    return variants.map(({ words, cost }) => ({ text: words.join(' '), cost }));
+  }
+
+  private readings(word: string): { word: string; cost: number }[] {
+    const suggestions = CommandParser.suggest(word);
+    if (suggestions.length < 2) return [{ word, cost: 0 }];
+
+    const [best] = suggestions;
+    return suggestions
+      .filter(match => best.score - match.score <= CommandInterpreter.READING_MARGIN)
+      .slice(0, CommandInterpreter.MAX_READINGS_PER_WORD)
+      .map(match => ({ word: match.word, cost: 1 - match.score }));
+  }
+}
@@ -0,0 +1,105 @@
+import type { Action, Token } from './types';
+
+export enum CommandParseErrorCode {
+  EmptyInput = 'empty_input',
+  NoTokens = 'no_tokens',
+  UnknownWords = 'unknown_words',
+  MissingDestination = 'missing_destination',
+  ConflictingActions = 'conflicting_actions'
+}
+
+/**
+ * The input a parse error refers to: the text as heard, the text after
+ * normalization, and the tokens recognized in it.
+ */
+export interface CommandParseContext {
+  input: string;
+  normalized: string;
+  tokens: Token[];
+}
+
+/**
+ * A word the parser did not recognize.
+ */
+export interface UnknownWord {
+  word: string;
+  // Index of the word in the normalized input
+  index: number;
+  // Character offset in the original input, or -1 if normalization changed the word
+  position: number;
+}
+
+/**
+ * Base class for everything CommandParser.parseCommand throws. The code
+ * says what went wrong; the context lets the UI or speech output point at
+ * the words involved.
+ */
+export class CommandParseError extends Error {
+  readonly code: CommandParseErrorCode;
+  readonly input: string;
+  readonly normalized: string;
+  readonly tokens: Token[];
+
+  constructor(message: string, code: CommandParseErrorCode, context: CommandParseContext) {
+    super(message);
+    this.name = 'CommandParseError';
+    this.code = code;
+    this.input = context.input;
+    this.normalized = context.normalized;
+    this.tokens = context.tokens;
+  }
+}
+
+/**
+ * Nothing was said, or only whitespace.
+ */
+export class EmptyCommandError extends CommandParseError {
+  constructor(input: string) {
+    super('Input command is empty.', CommandParseErrorCode.EmptyInput, { input, normalized: '', tokens: [] });
+    this.name = 'EmptyCommandError';
+  }
+}
+
+/**
+ * Every word was filler, so there is nothing to act on.
+ */
+export class NoTokensError extends CommandParseError {
+  constructor(context: CommandParseContext) {
+    super(`No pieces, squares or actions found in "${context.input}".`, CommandParseErrorCode.NoTokens, context);
+    this.name = 'NoTokensError';
+  }
+}
+
+export class UnknownWordError extends CommandParseError {
+  readonly unknownWords: UnknownWord[];
+
+  constructor(context: CommandParseContext, unknownWords: UnknownWord[]) {
+    const words = unknownWords.map(({ word }) => `"${word}"`).join(', ');
+    super(`Did not understand ${words} in "${context.input}".`, CommandParseErrorCode.UnknownWords, context);
+    this.name = 'UnknownWordError';
+    this.unknownWords = unknownWords;
+  }
+}
+
+/**
+ * A move was asked for without saying where to, as in "knight to".
+ */
+export class MissingDestinationError extends CommandParseError {
+  constructor(context: CommandParseContext) {
+    super(`No destination given in "${context.input}".`, CommandParseErrorCode.MissingDestination, context);
+    this.name = 'MissingDestinationError';
+  }
+}
+
+/**
+ * The command asks for different things at once, as in "knight moves takes e5".
+ */
+export class ConflictingActionsError extends CommandParseError {
+  readonly actions: Action[];
+
+  constructor(context: CommandParseContext, actions: Action[]) {
+    super(`Conflicting actions ${actions.join(' and ')} in "${context.input}".`, CommandParseErrorCode.ConflictingActions, context);
+    this.name = 'ConflictingActionsError';
+    this.actions = actions;
+  }
+}
@@ -12,16 +12,24 @@ import {
   type Square,
   PieceType
 } from '../types';
+import { MoveGenerator } from '../move_generator';
+
+import {
+  type UnknownWord,
+  ConflictingActionsError,
+  EmptyCommandError,
+  MissingDestinationError,
+  NoTokensError,
+  UnknownWordError,
+} from './command_parse_error';
+import { FuzzyMatcher, type FuzzyMatch } from './fuzzy_matcher';
 
 export class CommandParser {
   // ============================================
-  // Private Constants
+  // Public Vocabulary
   // ============================================
 
-  private static readonly FILES: readonly File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
-  private static readonly RANKS: readonly Rank[] = ['1', '2', '3', '4', '5', '6', '7', '8'];
-
-  private static readonly PIECE_NAMES: Record<string, PieceType> = {
+  public static readonly PIECE_NAMES: Readonly<Record<string, PieceType>> = {
     king: PieceType.King,
     queen: PieceType.Queen,
     rook: PieceType.Rook,
@@ -31,8 +39,39 @@ export class CommandParser {
     pawn: PieceType.Pawn,
   };
 
+  // "rook to the seventh"
+  public static readonly ORDINAL_WORDS: Readonly<Record<string, Rank>> = {
+    first: '1',
+    second: '2',
+    third: '3',
+    fourth: '4',
+    fifth: '5',
+    sixth: '6',
+    seventh: '7',
+    eighth: '8',
+  };
+
+  // ============================================
+  // Private Constants
+  // ============================================
+
+  private static readonly FILES: readonly File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  private static readonly RANKS: readonly Rank[] = ['1', '2', '3', '4', '5', '6', '7', '8'];
+
   private static readonly CAPTURE_KEYWORDS = new Set(['takes', 'captures', 'capture', 'x']);
   private static readonly MOVE_KEYWORDS = new Set(['to', 'moves', 'move']);
+  private static readonly PROMOTE_KEYWORDS = new Set(['promote', 'promotes', 'promoting', 'promotion', 'promoted', 'equals']);
+  // Words that carry no meaning for the move ("my knight on b1 to c3 please")
+  private static readonly FILLER_WORDS = new Set([
+    'the', 'my', 'i', 'on', 'from', 'with', 'and', 'then', 'now', 'please', 'square', 'piece', 'go', 'goes', 'um', 'uh',
+    'rank',
+  ]);
+
+  // "undo", "undo that", "take back", "takeback", "take that back"
+  private static readonly UNDO_PATTERN = /^(undo|take ?back|take (that|it) back)\b/;
+  private static readonly REDO_PATTERN = /^redo\b/;
+  // "claim draw", "i claim a draw"
+  private static readonly CLAIM_DRAW_PATTERN = /^(i )?claim (a )?draw$/;
 
   private static readonly NUMBER_WORDS: Record<string, Rank> = {
     one: '1',
@@ -45,6 +84,45 @@ export class CommandParser {
     eight: '8',
   };
 
+  // NATO phonetic alphabet for the file letters
+  private static readonly LETTER_WORDS: Record<string, File> = {
+    alpha: 'a',
+    alfa: 'a',
+    bravo: 'b',
+    charlie: 'c',
+    delta: 'd',
+    echo: 'e',
+    foxtrot: 'f',
+    golf: 'g',
+    hotel: 'h',
+  };
+
+  // Words that sound like a file letter; only read as one right before a rank ("see four")
+  private static readonly LETTER_HOMOPHONES: Record<string, File> = {
+    bee: 'b',
+    be: 'b',
+    see: 'c',
+    sea: 'c',
+    cee: 'c',
+    dee: 'd',
+    eff: 'f',
+    gee: 'g',
+    aitch: 'h',
+    haitch: 'h',
+  };
+
+  // Words a misheard word can be corrected to
+  private static readonly VOCABULARY: readonly string[] = [
+    ...Object.keys(CommandParser.PIECE_NAMES),
+    ...CommandParser.CAPTURE_KEYWORDS,
+    ...CommandParser.MOVE_KEYWORDS,
+    ...CommandParser.PROMOTE_KEYWORDS,
+    ...Object.keys(CommandParser.NUMBER_WORDS),
+    ...Object.keys(CommandParser.ORDINAL_WORDS),
+    ...Object.keys(CommandParser.LETTER_WORDS),
+    ...Object.keys(CommandParser.LETTER_HOMOPHONES),
+  ];
+
   // ============================================
   // Public API
   // ============================================
@@ -53,13 +131,21 @@ export class CommandParser {
    * Parse a voice command string into a Command structure
    * @param input - The voice command string to parse
    * @returns Parsed Command object
+   * @throws CommandParseError subclass naming what could not be understood
    */
   public static parseCommand(input: string): Command {
     const normalized = this.preprocess(input);
 
     if (!normalized) {
-      //TODO: Define custom error type
-      throw new Error('Input command is empty or invalid.');
+      throw new EmptyCommandError(input);
+    }
+
+    if (this.UNDO_PATTERN.test(normalized)) {
+      return { action: Action.Undo };
+    }
+
+    if (this.REDO_PATTERN.test(normalized)) {
+      return { action: Action.Redo };
     }
 
     if (this.isCastleCommand(normalized)) {
@@ -70,25 +156,68 @@ export class CommandParser {
       return { action: Action.Resign };
     }
 
-    //TODO: Support custom promotion types, for now resorts to queen promotion only
-    if (normalized === 'promote' || normalized === 'pawn promote' || normalized === 'promote pawn') {
-      return { action: Action.Promote };
+    if (this.CLAIM_DRAW_PATTERN.test(normalized)) {
+      return { action: Action.ClaimDraw };
     }
 
-    const tokens = this.tokenize(normalized);
+    const corrected = this.correctWords(normalized);
+    const { tokens, unknownWords } = this.tokenize(input, corrected);
+    const context = { input, normalized: corrected, tokens };
+
+    if (unknownWords.length > 0) {
+      throw new UnknownWordError(context, unknownWords);
+    }
 
     if (tokens.length === 0) {
-      //TODO: Define custom error type
-      throw new Error('No valid tokens found in input command.');
+      throw new NoTokensError(context);
     }
 
-    const actionIndex = tokens.findIndex((t) => t.type === 'action');
+    const { moveTokens, promotion, hasPromoteKeyword } = this.extractPromotion(this.dropLeadingMove(tokens));
+
+    // "promote" / "pawn promote to knight" - no destination, let the validator find the promoting pawn
+    if (hasPromoteKeyword && !moveTokens.some((t) => t.type === 'square')) {
+      return this.withPromotion(
+        { startInfo: this.tokensToCommandInfo(moveTokens), action: Action.Promote },
+        promotion
+      );
+    }
+
+    const actions = new Set(moveTokens.flatMap((t) => (t.type === 'action' ? [t.value] : [])));
+    if (actions.size > 1) {
+      throw new ConflictingActionsError(context, [...actions]);
+    }
+
+    const actionIndex = moveTokens.findIndex((t) => t.type === 'action');
 
     if (actionIndex !== -1) {
-      return this.parseWithAction(tokens, actionIndex);
+      const command = this.parseWithAction(moveTokens, actionIndex);
+      // "knight takes" may capture anything, but "knight to" goes nowhere
+      if (command.action === Action.Move && !command.endInfo) {
+        throw new MissingDestinationError(context);
+      }
+      return this.withPromotion(command, promotion);
     }
 
-    return this.parseImplicitMove(tokens);
+    return this.withPromotion(this.parseImplicitMove(moveTokens), promotion);
+  }
+
+  /**
+   * The words of the input as the parser reads them: spelled-out letters,
+   * numbers and ordinals become files and ranks, files are joined to their
+   * ranks and misheard words are corrected, so "bravo one" becomes ["b1"].
+   * Words in keep are the caller's own vocabulary and are not corrected.
+   */
+  public static normalizeWords(input: string, keep: ReadonlySet<string> = new Set()): string[] {
+    return this.correctWords(this.preprocess(input), keep).split(/\s+/).filter((w) => w.length > 0);
+  }
+
+  /**
+   * Close matches for a word the parser does not understand, best first.
+   * Words it already understands have no suggestions.
+   */
+  public static suggest(word: string): FuzzyMatch[] {
+    if (this.FILLER_WORDS.has(word) || this.parseWord(word) !== null) return [];
+    return FuzzyMatcher.match(word, this.VOCABULARY);
   }
 
   // ============================================
@@ -114,23 +243,37 @@ export class CommandParser {
   /**
    * Normalize input string for consistent parsing
    * 
-   * Performs two key transformations:
-   * 1. Converts spoken number words to digits (e.g., "three" → "3")
-   * 2. Combines separated file-rank patterns into squares (e.g., "f 3" → "f3")
+   * Performs three key transformations:
+   * 1. Converts spelled-out letters to files (e.g., "bravo" → "b", "dee" → "d")
+   * 2. Converts spoken number and ordinal words to digits (e.g., "three" → "3", "seventh" → "7")
+   * 3. Combines separated file-rank patterns into squares (e.g., "f 3" → "f3")
    * 
-   * The second step is crucial for handling voice input where the file letter
+   * The last step is crucial for handling voice input where the file letter
    * and rank number are recognized as separate words.
    */
   private static preprocess(input: string): string {
     let result = input.toLowerCase().trim();
 
-    // Step 1: Replace spoken numbers with digits
-    // "knight f three" → "knight f 3"
-    for (const [word, digit] of Object.entries(this.NUMBER_WORDS)) {
+    // Step 1: Replace phonetic alphabet words with files
+    // "bravo four" → "b four", "delta to echo five" → "d to e five"
+    for (const [word, file] of Object.entries(this.LETTER_WORDS)) {
+      result = result.replace(new RegExp(`\\b${word}\\b`, 'g'), file);
+    }
+
+    // Step 2: Replace spoken numbers and ordinals with digits
+    // "knight f three" → "knight f 3", "rook to the seventh" → "rook to the 7"
+    for (const [word, digit] of [...Object.entries(this.NUMBER_WORDS), ...Object.entries(this.ORDINAL_WORDS)]) {
       result = result.replace(new RegExp(`\\b${word}\\b`, 'g'), digit);
     }
+    result = result.replace(/\b([1-8])(st|nd|rd|th)\b/g, '$1');
 
-    // Step 2: Combine separated file-rank patterns into squares
+    // Step 3: Replace letter homophones with files where a rank follows
+    // "bishop to be 5" → "bishop to b 5", but "i see" is left alone
+    for (const [word, file] of Object.entries(this.LETTER_HOMOPHONES)) {
+      result = result.replace(new RegExp(`\\b${word}\\s+(?=[1-8]\\b)`, 'g'), `${file} `);
+    }
+
+    // Step 4: Combine separated file-rank patterns into squares
     // This regex matches:
     //   - ([a-h]?[a-h]) : one or two file letters (handles both "f" and "ad")
     //   - \s+          : one or more whitespace characters
@@ -145,6 +288,41 @@ export class CommandParser {
     return result;
   }
 
+  /**
+   * Replace words the parser does not know with their closest vocabulary
+   * word ("rock" → "rook", "tapes" → "takes"), then normalize again so
+   * corrected numbers join their file ("e for" → "e4"). Right after a file
+   * letter a number reading is preferred, elsewhere a piece or keyword:
+   * "h ate" is h8 but "knight ate e5" is a capture.
+   */
+  private static correctWords(normalized: string, keep: ReadonlySet<string> = new Set()): string {
+    const words = normalized.split(/\s+/).filter((w) => w.length > 0);
+    let changed = false;
+
+    const corrected = words.map((word, index) => {
+      if (keep.has(word) || this.isPossessivePiece(word, words[index + 1])) return word;
+      const suggestions = this.suggest(word);
+      if (suggestions.length === 0) return word;
+
+      const afterFile = index > 0 && this.isFile(words[index - 1]);
+      const isNumber = (match: FuzzyMatch) => match.word in this.NUMBER_WORDS || match.word in this.ORDINAL_WORDS;
+      const best = suggestions.find((match) => isNumber(match) === afterFile) ?? suggestions[0];
+      changed = true;
+      return best.word;
+    });
+
+    return changed ? this.preprocess(corrected.join(' ')) : normalized;
+  }
+
+  /**
+   * "king's pawn" names a piece by the file it started on, which a command
+   * cannot express, so the possessive is left uncorrected and reported as
+   * unknown rather than read as "king pawn". A lone "king's" is still "king".
+   */
+  private static isPossessivePiece(word: string, next?: string): boolean {
+    return word.endsWith("'s") && next !== undefined && Object.hasOwn(this.PIECE_NAMES, next);
+  }
+
   // ============================================
   // Private Castle Command Handling
   // ============================================
@@ -171,22 +349,35 @@ export class CommandParser {
   // Private Tokenization
   // ============================================
 
-  private static tokenize(input: string): Token[] {
+  /**
+   * Split normalized input into tokens, collecting words that are neither
+   * tokens nor filler. Unknown words are located in the original input so
+   * they can be pointed out to the player.
+   */
+  private static tokenize(input: string, normalized: string): { tokens: Token[]; unknownWords: UnknownWord[] } {
     const tokens: Token[] = [];
-    const words = input.split(/\s+/).filter((w) => w.length > 0);
+    const unknownWords: UnknownWord[] = [];
+    const words = normalized.split(/\s+/).filter((w) => w.length > 0);
+    const lowerInput = input.toLowerCase();
+    let cursor = 0;
+
+    words.forEach((word, index) => {
+      const position = lowerInput.indexOf(word, cursor);
+      if (position !== -1) cursor = position + word.length;
+
+      if (this.FILLER_WORDS.has(word)) return;
 
-    for (const word of words) {
       const token = this.parseWord(word);
-      if (token) {
-        if (Array.isArray(token)) {
-          tokens.push(...token);
-        } else {
-          tokens.push(token);
-        }
+      if (!token) {
+        unknownWords.push({ word, index, position });
+      } else if (Array.isArray(token)) {
+        tokens.push(...token);
+      } else {
+        tokens.push(token);
       }
-    }
+    });
 
-    return tokens;
+    return { tokens, unknownWords };
   }
 
   private static parseWord(word: string): Token | Token[] | null {
@@ -202,6 +393,10 @@ export class CommandParser {
       return { type: 'action', value: Action.Move };
     }
 
+    if (this.PROMOTE_KEYWORDS.has(word)) {
+      return { type: 'promote' };
+    }
+
     if (this.isSquare(word)) {
       return { type: 'square', value: word as Square };
     }
@@ -210,6 +405,10 @@ export class CommandParser {
       return { type: 'file', value: word as File };
     }
 
+    if (word.length === 1 && this.isRank(word)) {
+      return { type: 'rank', value: word as Rank };
+    }
+
     // File + square combined (e.g., "bd3" → file 'b' + square 'd3')
     // Also handles preprocessed "ad5" → file 'a' + square 'd5'
     if (word.length === 3 && this.isFile(word[0]) && this.isSquare(word.slice(1))) {
@@ -222,6 +421,62 @@ export class CommandParser {
     return null;
   }
 
+  // ============================================
+  // Private Promotion Handling
+  // ============================================
+
+  /**
+   * Pull the promotion piece out of the token stream
+   *
+   * The promotion piece is either introduced by a promote keyword
+   * ("b takes a8 promote to rook") or trails the destination square
+   * ("e8 queen", "pawn to h1 knight"). The remaining tokens describe the
+   * move itself and are parsed as usual.
+   */
+  private static extractPromotion(tokens: Token[]): {
+    moveTokens: Token[];
+    promotion?: PieceType;
+    hasPromoteKeyword: boolean;
+  } {
+    const promoteIndex = tokens.findIndex((t) => t.type === 'promote');
+
+    if (promoteIndex !== -1) {
+      const moveTokens = tokens.slice(0, promoteIndex);
+      let promotion: PieceType | undefined;
+
+      for (const token of tokens.slice(promoteIndex + 1)) {
+        // "promote to rook" - the connecting "to" is not a move keyword here
+        if (token.type === 'action' && token.value === Action.Move) continue;
+        if (token.type === 'promote') continue;
+
+        if (!promotion && token.type === 'piece' && MoveGenerator.PROMOTION_PIECES.includes(token.value)) {
+          promotion = token.value;
+          continue;
+        }
+        moveTokens.push(token);
+      }
+
+      return { moveTokens, promotion, hasPromoteKeyword: true };
+    }
+
+    const last = tokens[tokens.length - 1];
+    const beforeLast = tokens[tokens.length - 2];
+
+    if (
+      last?.type === 'piece' &&
+      MoveGenerator.PROMOTION_PIECES.includes(last.value) &&
+      beforeLast?.type === 'square'
+    ) {
+      return { moveTokens: tokens.slice(0, -1), promotion: last.value, hasPromoteKeyword: false };
+    }
+
+    return { moveTokens: tokens, hasPromoteKeyword: false };
+  }
+
+  private static withPromotion(command: Command, promotion?: PieceType): Command {
+    return promotion ? { ...command, promotion } : command;
+  }
+
   // ============================================
   // Private Command Info Extraction
   // ============================================
@@ -244,6 +499,11 @@ export class CommandParser {
       return fileToken.value;
     }
 
+    const rankToken = tokens.find((t) => t.type === 'rank');
+    if (rankToken) {
+      return rankToken.value;
+    }
+
     return undefined;
   }
 
@@ -251,6 +511,15 @@ export class CommandParser {
   // Private Command Parsing
   // ============================================
 
+  /**
+   * A leading "move" only announces the command, as in "move the knight to
+   * f3"; read as the action it would make the piece the destination.
+   */
+  private static dropLeadingMove(tokens: Token[]): Token[] {
+    const [first] = tokens;
+    return tokens.length > 1 && first.type === 'action' && first.value === Action.Move ? tokens.slice(1) : tokens;
+  }
+
   private static parseWithAction(tokens: Token[], actionIndex: number): Command {
     const beforeAction = tokens.slice(0, actionIndex);
     const afterAction = tokens.slice(actionIndex + 1);
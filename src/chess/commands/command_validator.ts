@@ -1,12 +1,10 @@
-import type { Square, Piece, Move, File } from '../types';
+import type { Square, Piece, Move, File, Rank, CastlingSide } from '../types';
 import { Color, PieceType } from '../types';
 import { SquareUtils } from '../square_utils';
 import type { BoardStateReader } from '../board_state';
-import { PieceMoveValidator } from '../piece_move_validator';
-import { AttackDetector } from '../attack_detector';
 import { CastlingHandler } from '../castling_handler';
+import { MoveGenerator } from '../move_generator';
 import { type Command, type CommandInfo, Action } from './types';
-import type { CastlingRights } from '../types';
 
 /**
  * Validates voice commands against current board state.
@@ -31,7 +29,8 @@ export class CommandValidator {
     if (command.action === Action.ShortCastle) return CastlingHandler.canCastleKingside(this.boardState);
     if (command.action === Action.LongCastle) return CastlingHandler.canCastleQueenside(this.boardState);
 
-    if (command.action === Action.Move || command.action === Action.Capture) {
+    if (command.action === Action.Move || command.action === Action.Capture ||
+      command.action === Action.Promote) {
       const validMoves = this.findValidMovesForCommand(command);
       return validMoves.length === 1;
     }
@@ -39,15 +38,66 @@ export class CommandValidator {
     return false;
   }
 
+  /**
+   * Find every legal move the command could refer to, including the king
+   * move for castle commands. The command is executable only when exactly
+   * one move is returned.
+   */
+  public findMatchingMoves(command: Command): Move[] {
+    switch (command.action) {
+      case Action.ShortCastle:
+        return this.findCastlingMoves('kingside');
+      case Action.LongCastle:
+        return this.findCastlingMoves('queenside');
+      case Action.Move:
+      case Action.Capture:
+      case Action.Promote:
+        return this.findValidMovesForCommand(command);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Find moves that match the command's pieces and squares but would leave
+   * the mover's own king in check.
+   */
+  public findIllegalMatchingMoves(command: Command): Move[] {
+    if (command.action !== Action.Move && command.action !== Action.Capture &&
+      command.action !== Action.Promote) {
+      return [];
+    }
+
+    const squares = this.boardState.getAllSquarePieces();
+    const enPassantSquare = this.boardState.getEnPassantSquare();
+    const pseudoLegalMoves = this.collectMatchingMoves(command, (square, piece) =>
+      MoveGenerator.generateMoves(piece, square, squares, enPassantSquare)
+    );
+
+    const legalKeys = new Set(this.findValidMovesForCommand(command).map(m => this.moveKey(m)));
+    return pseudoLegalMoves.filter(m => !legalKeys.has(this.moveKey(m)));
+  }
+
   /**
    * Find all valid moves that match the command's criteria.
+   * Candidates come from the board's own legal move generation, so every
+   * piece type, castling and en passant are handled exactly as the board does.
    */
   private findValidMovesForCommand(command: Command): Move[] {
+    return this.collectMatchingMoves(command, square =>
+      this.boardState.getValidMovesForSquare(square)
+    );
+  }
+
+  private collectMatchingMoves(
+    command: Command,
+    generateMoves: (square: Square, piece: Piece) => Move[]
+  ): Move[] {
     const candidateStarts = this.getCandidateStartSquares(command.startInfo);
     if (candidateStarts.length === 0) return [];
 
-    const candidateEnds = this.getCandidateEndSquares(command.endInfo);
-    if (candidateEnds.length === 0) return [];
+    const candidateEnds = new Set(this.getCandidateEndSquares(command.endInfo));
+    if (candidateEnds.size === 0) return [];
 
     const validMoves: Move[] = [];
     const isCapture = command.action === Action.Capture;
@@ -56,31 +106,29 @@ export class CommandValidator {
     for (const startSquare of candidateStarts) {
       const piece = this.boardState.getPieceAt(startSquare);
       if (!piece || piece.color !== activeColor) continue;
-      if (!PieceMoveValidator.isSupportedPieceType(piece.type)) continue;
-
-      for (const endSquare of candidateEnds) {
-        if (startSquare === endSquare) continue;
-        if (!this.matchesActionType(startSquare, endSquare, isCapture)) continue;
-        if (!PieceMoveValidator.canPieceMoveTo(piece, startSquare, endSquare, this.boardState)) {
-          continue;
-        }
-
-        const move: Move = {
-          piece: piece.type,
-          color: piece.color,
-          startSquare,
-          endSquare
-        };
-
-        if (this.isMoveLegal(move)) {
-          validMoves.push(move);
-        }
+
+      for (const move of generateMoves(startSquare, piece)) {
+        if (!candidateEnds.has(move.endSquare)) continue;
+        if (!this.matchesActionType(startSquare, move.endSquare, isCapture)) continue;
+        if (!this.matchesPromotion(move, command)) continue;
+
+        validMoves.push(move);
       }
     }
 
     return validMoves;
   }
 
+  private findCastlingMoves(side: CastlingSide): Move[] {
+    const color = this.boardState.getActiveColor();
+    return CastlingHandler.getCastlingMoves(this.boardState, color)
+      .filter(m => CastlingHandler.getCastlingSide(this.boardState, m) === side);
+  }
+
+  private moveKey(move: Move): string {
+    return `${move.startSquare}${move.endSquare}${move.promotion ?? ''}`;
+  }
+
   private getCandidateStartSquares(startInfo?: CommandInfo): Square[] {
     const activeColor = this.boardState.getActiveColor();
 
@@ -97,6 +145,10 @@ export class CommandValidator {
       return this.boardState.getSquaresOnFile(startInfo, activeColor);
     }
 
+    if (this.isRank(startInfo)) {
+      return this.boardState.getAllSquaresForColor(activeColor).filter(square => square[1] === startInfo);
+    }
+
     if (this.isPieceType(startInfo)) {
       return this.boardState.findPieces(startInfo, activeColor);
     }
@@ -117,6 +169,10 @@ export class CommandValidator {
       return this.getAllSquaresOnFile(endInfo);
     }
 
+    if (this.isRank(endInfo)) {
+      return this.getAllSquares().filter(square => square[1] === endInfo);
+    }
+
     if (this.isPieceType(endInfo)) {
       const opponentColor = this.boardState.getActiveColor() === Color.White ?
         Color.Black : Color.White;
@@ -151,20 +207,16 @@ export class CommandValidator {
     return targetPiece === null || hasOpponentPiece;
   }
 
-  private isMoveLegal(move: Move): boolean {
-    const fromIndex = SquareUtils.toIndex(move.startSquare);
-    const toIndex = SquareUtils.toIndex(move.endSquare);
-    const movingPiece = this.boardState.getPieceAtIndex(fromIndex);
-
-    // Create a temporary board state for legality check
-    const tempState = new TemporaryBoardState(this.boardState, move);
-
-    const kingPos = movingPiece?.type === PieceType.King ?
-      toIndex : this.boardState.getKingPosition(move.color);
-
-    const opponentColor = move.color === Color.White ? Color.Black : Color.White;
-    // Return true if NOT attacked (move is legal)
-    return !AttackDetector.isSquareAttacked(tempState.getAllSquarePieces(), kingPos, opponentColor);
+  /**
+   * A promotion move matches when it promotes to the requested piece,
+   * defaulting to a queen. Non-promoting moves only match commands that
+   * do not ask for a promotion.
+   */
+  private matchesPromotion(move: Move, command: Command): boolean {
+    if (!move.promotion) {
+      return command.promotion === undefined && command.action !== Action.Promote;
+    }
+    return move.promotion === (command.promotion ?? PieceType.Queen);
   }
 
   private getAllSquares(): Square[] {
@@ -189,94 +241,14 @@ export class CommandValidator {
   }
 
   private isFile(info: CommandInfo): info is File {
-    return typeof info === 'string' && info.length === 1;
+    return typeof info === 'string' && /^[a-h]$/.test(info);
+  }
+
+  private isRank(info: CommandInfo): info is Rank {
+    return typeof info === 'string' && /^[1-8]$/.test(info);
   }
 
   private isPieceType(info: CommandInfo): info is PieceType {
     return Object.values(PieceType).includes(info as PieceType);
   }
 }
-
-/**
- * Temporary board state for move legality checking.
- * Simulates a move without modifying the actual board.
- */
-class TemporaryBoardState implements BoardStateReader {
-  private baseState: BoardStateReader;
-  private move: Move;
-  private fromIndex: number;
-  private toIndex: number;
-  private enPassantCaptureIndex: number | null = null;
-
-  constructor(baseState: BoardStateReader, move: Move) {
-    this.baseState = baseState;
-    this.move = move;
-    this.fromIndex = SquareUtils.toIndex(move.startSquare);
-    this.toIndex = SquareUtils.toIndex(move.endSquare);
-
-    // Check for en passant capture
-    const movingPiece = baseState.getPieceAtIndex(this.fromIndex);
-    if (movingPiece?.type === PieceType.Pawn &&
-      move.endSquare === baseState.getEnPassantSquare()) {
-      const capturedPawnRank = movingPiece.color === Color.White ?
-        SquareUtils.getRank(move.endSquare) - 1 :
-        SquareUtils.getRank(move.endSquare) + 1;
-      this.enPassantCaptureIndex = SquareUtils.fileRankToIndex(
-        SquareUtils.getFile(move.endSquare),
-        capturedPawnRank
-      );
-    }
-  }
-
-  getPieceAt(square: Square): Piece | null {
-    return this.getPieceAtIndex(SquareUtils.toIndex(square));
-  }
-
-  getPieceAtIndex(index: number): Piece | null {
-    if (index === this.fromIndex) return null;
-    if (index === this.enPassantCaptureIndex) return null;
-    if (index === this.toIndex) return this.baseState.getPieceAtIndex(this.fromIndex);
-    return this.baseState.getPieceAtIndex(index);
-  }
-
-  getActiveColor(): Color {
-    return this.baseState.getActiveColor();
-  }
-
-  getAllSquarePieces(): (Piece | null)[] {
-    const squares = this.baseState.getAllSquarePieces().slice(); // Create a copy
-    squares[this.fromIndex] = null;
-    squares[this.toIndex] = this.baseState.getPieceAtIndex(this.fromIndex);
-    if (this.enPassantCaptureIndex !== null) {
-      squares[this.enPassantCaptureIndex] = null;
-    }
-    return squares;
-  }
-
-  getEnPassantSquare(): Square | null {
-    return this.baseState.getEnPassantSquare();
-  }
-
-  getCastlingRights(): CastlingRights {
-    return this.baseState.getCastlingRights();
-  }
-
-  getKingPosition(color: Color): number {
-    if (color === this.move.color && this.move.piece === PieceType.King) {
-      return this.toIndex;
-    }
-    return this.baseState.getKingPosition(color);
-  }
-
-  findPieces(type: PieceType, color: Color): Square[] {
-    return this.baseState.findPieces(type, color);
-  }
-
-  getAllSquaresForColor(color: Color): Square[] {
-    return this.baseState.getAllSquaresForColor(color);
-  }
-
-  getSquaresOnFile(file: File, color: Color): Square[] {
-    return this.baseState.getSquaresOnFile(file, color);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,294 @@
+import { Color, type Move, type Square } from '../types';
+import { SquareUtils } from '../square_utils';
+import type { Board } from '../board';
+import { CommandInterpreter } from './command_interpreter';
+import { CommandParser } from './command_parser';
+import {
+  type Command,
+  type CommandFailure,
+  type CommandSuccess,
+  CommandFailureReason
+} from './types';
+
+export enum DialogueStatus {
+  Executed = 'executed',
+  Clarifying = 'clarifying',
+  Cancelled = 'cancelled',
+  Failed = 'failed'
+}
+
+export type DialogueResponse =
+  | { status: DialogueStatus.Executed; result: CommandSuccess }
+  // The command matched several moves; prompt asks the player to pick one
+  | { status: DialogueStatus.Clarifying; prompt: string; candidates: Move[] }
+  | { status: DialogueStatus.Cancelled }
+  | { status: DialogueStatus.Failed; result: CommandFailure };
+
+export interface DisambiguationDialogueOptions {
+  // How long a question stays open; a later answer is treated as a new command
+  timeoutMs?: number;
+  // Clock in milliseconds, for tests
+  now?: () => number;
+}
+
+/**
+ * What tells the candidates apart: the pieces that could move, the squares
+ * one piece could go to, or whole moves when neither is enough.
+ */
+type Distinction = 'piece' | 'destination' | 'move';
+
+interface PendingQuestion {
+  candidates: Move[];
+  askedAt: number;
+  // Position the question was asked in; a move played elsewhere voids it
+  positionKey: bigint;
+  ply: number;
+}
+
+/**
+ * Turns an ambiguous command into a short conversation. When "knight d2"
+ * matches two knights it asks "Which knight, b1 or f3?" and keeps the
+ * candidates until a follow-up such as "b1", "the one on f3", "the left
+ * one" or "cancel" narrows them to a single move, which is then played.
+ */
+export class DisambiguationDialogue {
+  private static readonly DEFAULT_TIMEOUT_MS = 15_000;
+
+  private static readonly CANCEL_PATTERN = /\b(cancel|never ?mind|forget it|abort|stop)\b/;
+
+  // Answer words the parser would otherwise correct, such as "right" to "night"
+  private static readonly ANSWER_WORDS: ReadonlySet<string> = new Set(['left', 'leftmost', 'right', 'rightmost', 'last']);
+
+  private readonly board: Board;
+  private readonly timeoutMs: number;
+  private readonly now: () => number;
+  private pending: PendingQuestion | null = null;
+
+  constructor(board: Board, options: DisambiguationDialogueOptions = {}) {
+    this.board = board;
+    this.timeoutMs = options.timeoutMs ?? DisambiguationDialogue.DEFAULT_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  // ============ Conversation ============
+
+  /**
+   * Handle one utterance: an answer to the open question if there is one,
+   * otherwise a new command.
+   * @throws CommandParseError when a new command cannot be understood
+   */
+  public handle(input: string): DialogueResponse {
+    if (this.isPending()) {
+      return this.answer(input);
+    }
+    return this.submit(new CommandInterpreter(this.board).interpret(input));
+  }
+
+  /**
+   * Execute a parsed command, opening a question if it matches several moves.
+   */
+  public submit(command: Command): DialogueResponse {
+    this.pending = null;
+    const result = this.board.executeCommand(command);
+
+    if (result.success) {
+      return { status: DialogueStatus.Executed, result };
+    }
+    if (result.reason === CommandFailureReason.Ambiguous) {
+      return this.ask(result.candidates);
+    }
+    return { status: DialogueStatus.Failed, result };
+  }
+
+  /**
+   * Narrow the open question with a follow-up. An answer that matches none
+   * of the candidates repeats the question.
+   */
+  public answer(input: string): DialogueResponse {
+    const pending = this.pending;
+    if (!pending || !this.isPending()) {
+      return { status: DialogueStatus.Failed, result: { success: false, reason: CommandFailureReason.NoMatch, candidates: [] } };
+    }
+
+    const text = this.normalize(input);
+    if (DisambiguationDialogue.CANCEL_PATTERN.test(text)) {
+      this.cancel();
+      return { status: DialogueStatus.Cancelled };
+    }
+
+    const remaining = this.select(pending.candidates, text);
+    if (remaining.length === 0) {
+      return this.ask(pending.candidates);
+    }
+    if (remaining.length > 1) {
+      return this.ask(remaining);
+    }
+
+    this.pending = null;
+    const result = this.board.executeCandidate(remaining[0]);
+    return result.success
+      ? { status: DialogueStatus.Executed, result }
+      : { status: DialogueStatus.Failed, result };
+  }
+
+  public cancel(): void {
+    this.pending = null;
+  }
+
+  /**
+   * Whether a question is open. Questions close when they time out or when
+   * the position changes under them.
+   */
+  public isPending(): boolean {
+    if (!this.pending) return false;
+
+    const expired = this.now() - this.pending.askedAt > this.timeoutMs;
+    const moved = this.pending.positionKey !== this.board.getPositionKey() ||
+      this.pending.ply !== this.board.getHistory().length;
+    if (expired || moved) {
+      this.pending = null;
+      return false;
+    }
+    return true;
+  }
+
+  public getCandidates(): Move[] {
+    return this.isPending() ? [...this.pending!.candidates] : [];
+  }
+
+  /**
+   * The question for a set of candidates, such as "Which knight, b1 or f3?"
+   * or "Where to, c3 or e4?".
+   */
+  public static buildPrompt(candidates: Move[]): string {
+    const distinction = this.distinction(candidates);
+
+    if (distinction === 'piece') {
+      const types = new Set(candidates.map(m => m.piece));
+      if (types.size === 1) {
+        return `Which ${candidates[0].piece}, ${this.joinOptions(candidates.map(m => m.startSquare))}?`;
+      }
+      return `Which piece, ${this.joinOptions(candidates.map(m => `the ${m.piece} on ${m.startSquare}`))}?`;
+    }
+    if (distinction === 'destination') {
+      return `Where to, ${this.joinOptions(candidates.map(m => m.endSquare))}?`;
+    }
+    return `Which move, ${this.joinOptions(candidates.map(m => `${m.startSquare} to ${m.endSquare}`))}?`;
+  }
+
+  // ============ Answer Matching ============
+
+  /**
+   * Open a question, offering the candidates from left to right as the
+   * player to move sees the board.
+   */
+  private ask(unordered: Move[]): DialogueResponse {
+    const fileOf = this.fileFromPlayerSide(unordered);
+    const candidates = [...unordered].sort((a, b) => fileOf(a) - fileOf(b));
+    this.pending = {
+      candidates,
+      askedAt: this.now(),
+      positionKey: this.board.getPositionKey(),
+      ply: this.board.getHistory().length
+    };
+    return { status: DialogueStatus.Clarifying, prompt: DisambiguationDialogue.buildPrompt(candidates), candidates };
+  }
+
+  /**
+   * Keep the candidates the answer points at. Squares, piece names,
+   * left/right and ordinals each narrow the set in turn. Words are read as
+   * the command parser reads them, so "f three", "foxtrot three" and "eff
+   * three" are all f3.
+   */
+  private select(candidates: Move[], text: string): Move[] {
+    // Ordinals are picked out first; the parser reads them as ranks
+    const ordinal = DisambiguationDialogue.ordinal(text.split(/\s+/));
+    const words = CommandParser.normalizeWords(text, DisambiguationDialogue.ANSWER_WORDS);
+    let remaining = candidates;
+
+    const squares = words.filter((w): w is Square => /^[a-h][1-8]$/.test(w));
+    if (squares.length > 0) {
+      remaining = remaining.filter(m => squares.every(s => s === m.startSquare || s === m.endSquare));
+    }
+
+    const pieces = words.flatMap(w => CommandParser.PIECE_NAMES[w] ?? []);
+    if (pieces.length > 0) {
+      remaining = remaining.filter(m => pieces.includes(m.piece));
+    }
+
+    if (words.some(w => w === 'left' || w === 'leftmost')) {
+      remaining = this.extremeByFile(remaining, 'left');
+    } else if (words.some(w => w === 'right' || w === 'rightmost')) {
+      remaining = this.extremeByFile(remaining, 'right');
+    }
+
+    if (ordinal !== null) {
+      // Ordinals count the options in the order they were offered
+      const index = ordinal === 'last' ? remaining.length - 1 : ordinal;
+      remaining = index < remaining.length ? [remaining[index]] : [];
+    }
+
+    return remaining;
+  }
+
+  /**
+   * The candidates furthest to one side, as seen by the player to move.
+   */
+  private extremeByFile(candidates: Move[], side: 'left' | 'right'): Move[] {
+    if (candidates.length === 0) return candidates;
+
+    const fileOf = this.fileFromPlayerSide(candidates);
+    const files = candidates.map(fileOf);
+    const best = side === 'left' ? Math.min(...files) : Math.max(...files);
+    return candidates.filter(m => fileOf(m) === best);
+  }
+
+  /**
+   * Column of the square that tells a candidate apart, counted from the
+   * left of the player to move.
+   */
+  private fileFromPlayerSide(candidates: Move[]): (move: Move) => number {
+    const distinction = DisambiguationDialogue.distinction(candidates);
+    const flipped = this.board.getActiveColor() === Color.Black;
+    return move => {
+      const file = SquareUtils.getFile(distinction === 'destination' ? move.endSquare : move.startSquare);
+      return flipped ? 7 - file : file;
+    };
+  }
+
+  /**
+   * Lower-case text with punctuation dropped, so "F three." becomes "f three".
+   */
+  private normalize(input: string): string {
+    return input.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').trim();
+  }
+
+  /**
+   * Zero-based position named by an ordinal such as "second" or "2nd",
+   * 'last', or null when the answer has none.
+   */
+  private static ordinal(words: string[]): number | 'last' | null {
+    for (const word of words) {
+      if (word === 'last') return 'last';
+      const rank = Object.hasOwn(CommandParser.ORDINAL_WORDS, word)
+        ? CommandParser.ORDINAL_WORDS[word]
+        : /^([1-8])(st|nd|rd|th)$/.exec(word)?.[1];
+      if (rank) return Number(rank) - 1;
+    }
+    return null;
+  }
+
+  private static distinction(candidates: Move[]): Distinction {
+    const starts = new Set(candidates.map(m => m.startSquare));
+    if (starts.size === candidates.length) return 'piece';
+    if (starts.size === 1 && new Set(candidates.map(m => m.endSquare)).size === candidates.length) {
+      return 'destination';
+    }
+    return 'move';
+  }
+
+  private static joinOptions(options: string[]): string {
+    if (options.length <= 1) return options.join('');
+    return `${options.slice(0, -1).join(', ')} or ${options.at(-1)}`;
+  }
+}
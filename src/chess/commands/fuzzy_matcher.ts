@@ -0,0 +1,132 @@
+/**
+ * A vocabulary word that a misheard word may stand for.
+ */
+export interface FuzzyMatch {
+  word: string;
+  // 1 for an exact match, lower for looser ones
+  score: number;
+}
+
+/**
+ * Scores how likely a word from a speech recognizer is to be a word from a
+ * known vocabulary. Three signals are combined: a curated table of common
+ * mishearings ("rock" for "rook", "ate" for "eight"), a phonetic key that
+ * ignores spelling differences ("bishup", "nait"), and edit distance for
+ * everything else ("tapes", "brook").
+ */
+export class FuzzyMatcher {
+  public static readonly MIN_SCORE = 0.75;
+
+  private static readonly HOMOPHONE_SCORE = 0.95;
+  private static readonly PHONETIC_SCORE = 0.85;
+  // Sound-alike words must still share some spelling, so "can" is not "queen"
+  private static readonly PHONETIC_MIN_SIMILARITY = 0.3;
+  // Words this short only match through the homophone table
+  private static readonly MIN_FUZZY_LENGTH = 3;
+
+  // Mishearings seen from speech recognizers, most likely reading first
+  private static readonly HOMOPHONES: Record<string, readonly string[]> = {
+    rock: ['rook'],
+    brook: ['rook'],
+    ruck: ['rook'],
+    roof: ['rook'],
+    nights: ['knight'],
+    knights: ['knight'],
+    nite: ['knight'],
+    queens: ['queen'],
+    kings: ['king'],
+    bishops: ['bishop'],
+    pawns: ['pawn'],
+    prawn: ['pawn'],
+    pond: ['pawn'],
+    palm: ['pawn'],
+    tapes: ['takes'],
+    take: ['takes'],
+    took: ['takes'],
+    tax: ['takes'],
+    ate: ['takes', 'eight'],
+    too: ['to', 'two'],
+    for: ['four'],
+    fore: ['four'],
+    won: ['one'],
+    tree: ['three'],
+    free: ['three'],
+    sex: ['six'],
+  };
+
+  /**
+   * Vocabulary words the input may stand for, best first. Only matches
+   * scoring at least MIN_SCORE are returned.
+   */
+  public static match(input: string, vocabulary: Iterable<string>): FuzzyMatch[] {
+    const word = input.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const homophones = this.HOMOPHONES[word] ?? [];
+    const inputKey = this.phoneticKey(word);
+    const matches: FuzzyMatch[] = [];
+
+    for (const candidate of new Set(vocabulary)) {
+      let score = 0;
+
+      if (candidate === word) {
+        score = 1;
+      } else if (homophones.includes(candidate)) {
+        // Later readings in the table rank slightly lower
+        score = this.HOMOPHONE_SCORE - homophones.indexOf(candidate) * 0.01;
+      } else if (word.length >= this.MIN_FUZZY_LENGTH && candidate.length >= this.MIN_FUZZY_LENGTH) {
+        const distance = this.editDistance(word, candidate);
+        score = 1 - distance / Math.max(word.length, candidate.length);
+        if (score >= this.PHONETIC_MIN_SIMILARITY && inputKey.length >= 2 && inputKey === this.phoneticKey(candidate)) {
+          score = Math.max(score, this.PHONETIC_SCORE);
+        }
+      }
+
+      if (score >= this.MIN_SCORE) matches.push({ word: candidate, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Number of single-letter insertions, deletions, substitutions and
+   * adjacent swaps needed to turn one word into the other.
+   */
+  public static editDistance(a: string, b: string): number {
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return rows[a.length][b.length];
+  }
+
+  /**
+   * A rough sound-alike key: silent and soft spellings are folded together,
+   * vowels after the first letter dropped and a plural s ignored, so
+   * "knight" and "nite" both become "nt".
+   */
+  public static phoneticKey(word: string): string {
+    const folded = word
+      .toLowerCase()
+      .replace(/[^a-z]/g, '')
+      .replace(/^kn/, 'n')
+      .replace(/^wr/, 'r')
+      .replace(/gh/g, '')
+      .replace(/ph/g, 'f')
+      .replace(/ck/g, 'k')
+      .replace(/[cq]/g, 'k')
+      .replace(/z/g, 's')
+      .replace(/(.)s$/, '$1');
+
+    if (!folded) return '';
+    const rest = folded.slice(1).replace(/[aeiouyhw]/g, '');
+    return (folded[0] + rest).replace(/(.)\1+/g, '$1');
+  }
+}
@@ -0,0 +1,288 @@
+import { Color, PieceType, type CastlingSide, type Move, type Square } from '../types';
+import { SquareUtils } from '../square_utils';
+import type { Board } from '../board';
+import { PieceMoveValidator } from '../piece_move_validator';
+import { CastlingHandler } from '../castling_handler';
+import { CommandValidator } from './command_validator';
+import { type Command, type CommandInfo, Action } from './types';
+
+export enum RejectionReason {
+  GameOver = 'game_over',
+  WrongTurn = 'wrong_turn',
+  NoPieceOnSquare = 'no_piece_on_square',
+  NoSuchPiece = 'no_such_piece',
+  OwnPieceOnTarget = 'own_piece_on_target',
+  NothingToCapture = 'nothing_to_capture',
+  CannotReach = 'cannot_reach',
+  Pinned = 'pinned',
+  LeavesKingInCheck = 'leaves_king_in_check',
+  Ambiguous = 'ambiguous',
+  NoCastlingRight = 'no_castling_right',
+  CastlingBlocked = 'castling_blocked',
+  CastleInCheck = 'castle_in_check',
+  CastleThroughCheck = 'castle_through_check',
+  NothingToUndo = 'nothing_to_undo',
+  NothingToRedo = 'nothing_to_redo',
+  NoDrawToClaim = 'no_draw_to_claim'
+}
+
+export interface RejectionExplanation {
+  reason: RejectionReason;
+  // Sentence for speech output, such as "Your knight on c3 is pinned to your king."
+  sentence: string;
+  // Squares the explanation refers to, for highlighting on the board
+  squares: Square[];
+}
+
+/**
+ * Explains why a voice command cannot be played. The board's own answer
+ * is only a failure reason; this works out which piece, square or rule
+ * stood in the way and says so in a sentence that can be read out.
+ */
+export class RejectionExplainer {
+  private static readonly COUNT_WORDS = ['', 'one', 'both', 'three', 'four', 'five', 'six', 'seven', 'eight'];
+
+  /**
+   * Why the command cannot be played now, or null if it can.
+   */
+  public static explain(board: Board, command: Command): RejectionExplanation | null {
+    // Taking back moves is allowed after the game has ended
+    if (command.action === Action.Undo || command.action === Action.Redo) {
+      if (board.isValidCommand(command)) return null;
+      return command.action === Action.Undo
+        ? this.rejection(RejectionReason.NothingToUndo, 'There is no move to take back.')
+        : this.rejection(RejectionReason.NothingToRedo, 'There is no move to replay.');
+    }
+
+    if (board.isGameOver().isOver) {
+      return this.rejection(RejectionReason.GameOver, 'The game is over.');
+    }
+
+    switch (command.action) {
+      case Action.Resign:
+        return null;
+      case Action.ClaimDraw:
+        return board.canClaimDraw() ? null : this.rejection(RejectionReason.NoDrawToClaim, 'There is no draw to claim.');
+      case Action.ShortCastle:
+        return this.explainCastling(board, 'kingside');
+      case Action.LongCastle:
+        return this.explainCastling(board, 'queenside');
+      default:
+        return this.explainMove(board, command);
+    }
+  }
+
+  // ============ Castling ============
+
+  private static explainCastling(board: Board, side: CastlingSide): RejectionExplanation | null {
+    const color = board.getActiveColor();
+    const king = SquareUtils.fromIndex(board.getKingPosition(color));
+
+    // Being in check is the first thing to mention, whatever else is wrong
+    if (board.isInCheck()) {
+      return this.rejection(RejectionReason.CastleInCheck, "You can't castle while in check.", [king]);
+    }
+
+    switch (CastlingHandler.getCastlingObstacle(board, color, side)) {
+      case 'no_right':
+        return this.rejection(RejectionReason.NoCastlingRight, `You can no longer castle ${side}.`, [king]);
+      case 'blocked':
+        return this.rejection(RejectionReason.CastlingBlocked, `There are pieces in the way of castling ${side}.`, [king]);
+      case 'in_check':
+        return this.rejection(RejectionReason.CastleInCheck, "You can't castle while in check.", [king]);
+      case 'attacked':
+        return this.rejection(RejectionReason.CastleThroughCheck, "Your king can't castle through or into check.", [king]);
+      default:
+        return null;
+    }
+  }
+
+  // ============ Moves ============
+
+  private static explainMove(board: Board, command: Command): RejectionExplanation | null {
+    const color = board.getActiveColor();
+    const validator = new CommandValidator(board);
+    const { startInfo, endInfo } = command;
+
+    const legal = validator.findMatchingMoves(command);
+    if (legal.length === 1) return null;
+    if (legal.length > 1) return this.explainAmbiguity(command, legal);
+
+    if (this.isSquare(startInfo)) {
+      const piece = board.getPieceAt(startInfo);
+      if (!piece) {
+        return this.rejection(RejectionReason.NoPieceOnSquare, `There is no piece on ${startInfo}.`, [startInfo]);
+      }
+      if (piece.color !== color) {
+        return this.rejection(RejectionReason.WrongTurn, `It's ${color}'s turn.`, [startInfo]);
+      }
+    }
+
+    const illegal = validator.findIllegalMatchingMoves(command);
+    if (illegal.length > 0) {
+      return this.explainIllegal(board, illegal);
+    }
+
+    // Only blame the turn when none of the player's own pieces fit the command
+    if (startInfo && this.piecesFitting(board, startInfo, color).length === 0 && this.opponentCouldPlay(board, command)) {
+      return this.rejection(RejectionReason.WrongTurn, `It's ${color}'s turn.`);
+    }
+
+    if (this.isPieceType(startInfo) && board.findPieces(startInfo, color).length === 0) {
+      return this.rejection(RejectionReason.NoSuchPiece, `You don't have a ${startInfo}.`);
+    }
+
+    if (this.isSquare(endInfo)) {
+      const target = board.getPieceAt(endInfo);
+      if (target?.color === color) {
+        return this.rejection(RejectionReason.OwnPieceOnTarget, `Your own ${target.type} is on ${endInfo}.`, [endInfo]);
+      }
+      if (command.action === Action.Capture && !target && endInfo !== board.getEnPassantSquare()) {
+        return this.rejection(RejectionReason.NothingToCapture, `There is nothing to capture on ${endInfo}.`, [endInfo]);
+      }
+    }
+
+    return this.explainUnreachable(board, command);
+  }
+
+  /**
+   * Every matching move breaks the rules on check. Blame a pin when the
+   * only pieces that could go are pinned.
+   */
+  private static explainIllegal(board: Board, illegal: Move[]): RejectionExplanation {
+    const color = board.getActiveColor();
+    const king = SquareUtils.fromIndex(board.getKingPosition(color));
+    const pinned = new Set(board.getPinnedPieces(color));
+
+    const [first] = illegal;
+    if (illegal.every(m => pinned.has(m.startSquare)) && new Set(illegal.map(m => m.startSquare)).size === 1) {
+      return this.rejection(
+        RejectionReason.Pinned,
+        `Your ${first.piece} on ${first.startSquare} is pinned to your king.`,
+        [first.startSquare, king]
+      );
+    }
+
+    return this.rejection(RejectionReason.LeavesKingInCheck, 'That would leave your king in check.', [king]);
+  }
+
+  private static explainAmbiguity(command: Command, candidates: Move[]): RejectionExplanation {
+    const starts = new Set(candidates.map(m => m.startSquare));
+    const types = new Set(candidates.map(m => m.piece));
+    const squares = [...starts];
+
+    if (starts.size === candidates.length && types.size === 1) {
+      const count = this.COUNT_WORDS[candidates.length] ?? String(candidates.length);
+      const sentence = `${count} ${candidates[0].piece}s can ${this.describeAction(command)}.`;
+      return this.rejection(RejectionReason.Ambiguous, sentence.charAt(0).toUpperCase() + sentence.slice(1), squares);
+    }
+
+    return this.rejection(RejectionReason.Ambiguous, `That could mean ${candidates.length} different moves.`, squares);
+  }
+
+  private static explainUnreachable(board: Board, command: Command): RejectionExplanation {
+    const { startInfo, endInfo } = command;
+    const action = this.describeAction(command);
+    const squares = [startInfo, endInfo].filter((info): info is Square => this.isSquare(info));
+
+    let sentence: string;
+    if (this.isSquare(startInfo)) {
+      sentence = `Your ${board.getPieceAt(startInfo)!.type} on ${startInfo} can't ${action}.`;
+    } else if (this.isPieceType(startInfo)) {
+      sentence = `You have no ${startInfo} that can ${action}.`;
+    } else if (startInfo) {
+      sentence = `Nothing on ${this.describeLine(startInfo)} can ${action}.`;
+    } else {
+      sentence = `None of your pieces can ${action}.`;
+    }
+
+    return this.rejection(RejectionReason.CannotReach, sentence, squares);
+  }
+
+  /**
+   * Whether the side not to move has a piece that fits the command, which
+   * suggests the player has lost track of whose turn it is.
+   */
+  private static opponentCouldPlay(board: Board, command: Command): boolean {
+    const color = board.getActiveColor();
+    const opponent = color === Color.White ? Color.Black : Color.White;
+    const { startInfo, endInfo } = command;
+
+    const starts = startInfo ? this.piecesFitting(board, startInfo, opponent) : [];
+    let ends: Square[];
+    if (this.isSquare(endInfo)) ends = [endInfo];
+    else if (this.isPieceType(endInfo)) ends = board.findPieces(endInfo, color);
+    else ends = this.allSquares().filter(s => !endInfo || this.isOnLine(s, endInfo));
+
+    return starts.some(start => {
+      const piece = board.getPieceAt(start)!;
+      return ends.some(end => {
+        const target = board.getPieceAt(end);
+        if (target?.color === opponent) return false;
+        if (command.action === Action.Capture && !target) return false;
+        return PieceMoveValidator.canPieceMoveTo(piece, start, end, board);
+      });
+    });
+  }
+
+  /**
+   * Squares of the given side's pieces that the command's start describes.
+   */
+  private static piecesFitting(board: Board, startInfo: CommandInfo, color: Color): Square[] {
+    if (this.isSquare(startInfo)) return board.getPieceAt(startInfo)?.color === color ? [startInfo] : [];
+    if (this.isPieceType(startInfo)) return board.findPieces(startInfo, color);
+    return board.getAllSquaresForColor(color).filter(s => this.isOnLine(s, startInfo));
+  }
+
+  // ============ Wording ============
+
+  /**
+   * What the command asked for, such as "reach f8", "capture a rook" or "promote".
+   */
+  private static describeAction(command: Command): string {
+    const target = this.describeTarget(command.endInfo);
+
+    switch (command.action) {
+      case Action.Capture:
+        return target ? `capture ${target}` : 'capture anything';
+      case Action.Promote:
+        return target ? `promote on ${target}` : 'promote';
+      default:
+        return target ? `reach ${target}` : 'move';
+    }
+  }
+
+  private static describeTarget(info?: CommandInfo): string | null {
+    if (!info) return null;
+    if (this.isSquare(info)) return info;
+    if (this.isPieceType(info)) return `a ${info}`;
+    return this.describeLine(info);
+  }
+
+  /**
+   * A file or rank as spoken: "the e file" or "rank 7".
+   */
+  private static describeLine(info: CommandInfo): string {
+    return /^[1-8]$/.test(info) ? `rank ${info}` : `the ${info} file`;
+  }
+
+  private static isOnLine(square: Square, info: CommandInfo): boolean {
+    return /^[1-8]$/.test(info) ? square[1] === info : square[0] === info;
+  }
+
+  private static rejection(reason: RejectionReason, sentence: string, squares: Square[] = []): RejectionExplanation {
+    return { reason, sentence, squares };
+  }
+
+  private static allSquares(): Square[] {
+    return Array.from({ length: 64 }, (_, index) => SquareUtils.fromIndex(index));
+  }
+
+  private static isSquare(info?: CommandInfo): info is Square {
+    return typeof info === 'string' && info.length === 2;
+  }
+
+  private static isPieceType(info?: CommandInfo): info is PieceType {
+    return Object.values(PieceType).includes(info as PieceType);
+  }
+}
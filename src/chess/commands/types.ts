@@ -1,13 +1,14 @@
-import type { Square, File, PieceType, Rank } from "../types";
+import type { Square, File, PieceType, Rank, Move, Piece, GameStatus, GameResult } from "../types";
 
-export type CommandInfo = PieceType | Square | File;
+export type CommandInfo = PieceType | Square | File | Rank;
 
 export type Token =
   | { type: 'piece'; value: PieceType }
   | { type: 'square'; value: Square }
   | { type: 'file'; value: File }
   | { type: 'action'; value: Action }
-  | { type: 'rank'; value: Rank };
+  | { type: 'rank'; value: Rank }
+  | { type: 'promote' };
 
 
 export enum Action {
@@ -16,11 +17,41 @@ export enum Action {
   Resign = 'resign',
   Promote = 'promote',
   ShortCastle = 'short_castle',
-  LongCastle = 'long_castle'
+  LongCastle = 'long_castle',
+  Undo = 'undo',
+  Redo = 'redo',
+  ClaimDraw = 'claim_draw'
 }
 
 export interface Command {
   startInfo? : CommandInfo,
   action? : Action,
-  endInfo? : CommandInfo
-}
\ No newline at end of file
+  endInfo? : CommandInfo,
+  promotion? : PieceType
+}
+
+export enum CommandFailureReason {
+  NoMatch = 'no_match',
+  Ambiguous = 'ambiguous',
+  KingInCheck = 'king_in_check',
+  GameOver = 'game_over'
+}
+
+export interface CommandSuccess {
+  success: true,
+  moves : Move[],
+  capturedPiece : Piece | null,
+  isCheck : boolean,
+  isCheckmate : boolean,
+  fen : string,
+  gameStatus : GameStatus,
+  result : GameResult | null
+}
+
+export interface CommandFailure {
+  success: false,
+  reason : CommandFailureReason,
+  candidates : Move[]
+}
+
+export type CommandResult = CommandSuccess | CommandFailure;
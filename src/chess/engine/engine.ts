@@ -0,0 +1,389 @@
+import { PieceType } from '../types';
+import type { Move } from '../types';
+import type { Board } from '../board';
+import { StaticExchange } from '../static_exchange';
+import { Evaluation } from './evaluation';
+import { Bound, TranspositionTable } from './transposition_table';
+
+/**
+ * How hard the engine tries. Weaker levels stop searching sooner and pick
+ * at random among moves scoring within randomMargin centipawns of the best.
+ */
+export interface EngineLevel {
+  maxDepth: number;
+  maxNodes: number;
+  randomMargin: number;
+}
+
+export interface SearchLimits {
+  maxDepth?: number;
+  maxNodes?: number;
+  timeLimitMs?: number;
+}
+
+export interface SearchResult {
+  // Null when the side to move has no legal moves
+  move: Move | null;
+  // Centipawns for the side to move
+  score: number;
+  // Moves until mate, negative when the engine is being mated, or null
+  mateIn: number | null;
+  // Deepest iteration that finished
+  depth: number;
+  nodes: number;
+  principalVariation: Move[];
+  elapsedMs: number;
+}
+
+export interface EngineOptions {
+  // 1 (weakest) to Engine.LEVELS.length (strongest)
+  level?: number;
+  timeLimitMs?: number;
+  transpositionTableSize?: number;
+  // Sources of randomness and time, replaceable for repeatable tests
+  random?: () => number;
+  now?: () => number;
+}
+
+interface ScoredMove {
+  move: Move;
+  score: number;
+}
+
+/**
+ * Built-in computer opponent: iterative deepening alpha-beta search with
+ * quiescence search and a transposition table. The search runs on a clone
+ * of the board using makeMove/unmakeMove, stops at the depth, node or time
+ * limit, and answers with the best move of the last completed iteration.
+ */
+export class Engine {
+  public static readonly LEVELS: readonly EngineLevel[] = [
+    { maxDepth: 1, maxNodes: 2_000, randomMargin: 250 },
+    { maxDepth: 2, maxNodes: 5_000, randomMargin: 150 },
+    { maxDepth: 2, maxNodes: 10_000, randomMargin: 80 },
+    { maxDepth: 3, maxNodes: 25_000, randomMargin: 40 },
+    { maxDepth: 4, maxNodes: 60_000, randomMargin: 20 },
+    { maxDepth: 5, maxNodes: 150_000, randomMargin: 0 },
+    { maxDepth: 6, maxNodes: 400_000, randomMargin: 0 },
+    { maxDepth: 64, maxNodes: Infinity, randomMargin: 0 }
+  ];
+  public static readonly MATE_SCORE = 100_000;
+
+  private static readonly DEFAULT_TIME_LIMIT_MS = 2_000;
+  private static readonly MAX_PLY = 128;
+  // Scores beyond this are mates, counted in plies from MATE_SCORE
+  private static readonly MATE_THRESHOLD = Engine.MATE_SCORE - Engine.MAX_PLY;
+  private static readonly INFINITY = Engine.MATE_SCORE + 1;
+  // How often, in nodes, the clock is read
+  private static readonly TIME_CHECK_INTERVAL = 1024;
+
+  private level: number;
+  private readonly timeLimitMs: number;
+  private readonly table: TranspositionTable;
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  // Per-search state
+  private nodes = 0;
+  private maxNodes = Infinity;
+  private deadline = Infinity;
+  private stopped = false;
+
+  constructor(options: EngineOptions = {}) {
+    this.level = Engine.validLevel(options.level ?? Engine.LEVELS.length);
+    this.timeLimitMs = options.timeLimitMs ?? Engine.DEFAULT_TIME_LIMIT_MS;
+    this.table = new TranspositionTable(options.transpositionTableSize);
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  public getLevel(): number {
+    return this.level;
+  }
+
+  public setLevel(level: number): void {
+    this.level = Engine.validLevel(level);
+  }
+
+  /**
+   * Forget earlier searches, for example when a new game starts.
+   */
+  public clear(): void {
+    this.table.clear();
+  }
+
+  /**
+   * Find a move for the side to move. Limits not given come from the
+   * strength level and the engine's time budget. The board is not changed.
+   */
+  public search(board: Board, limits: SearchLimits = {}): SearchResult {
+    const settings = Engine.LEVELS[this.level - 1];
+    const maxDepth = Math.min(limits.maxDepth ?? settings.maxDepth, Engine.MAX_PLY);
+    const start = this.now();
+
+    this.nodes = 0;
+    this.maxNodes = limits.maxNodes ?? settings.maxNodes;
+    this.deadline = start + (limits.timeLimitMs ?? this.timeLimitMs);
+    this.stopped = false;
+
+    const position = board.clone();
+    let rootMoves = position.getAllValidMoves();
+    if (rootMoves.length === 0) {
+      const score = position.isInCheck() ? -Engine.MATE_SCORE : 0;
+      return this.buildResult(null, score, 0, [], start);
+    }
+
+    let completed: ScoredMove[] = [];
+    let completedDepth = 0;
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const scored = this.searchRoot(position, rootMoves, depth);
+      // A partial first iteration still beats having nothing to play
+      if (this.stopped && (depth > 1 || scored.length === 0)) break;
+
+      completed = scored;
+      completedDepth = depth;
+      rootMoves = scored.map(entry => entry.move).concat(rootMoves.slice(scored.length));
+      if (this.stopped || Math.abs(scored[0].score) >= Engine.MATE_THRESHOLD) break;
+    }
+
+    if (completed.length === 0) {
+      return this.buildResult(rootMoves[0], Evaluation.evaluate(position), 0, [rootMoves[0]], start);
+    }
+
+    const chosen = this.choose(completed, settings.randomMargin);
+    return this.buildResult(chosen.move, chosen.score, completedDepth,
+      [chosen.move, ...this.principalVariation(position, chosen.move, completedDepth - 1)], start);
+  }
+
+  /**
+   * Search and play the chosen move on the board.
+   */
+  public playMove(board: Board, limits: SearchLimits = {}): Move | null {
+    const { move } = this.search(board, limits);
+    if (move) board.executeMove(move);
+    return move;
+  }
+
+  // ============ Search ============
+
+  /**
+   * Score every root move, best first. Once a best score is known, later
+   * moves are searched with a window just wide enough to tell whether they
+   * fall within the level's random margin.
+   */
+  private searchRoot(position: Board, moves: Move[], depth: number): ScoredMove[] {
+    const margin = Engine.LEVELS[this.level - 1].randomMargin;
+    const scored: ScoredMove[] = [];
+    let best = -Engine.INFINITY;
+
+    for (const move of moves) {
+      const alpha = best === -Engine.INFINITY ? -Engine.INFINITY : best - margin - 1;
+      position.makeMove(move);
+      const score = -this.negamax(position, depth - 1, -Engine.INFINITY, -alpha, 1);
+      position.unmakeMove();
+      if (this.stopped) break;
+
+      scored.push({ move, score });
+      best = Math.max(best, score);
+    }
+
+    // Stable sort keeps the previous iteration's order among equal scores
+    return scored.sort((a, b) => b.score - a.score);
+  }
+
+  private negamax(position: Board, depth: number, alpha: number, beta: number, ply: number): number {
+    if (position.getGameState().halfMoveClock >= 100 || position.getRepetitionCount() >= 2) return 0;
+    if (depth <= 0 || ply >= Engine.MAX_PLY) return this.quiesce(position, alpha, beta, ply);
+    if (this.countNode()) return 0;
+
+    const key = position.getPositionKey();
+    const entry = this.table.get(key);
+    if (entry && entry.depth >= depth) {
+      const score = Engine.scoreFromTable(entry.score, ply);
+      if (entry.bound === Bound.Exact) return score;
+      if (entry.bound === Bound.Lower) alpha = Math.max(alpha, score);
+      if (entry.bound === Bound.Upper) beta = Math.min(beta, score);
+      if (alpha >= beta) return score;
+    }
+
+    const moves = position.getAllValidMoves();
+    if (moves.length === 0) return position.isInCheck() ? -Engine.MATE_SCORE + ply : 0;
+    this.orderMoves(position, moves, entry?.bestMove ?? null);
+
+    const originalAlpha = alpha;
+    let bestScore = -Engine.INFINITY;
+    let bestMove: Move | null = null;
+    for (const move of moves) {
+      position.makeMove(move);
+      const score = -this.negamax(position, depth - 1, -beta, -alpha, ply + 1);
+      position.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    const bound = bestScore <= originalAlpha ? Bound.Upper : bestScore >= beta ? Bound.Lower : Bound.Exact;
+    this.table.store(key, { depth, score: Engine.scoreToTable(bestScore, ply), bound, bestMove });
+    return bestScore;
+  }
+
+  /**
+   * Extend the search through captures until the position is quiet, so a
+   * capture at the horizon is not scored without the recapture. Captures
+   * that lose material on exchange are skipped; in check every evasion is tried.
+   */
+  private quiesce(position: Board, alpha: number, beta: number, ply: number): number {
+    if (this.countNode()) return 0;
+
+    const inCheck = position.isInCheck();
+    if (!inCheck || ply >= Engine.MAX_PLY) {
+      const standPat = Evaluation.evaluate(position);
+      if (standPat >= beta || ply >= Engine.MAX_PLY) return standPat;
+      alpha = Math.max(alpha, standPat);
+    }
+
+    const moves = position.getAllValidMoves();
+    if (moves.length === 0) return inCheck ? -Engine.MATE_SCORE + ply : 0;
+
+    const candidates = inCheck ? moves : moves.filter(move =>
+      (this.isCapture(position, move) || move.promotion === PieceType.Queen) &&
+      StaticExchange.evaluate(position, move).gain >= 0);
+    this.orderMoves(position, candidates, null);
+
+    let bestScore = inCheck ? -Engine.INFINITY : alpha;
+    for (const move of candidates) {
+      position.makeMove(move);
+      const score = -this.quiesce(position, -beta, -alpha, ply + 1);
+      position.unmakeMove();
+      if (this.stopped) return 0;
+
+      bestScore = Math.max(bestScore, score);
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+    return bestScore;
+  }
+
+  /**
+   * Count a node and report whether the search has to stop.
+   */
+  private countNode(): boolean {
+    this.nodes++;
+    if (this.nodes >= this.maxNodes) this.stopped = true;
+    if (this.nodes % Engine.TIME_CHECK_INTERVAL === 0 && this.now() >= this.deadline) this.stopped = true;
+    return this.stopped;
+  }
+
+  // ============ Move Ordering ============
+
+  /**
+   * Sort in place: the stored best move, then captures with the most valuable
+   * victim and least valuable attacker first, then promotions, then the rest.
+   */
+  private orderMoves(position: Board, moves: Move[], hashMove: Move | null): void {
+    const priority = (move: Move): number => {
+      if (hashMove && Engine.sameMove(move, hashMove)) return 1_000_000;
+      let score = 0;
+      if (this.isCapture(position, move)) {
+        const victim = position.getPieceAt(move.endSquare)?.type ?? PieceType.Pawn;
+        score += 100_000 + 10 * Evaluation.PIECE_VALUES[victim] - Evaluation.PIECE_VALUES[move.piece];
+      }
+      if (move.promotion) score += Evaluation.PIECE_VALUES[move.promotion];
+      return score;
+    };
+
+    const priorities = new Map(moves.map(move => [move, priority(move)]));
+    moves.sort((a, b) => priorities.get(b)! - priorities.get(a)!);
+  }
+
+  private isCapture(position: Board, move: Move): boolean {
+    const target = position.getPieceAt(move.endSquare);
+    // Chess960 castling lands on the king's own rook
+    if (target) return target.color !== move.color;
+    return move.piece === PieceType.Pawn && move.endSquare === position.getEnPassantSquare();
+  }
+
+  // ============ Results ============
+
+  /**
+   * Best move, or at weaker levels a random one among those scoring within
+   * the margin of the best.
+   */
+  private choose(scored: ScoredMove[], margin: number): ScoredMove {
+    if (margin === 0) return scored[0];
+    const candidates = scored.filter(entry => entry.score > scored[0].score - margin);
+    return candidates[Math.min(Math.floor(this.random() * candidates.length), candidates.length - 1)];
+  }
+
+  /**
+   * Expected continuation after a move, read back from the transposition table.
+   */
+  private principalVariation(position: Board, move: Move, length: number): Move[] {
+    const line: Move[] = [];
+    position.makeMove(move);
+    let played = 1;
+
+    while (line.length < length) {
+      const bestMove = this.table.get(position.getPositionKey())?.bestMove;
+      if (!bestMove || !position.getAllValidMoves().some(legal => Engine.sameMove(legal, bestMove))) break;
+      line.push(bestMove);
+      position.makeMove(bestMove);
+      played++;
+    }
+
+    while (played-- > 0) position.unmakeMove();
+    return line;
+  }
+
+  private buildResult(move: Move | null, score: number, depth: number, principalVariation: Move[], start: number): SearchResult {
+    let mateIn: number | null = null;
+    if (Math.abs(score) >= Engine.MATE_THRESHOLD) {
+      const moves = Math.ceil((Engine.MATE_SCORE - Math.abs(score)) / 2);
+      mateIn = score > 0 ? moves : -moves;
+    }
+
+    return {
+      move,
+      score,
+      mateIn,
+      depth,
+      nodes: this.nodes,
+      principalVariation,
+      elapsedMs: this.now() - start
+    };
+  }
+
+  // ============ Helpers ============
+
+  private static validLevel(level: number): number {
+    if (!Number.isInteger(level) || level < 1 || level > Engine.LEVELS.length) {
+      throw new RangeError(`Engine level must be an integer from 1 to ${Engine.LEVELS.length}, got ${level}`);
+    }
+    return level;
+  }
+
+  private static sameMove(a: Move, b: Move): boolean {
+    return a.startSquare === b.startSquare && a.endSquare === b.endSquare && a.promotion === b.promotion;
+  }
+
+  /**
+   * Mate scores are stored relative to the position rather than the root,
+   * so a mate found through a transposition keeps its correct distance.
+   */
+  private static scoreToTable(score: number, ply: number): number {
+    if (score >= Engine.MATE_THRESHOLD) return score + ply;
+    if (score <= -Engine.MATE_THRESHOLD) return score - ply;
+    return score;
+  }
+
+  private static scoreFromTable(score: number, ply: number): number {
+    if (score >= Engine.MATE_THRESHOLD) return score - ply;
+    if (score <= -Engine.MATE_THRESHOLD) return score + ply;
+    return score;
+  }
+}
@@ -0,0 +1,156 @@
+import { Color, PieceType } from '../types';
+import type { BoardStateReader } from '../board_state';
+
+/**
+ * Static evaluation for the built-in engine: material plus piece-square
+ * bonuses, in centipawns. The king switches from a sheltered middlegame
+ * table to a centralising endgame table as the pieces come off.
+ */
+export class Evaluation {
+  public static readonly PIECE_VALUES: Record<PieceType, number> = {
+    [PieceType.Pawn]: 100,
+    [PieceType.Knight]: 320,
+    [PieceType.Bishop]: 330,
+    [PieceType.Rook]: 500,
+    [PieceType.Queen]: 900,
+    [PieceType.King]: 0
+  };
+
+  // Game phase weights; 24 with all pieces on the board, 0 with only kings and pawns
+  private static readonly PHASE_WEIGHTS: Record<PieceType, number> = {
+    [PieceType.Pawn]: 0,
+    [PieceType.Knight]: 1,
+    [PieceType.Bishop]: 1,
+    [PieceType.Rook]: 2,
+    [PieceType.Queen]: 4,
+    [PieceType.King]: 0
+  };
+  private static readonly OPENING_PHASE = 24;
+
+  // Tables are laid out as seen from White's side, rank 8 first
+  private static readonly PAWN_TABLE = [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0
+  ];
+
+  private static readonly KNIGHT_TABLE = [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50
+  ];
+
+  private static readonly BISHOP_TABLE = [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20
+  ];
+
+  private static readonly ROOK_TABLE = [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0
+  ];
+
+  private static readonly QUEEN_TABLE = [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20
+  ];
+
+  private static readonly KING_MIDDLEGAME_TABLE = [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20
+  ];
+
+  private static readonly KING_ENDGAME_TABLE = [
+    -50, -40, -30, -20, -20, -30, -40, -50,
+    -30, -20, -10, 0, 0, -10, -20, -30,
+    -30, -10, 20, 30, 30, 20, -10, -30,
+    -30, -10, 30, 40, 40, 30, -10, -30,
+    -30, -10, 30, 40, 40, 30, -10, -30,
+    -30, -10, 20, 30, 30, 20, -10, -30,
+    -30, -30, 0, 0, 0, 0, -30, -30,
+    -50, -30, -30, -30, -30, -30, -30, -50
+  ];
+
+  private static readonly PIECE_TABLES: Record<Exclude<PieceType, PieceType.King>, number[]> = {
+    [PieceType.Pawn]: Evaluation.PAWN_TABLE,
+    [PieceType.Knight]: Evaluation.KNIGHT_TABLE,
+    [PieceType.Bishop]: Evaluation.BISHOP_TABLE,
+    [PieceType.Rook]: Evaluation.ROOK_TABLE,
+    [PieceType.Queen]: Evaluation.QUEEN_TABLE
+  };
+
+  /**
+   * Score of the position for the side to move.
+   */
+  public static evaluate(boardState: BoardStateReader): number {
+    const squares = boardState.getAllSquarePieces();
+    let score = 0;
+    let phase = 0;
+    let kingMiddlegame = 0;
+    let kingEndgame = 0;
+
+    for (let index = 0; index < 64; index++) {
+      const piece = squares[index];
+      if (!piece) continue;
+
+      const sign = piece.color === Color.White ? 1 : -1;
+      const tableIndex = this.tableIndex(index, piece.color);
+      phase += this.PHASE_WEIGHTS[piece.type];
+
+      if (piece.type === PieceType.King) {
+        kingMiddlegame += sign * this.KING_MIDDLEGAME_TABLE[tableIndex];
+        kingEndgame += sign * this.KING_ENDGAME_TABLE[tableIndex];
+      } else {
+        score += sign * (this.PIECE_VALUES[piece.type] + this.PIECE_TABLES[piece.type][tableIndex]);
+      }
+    }
+
+    phase = Math.min(phase, this.OPENING_PHASE);
+    score += Math.trunc((kingMiddlegame * phase + kingEndgame * (this.OPENING_PHASE - phase)) / this.OPENING_PHASE);
+
+    return boardState.getActiveColor() === Color.White ? score : 0 - score;
+  }
+
+  /**
+   * Index into a table for a piece of the given color, mirroring the board for Black.
+   */
+  private static tableIndex(squareIndex: number, color: Color): number {
+    const file = squareIndex % 8;
+    const rank = Math.floor(squareIndex / 8);
+    return color === Color.White ? (7 - rank) * 8 + file : rank * 8 + file;
+  }
+}
@@ -0,0 +1,57 @@
+import type { Move } from '../types';
+
+export enum Bound {
+  Exact = 'exact',
+  // The true score is at least the stored score (the search failed high)
+  Lower = 'lower',
+  // The true score is at most the stored score (the search failed low)
+  Upper = 'upper'
+}
+
+export interface TranspositionEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  bestMove: Move | null;
+}
+
+/**
+ * Search results keyed by Zobrist position key, so positions reached by
+ * different move orders are only searched once. When full, the oldest
+ * entry is dropped to make room.
+ */
+export class TranspositionTable {
+  private readonly entries = new Map<bigint, TranspositionEntry>();
+  private readonly capacity: number;
+
+  constructor(capacity = 1 << 18) {
+    this.capacity = capacity;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: bigint): TranspositionEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Store a result, keeping an existing entry for the same position if it
+   * came from a deeper search.
+   */
+  public store(key: bigint, entry: TranspositionEntry): void {
+    const existing = this.entries.get(key);
+    if (existing) {
+      if (existing.depth > entry.depth) return;
+      this.entries.delete(key);
+    } else if (this.entries.size >= this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.set(key, entry);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -1,16 +1,50 @@
-import type { Square, Piece, CastlingRights } from './types';
+import type { Square, Piece, CastlingRights, CastlingRookFiles } from './types';
 import { Color, PieceType } from './types';
 import { SquareUtils } from './square_utils';
+import { AttackDetector } from './attack_detector';
+import { CastlingHandler } from './castling_handler';
 
 export interface ParsedFEN {
   pieces: Map<Square, Piece>;
   activeColor: Color;
   castlingRights: CastlingRights;
+  castlingRookFiles: CastlingRookFiles;
   enPassantSquare: Square | null;
   halfMoveClock: number;
   fullMoveNumber: number;
 }
 
+export type FENField =
+  | 'placement'
+  | 'activeColor'
+  | 'castling'
+  | 'enPassant'
+  | 'halfMoveClock'
+  | 'fullMoveNumber';
+
+/**
+ * How castling rights are written. X-FEN uses KQkq unless another rook
+ * stands further out on the same side, and so matches standard FEN for
+ * ordinary chess; Shredder-FEN always names the rook's file.
+ */
+export type CastlingNotation = 'xfen' | 'shredder';
+
+/**
+ * Error thrown for a malformed FEN string or an impossible position.
+ * Names the offending field and the character position in the input.
+ */
+export class FENParseError extends Error {
+  readonly field: FENField;
+  readonly position: number;
+
+  constructor(message: string, field: FENField, position: number) {
+    super(`Invalid FEN ${field} at position ${position}: ${message}`);
+    this.name = 'FENParseError';
+    this.field = field;
+    this.position = position;
+  }
+}
+
 /**
  * Handles FEN string parsing and generation.
  */
@@ -33,43 +67,345 @@ export class FENParser {
     [PieceType.Pawn]: 'p'
   };
 
-  static parse(fen: string): ParsedFEN {
-    const parts = fen.split(' ');
-    const [position, activeColor, castling, enPassant, halfMove, fullMove] = parts;
+  private static readonly FIELDS: readonly FENField[] = [
+    'placement', 'activeColor', 'castling', 'enPassant', 'halfMoveClock', 'fullMoveNumber'
+  ];
+
+  // Castling letter -> right, plus the king and rook squares it requires
+  private static readonly CASTLING_CHARS: Record<string, [keyof CastlingRights, Square, Square]> = {
+    'K': ['whiteKingside', 'e1', 'h1'],
+    'Q': ['whiteQueenside', 'e1', 'a1'],
+    'k': ['blackKingside', 'e8', 'h8'],
+    'q': ['blackQueenside', 'e8', 'a8']
+  };
+
+  /**
+   * Parse and validate a FEN string. In Chess960 mode the castling field may
+   * use X-FEN or Shredder-FEN and the king and rooks may start on any file.
+   * @throws FENParseError if any field is malformed or the position is impossible
+   */
+  static parse(fen: string, chess960 = false): ParsedFEN {
+    const fields = this.splitFields(fen);
+    const [placement, activeColor, castling, enPassant, halfMove, fullMove] = fields;
+
+    const { pieces, offsets } = this.parsePlacement(placement.value, placement.offset);
+    const color = this.parseActiveColor(activeColor.value, activeColor.offset);
+    const enPassantSquare = this.parseEnPassant(enPassant.value, enPassant.offset);
+    const halfMoveClock = this.parseCounter(halfMove.value, halfMove.offset, 'halfMoveClock', 0);
+    const fullMoveNumber = this.parseCounter(fullMove.value, fullMove.offset, 'fullMoveNumber', 1);
+
+    this.validatePieces(pieces, color, fields, offsets);
+
+    const parsed: ParsedFEN = {
+      pieces,
+      activeColor: color,
+      ...this.parseCastling(castling, pieces, chess960),
+      enPassantSquare,
+      halfMoveClock,
+      fullMoveNumber
+    };
+
+    this.validateEnPassant(parsed, enPassant);
+    return parsed;
+  }
+
+  /**
+   * Lowercase FEN letter for a piece type, e.g. "n" for a knight.
+   */
+  static pieceChar(type: PieceType): string {
+    return this.PIECE_TYPE_MAP[type];
+  }
+
+  // ============ Field Parsing ============
+
+  private static splitFields(fen: string): { value: string; offset: number }[] {
+    const fields: { value: string; offset: number }[] = [];
+    const pattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(fen)) !== null) {
+      fields.push({ value: match[0], offset: match.index });
+    }
+
+    if (fields.length < this.FIELDS.length) {
+      const missing = this.FIELDS[fields.length];
+      throw new FENParseError(`missing field, expected 6 fields but found ${fields.length}`, missing, fen.length);
+    }
+    if (fields.length > this.FIELDS.length) {
+      throw new FENParseError('unexpected extra field', 'fullMoveNumber', fields[this.FIELDS.length].offset);
+    }
 
+    return fields;
+  }
+
+  /**
+   * Parse piece placement, recording the character offset of every piece
+   * so position-level errors can point back into the input.
+   */
+  private static parsePlacement(
+    placement: string,
+    offset: number
+  ): { pieces: Map<Square, Piece>; offsets: Map<Square, number> } {
     const pieces = new Map<Square, Piece>();
-    const ranks = position.split('/');
+    const offsets = new Map<Square, number>();
+    const ranks = placement.split('/');
+
+    if (ranks.length !== 8) {
+      throw new FENParseError(`expected 8 ranks but found ${ranks.length}`, 'placement', offset);
+    }
 
+    let charOffset = offset;
     for (let rankIdx = 7; rankIdx >= 0; rankIdx--) {
+      const rankText = ranks[7 - rankIdx];
       let fileIdx = 0;
-      for (const char of ranks[7 - rankIdx]) {
-        if (/\d/.test(char)) {
+      let previousWasDigit = false;
+
+      if (rankText.length === 0) {
+        throw new FENParseError(`rank ${rankIdx + 1} is empty`, 'placement', charOffset);
+      }
+
+      for (const char of rankText) {
+        if (/[1-8]/.test(char)) {
+          if (previousWasDigit) {
+            throw new FENParseError(`consecutive empty-square counts in rank ${rankIdx + 1}`, 'placement', charOffset);
+          }
           fileIdx += parseInt(char);
+          previousWasDigit = true;
         } else {
-          const color = char === char.toUpperCase() ? Color.White : Color.Black;
           const pieceType = this.PIECE_CHAR_MAP[char.toLowerCase()];
-          const square = SquareUtils.fromIndex(
-            SquareUtils.fileRankToIndex(fileIdx, rankIdx)
-          );
-          pieces.set(square, { type: pieceType, color });
+          if (!pieceType) {
+            throw new FENParseError(`unknown piece character "${char}"`, 'placement', charOffset);
+          }
+          if (fileIdx < 8) {
+            const color = char === char.toUpperCase() ? Color.White : Color.Black;
+            const square = SquareUtils.fromIndex(
+              SquareUtils.fileRankToIndex(fileIdx, rankIdx)
+            );
+            pieces.set(square, { type: pieceType, color });
+            offsets.set(square, charOffset);
+          }
           fileIdx++;
+          previousWasDigit = false;
         }
+
+        if (fileIdx > 8) {
+          throw new FENParseError(`rank ${rankIdx + 1} describes more than 8 squares`, 'placement', charOffset);
+        }
+        charOffset++;
+      }
+
+      if (fileIdx < 8) {
+        throw new FENParseError(`rank ${rankIdx + 1} describes only ${fileIdx} squares`, 'placement', charOffset - 1);
       }
+      charOffset++; // separator
     }
 
-    return {
-      pieces,
-      activeColor: activeColor === 'w' ? Color.White : Color.Black,
-      castlingRights: {
-        whiteKingside: castling.includes('K'),
-        whiteQueenside: castling.includes('Q'),
-        blackKingside: castling.includes('k'),
-        blackQueenside: castling.includes('q')
-      },
-      enPassantSquare: enPassant === '-' ? null : enPassant as Square,
-      halfMoveClock: parseInt(halfMove) || 0,
-      fullMoveNumber: parseInt(fullMove) || 1
+    return { pieces, offsets };
+  }
+
+  private static parseActiveColor(value: string, offset: number): Color {
+    if (value === 'w') return Color.White;
+    if (value === 'b') return Color.Black;
+    throw new FENParseError(`expected "w" or "b" but found "${value}"`, 'activeColor', offset);
+  }
+
+  /**
+   * Resolve castling rights and the file of each castling rook, checking
+   * that the king and rook each right needs are in place.
+   */
+  private static parseCastling(
+    field: { value: string; offset: number },
+    pieces: Map<Square, Piece>,
+    chess960: boolean
+  ): { castlingRights: CastlingRights; castlingRookFiles: CastlingRookFiles } {
+    const castlingRights: CastlingRights = {
+      whiteKingside: false,
+      whiteQueenside: false,
+      blackKingside: false,
+      blackQueenside: false
     };
+    const castlingRookFiles = { ...CastlingHandler.STANDARD_ROOK_FILES };
+
+    if (field.value === '-') return { castlingRights, castlingRookFiles };
+
+    for (let i = 0; i < field.value.length; i++) {
+      const char = field.value[i];
+      const position = field.offset + i;
+      const [right, rookFile] = chess960 ?
+        this.resolveChess960Right(char, position, pieces) :
+        this.resolveStandardRight(char, position, pieces);
+
+      if (castlingRights[right]) {
+        throw new FENParseError(`duplicate castling right "${char}"`, 'castling', position);
+      }
+      castlingRights[right] = true;
+      castlingRookFiles[right] = rookFile;
+    }
+
+    return { castlingRights, castlingRookFiles };
+  }
+
+  private static resolveStandardRight(
+    char: string,
+    position: number,
+    pieces: Map<Square, Piece>
+  ): [keyof CastlingRights, number] {
+    const entry = this.CASTLING_CHARS[char];
+    if (!entry) {
+      const hint = /^[a-h]$/i.test(char) ? ' (file letters are only valid in Chess960)' : '';
+      throw new FENParseError(`unknown castling character "${char}"${hint}`, 'castling', position);
+    }
+
+    const [right, kingSquare, rookSquare] = entry;
+    const color = char === char.toUpperCase() ? Color.White : Color.Black;
+    this.requirePiece(pieces, kingSquare, PieceType.King, color, char, position);
+    this.requirePiece(pieces, rookSquare, PieceType.Rook, color, char, position);
+
+    return [right, SquareUtils.getFile(rookSquare)];
+  }
+
+  /**
+   * K/Q name the outermost rook on that side of the king (X-FEN); a file
+   * letter names the rook on that file (Shredder-FEN, or X-FEN when an
+   * inner rook castles).
+   */
+  private static resolveChess960Right(
+    char: string,
+    position: number,
+    pieces: Map<Square, Piece>
+  ): [keyof CastlingRights, number] {
+    if (!/^[KQA-H]$/i.test(char)) {
+      throw new FENParseError(`unknown castling character "${char}"`, 'castling', position);
+    }
+
+    const color = char === char.toUpperCase() ? Color.White : Color.Black;
+    const rank = color === Color.White ? 0 : 7;
+    const pieceAt = (file: number) => pieces.get(SquareUtils.fromIndex(SquareUtils.fileRankToIndex(file, rank)));
+    const isOwn = (file: number, type: PieceType) => pieceAt(file)?.type === type && pieceAt(file)?.color === color;
+
+    const kingFile = [0, 1, 2, 3, 4, 5, 6, 7].find(file => isOwn(file, PieceType.King));
+    if (kingFile === undefined) {
+      throw new FENParseError(`castling right "${char}" requires the ${color} king on its back rank`, 'castling', position);
+    }
+
+    let rookFile: number | undefined;
+    const upper = char.toUpperCase();
+    if (upper === 'K') {
+      for (let file = 7; file > kingFile && rookFile === undefined; file--) {
+        if (isOwn(file, PieceType.Rook)) rookFile = file;
+      }
+    } else if (upper === 'Q') {
+      for (let file = 0; file < kingFile && rookFile === undefined; file++) {
+        if (isOwn(file, PieceType.Rook)) rookFile = file;
+      }
+    } else {
+      rookFile = upper.charCodeAt(0) - 'A'.charCodeAt(0);
+      if (!isOwn(rookFile, PieceType.Rook)) rookFile = undefined;
+    }
+
+    if (rookFile === undefined) {
+      throw new FENParseError(`castling right "${char}" has no ${color} rook to castle with`, 'castling', position);
+    }
+
+    return [CastlingHandler.rightFor(color, rookFile > kingFile ? 'kingside' : 'queenside'), rookFile];
+  }
+
+  private static requirePiece(
+    pieces: Map<Square, Piece>,
+    square: Square,
+    type: PieceType,
+    color: Color,
+    char: string,
+    position: number
+  ): void {
+    const piece = pieces.get(square);
+    if (piece?.type !== type || piece.color !== color) {
+      const article = type === PieceType.King ? 'the' : 'a';
+      throw new FENParseError(`castling right "${char}" requires ${article} ${color} ${type} on ${square}`, 'castling', position);
+    }
+  }
+
+  private static parseEnPassant(value: string, offset: number): Square | null {
+    if (value === '-') return null;
+    if (!/^[a-h][36]$/.test(value)) {
+      throw new FENParseError(`"${value}" is not a square on the 3rd or 6th rank`, 'enPassant', offset);
+    }
+    return value as Square;
+  }
+
+  private static parseCounter(value: string, offset: number, field: FENField, minimum: number): number {
+    if (!/^\d+$/.test(value) || parseInt(value) < minimum) {
+      throw new FENParseError(`expected an integer of at least ${minimum} but found "${value}"`, field, offset);
+    }
+    return parseInt(value);
+  }
+
+  // ============ Position Validation ============
+
+  private static validatePieces(
+    pieces: Map<Square, Piece>,
+    activeColor: Color,
+    fields: { value: string; offset: number }[],
+    offsets: Map<Square, number>
+  ): void {
+    const placementOffset = fields[0].offset;
+    const squares: (Piece | null)[] = new Array(64).fill(null);
+    const kings = new Map<Color, number[]>([[Color.White, []], [Color.Black, []]]);
+
+    for (const [square, piece] of pieces) {
+      const index = SquareUtils.toIndex(square);
+      squares[index] = piece;
+
+      if (piece.type === PieceType.King) {
+        kings.get(piece.color)!.push(index);
+      }
+
+      const rank = SquareUtils.getRank(square);
+      if (piece.type === PieceType.Pawn && (rank === 0 || rank === 7)) {
+        throw new FENParseError(`${piece.color} pawn on back rank square ${square}`, 'placement', offsets.get(square)!);
+      }
+    }
+
+    for (const [color, indices] of kings) {
+      if (indices.length !== 1) {
+        const position = indices.length > 1 ? offsets.get(SquareUtils.fromIndex(indices[1]))! : placementOffset;
+        throw new FENParseError(`expected exactly one ${color} king but found ${indices.length}`, 'placement', position);
+      }
+    }
+
+    const waitingColor = activeColor === Color.White ? Color.Black : Color.White;
+    if (AttackDetector.isSquareAttacked(squares, kings.get(waitingColor)![0], activeColor)) {
+      throw new FENParseError(`${waitingColor} is not to move but is in check`, 'activeColor', fields[1].offset);
+    }
+  }
+
+  /**
+   * The en passant square must be empty, on the side just moved's third
+   * rank, with that side's pawn in front of it and its start square empty.
+   */
+  private static validateEnPassant(parsed: ParsedFEN, field: { value: string; offset: number }): void {
+    const square = parsed.enPassantSquare;
+    if (!square) return;
+
+    const movedColor = parsed.activeColor === Color.White ? Color.Black : Color.White;
+    const expectedRank = movedColor === Color.White ? 2 : 5;
+    const direction = movedColor === Color.White ? 1 : -1;
+    const file = SquareUtils.getFile(square);
+    const rank = SquareUtils.getRank(square);
+
+    const pawnSquare = SquareUtils.fromIndex(SquareUtils.fileRankToIndex(file, rank + direction));
+    const startSquare = SquareUtils.fromIndex(SquareUtils.fileRankToIndex(file, rank - direction));
+    const pawn = parsed.pieces.get(pawnSquare);
+
+    if (rank !== expectedRank) {
+      throw new FENParseError(`${square} cannot be an en passant square with ${parsed.activeColor} to move`, 'enPassant', field.offset);
+    }
+    if (parsed.pieces.has(square) || parsed.pieces.has(startSquare)) {
+      throw new FENParseError(`${square} is occupied or the pawn's start square is not empty`, 'enPassant', field.offset);
+    }
+    if (pawn?.type !== PieceType.Pawn || pawn.color !== movedColor) {
+      throw new FENParseError(`no ${movedColor} pawn on ${pawnSquare} to capture en passant`, 'enPassant', field.offset);
+    }
   }
 
   static generate(
@@ -78,7 +414,9 @@ export class FENParser {
     castlingRights: CastlingRights,
     enPassantSquare: Square | null,
     halfMoveClock: number,
-    fullMoveNumber: number
+    fullMoveNumber: number,
+    castlingRookFiles: CastlingRookFiles = CastlingHandler.STANDARD_ROOK_FILES,
+    castlingNotation: CastlingNotation = 'xfen'
   ): string {
     let fen = '';
 
@@ -92,7 +430,7 @@ export class FENParser {
             fen += emptyCount;
             emptyCount = 0;
           }
-          let char = this.PIECE_TYPE_MAP[piece.type];
+          const char = this.PIECE_TYPE_MAP[piece.type];
           fen += piece.color === Color.White ? char.toUpperCase() : char;
         } else {
           emptyCount++;
@@ -106,11 +444,10 @@ export class FENParser {
     fen += ` ${activeColor === Color.White ? 'w' : 'b'}`;
 
     // Castling rights
-    let castling = '';
-    if (castlingRights.whiteKingside) castling += 'K';
-    if (castlingRights.whiteQueenside) castling += 'Q';
-    if (castlingRights.blackKingside) castling += 'k';
-    if (castlingRights.blackQueenside) castling += 'q';
+    const castling = (Object.keys(castlingRights) as (keyof CastlingRights)[])
+      .filter(right => castlingRights[right])
+      .map(right => this.castlingChar(squares, right, castlingRookFiles[right], castlingNotation))
+      .join('');
     fen += ` ${castling || '-'}`;
 
     // En passant, clocks
@@ -120,4 +457,31 @@ export class FENParser {
 
     return fen;
   }
-}
\ No newline at end of file
+
+  /**
+   * K/Q (k/q for black) when the rook is the outermost one on its side of
+   * the king under X-FEN, otherwise the rook's file letter.
+   */
+  private static castlingChar(
+    squares: (Piece | null)[],
+    right: keyof CastlingRights,
+    rookFile: number,
+    notation: CastlingNotation
+  ): string {
+    const color = right.startsWith('white') ? Color.White : Color.Black;
+    const kingside = right.endsWith('Kingside');
+    let char = String.fromCharCode('a'.charCodeAt(0) + rookFile);
+
+    if (notation === 'xfen') {
+      const rank = color === Color.White ? 0 : 7;
+      const outerFiles = kingside ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+      const outermost = outerFiles.find(file => {
+        const piece = squares[SquareUtils.fileRankToIndex(file, rank)];
+        return piece?.type === PieceType.Rook && piece.color === color;
+      });
+      if (outermost === rookFile) char = kingside ? 'k' : 'q';
+    }
+
+    return color === Color.White ? char.toUpperCase() : char;
+  }
+}
@@ -0,0 +1,79 @@
+import { Color, PieceType, SquareType } from './types';
+import type { Square } from './types';
+import { SquareUtils } from './square_utils';
+import type { BoardStateReader } from './board_state';
+
+/**
+ * Draws by material.
+ *
+ * A dead position, where neither side can checkmate by any sequence of legal
+ * moves, ends the game at once. A player who runs out of time only loses if
+ * the opponent could still checkmate; otherwise the game is drawn. Both are
+ * decided from material patterns rather than a search for helpmates, so a
+ * position is never called dead when a mate is still possible.
+ */
+export class InsufficientMaterial {
+  /**
+   * Whether the given side has enough material left to checkmate with
+   * some sequence of legal moves, however unlikely.
+   */
+  public static hasMatingMaterial(boardState: BoardStateReader, color: Color): boolean {
+    const opponent = color === Color.White ? Color.Black : Color.White;
+
+    if (boardState.findPieces(PieceType.Pawn, color).length > 0 ||
+      boardState.findPieces(PieceType.Rook, color).length > 0 ||
+      boardState.findPieces(PieceType.Queen, color).length > 0) {
+      return true;
+    }
+
+    const knights = boardState.findPieces(PieceType.Knight, color).length;
+    const bishops = boardState.findPieces(PieceType.Bishop, color).length;
+
+    if (knights > 0) {
+      // A lone knight mates only when the opponent has a piece that can hem in its own king
+      if (knights + bishops > 1) return true;
+      return InsufficientMaterial.countPieces(boardState, opponent, [
+        PieceType.Pawn, PieceType.Knight, PieceType.Bishop, PieceType.Rook
+      ]) > 0;
+    }
+
+    if (bishops > 0) {
+      // Bishops that all stand on one square colour can never cover the squares around a king
+      const allBishops = [
+        ...boardState.findPieces(PieceType.Bishop, Color.White),
+        ...boardState.findPieces(PieceType.Bishop, Color.Black)
+      ];
+      const squareTypes = new Set(allBishops.map(square => InsufficientMaterial.squareType(square)));
+      const blockers = InsufficientMaterial.countPieces(boardState, Color.White, [PieceType.Pawn, PieceType.Knight]) +
+        InsufficientMaterial.countPieces(boardState, Color.Black, [PieceType.Pawn, PieceType.Knight]);
+      return squareTypes.size > 1 || blockers > 0;
+    }
+
+    return false;
+  }
+
+  /**
+   * Neither side can checkmate, so the game is drawn immediately.
+   */
+  public static isDeadPosition(boardState: BoardStateReader): boolean {
+    return !InsufficientMaterial.hasMatingMaterial(boardState, Color.White) &&
+      !InsufficientMaterial.hasMatingMaterial(boardState, Color.Black);
+  }
+
+  /**
+   * Whether running out of time draws rather than loses, because the
+   * opponent of the flagged player could not checkmate.
+   */
+  public static isTimeoutDraw(boardState: BoardStateReader, flaggedColor: Color): boolean {
+    const opponent = flaggedColor === Color.White ? Color.Black : Color.White;
+    return !InsufficientMaterial.hasMatingMaterial(boardState, opponent);
+  }
+
+  public static squareType(square: Square): SquareType {
+    return (SquareUtils.getFile(square) + SquareUtils.getRank(square)) % 2 === 0 ? SquareType.Dark : SquareType.Light;
+  }
+
+  private static countPieces(boardState: BoardStateReader, color: Color, types: PieceType[]): number {
+    return types.reduce((count, type) => count + boardState.findPieces(type, color).length, 0);
+  }
+}
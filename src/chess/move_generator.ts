@@ -3,6 +3,7 @@
 import { Color, PieceType, } from './types';
 import type { Piece, Move, Square } from './types';
 import { SquareUtils } from './square_utils';
+import { Bitboard, type BitboardPosition, type CheckInfo } from './bitboard';
 
 export class MoveGenerator {
   // Pre-computed attack patterns for speed
@@ -24,6 +25,14 @@ export class MoveGenerator {
   private static readonly BISHOP_DIRECTIONS: [number, number][] = [
     [-1, -1], [-1, 1], [1, -1], [1, 1]
   ];
+
+  // Reused output for bitboard attack sets so generation does not allocate them
+  private static readonly bitboardScratch = new Uint32Array(2);
+
+  // Pieces a pawn may promote to, in the order moves are emitted
+  public static readonly PROMOTION_PIECES: readonly PieceType[] = [
+    PieceType.Queen, PieceType.Rook, PieceType.Bishop, PieceType.Knight
+  ];
   
   static generateMoves(
     piece: Piece,
@@ -52,6 +61,159 @@ export class MoveGenerator {
     }
   }
   
+  /**
+   * Legal moves for a piece, excluding castling. Checkers and pins are worked
+   * out once per position in checkInfo, so only king moves and en passant
+   * captures need an individual safety test.
+   */
+  static generateLegalMoves(
+    piece: Piece,
+    fromSquare: Square,
+    position: BitboardPosition,
+    enPassantSquare: Square | null,
+    checkInfo: CheckInfo
+  ): Move[] {
+    const from = SquareUtils.toIndex(fromSquare);
+    const occupiedLo = position.occupiedLo();
+    const occupiedHi = position.occupiedHi();
+
+    if (piece.type === PieceType.King) {
+      return this.generateBitboardMoves(piece, fromSquare, position, null).filter(move => {
+        const to = SquareUtils.toIndex(move.endSquare);
+        const captured = Bitboard.has(occupiedLo, occupiedHi, to) ? to : -1;
+        return !position.leavesKingInCheck(from, to, captured, piece.color, from);
+      });
+    }
+
+    // Only the king can answer a double check
+    if (checkInfo.checkerCount > 1) return [];
+
+    let [allowedLo, allowedHi] = checkInfo.evasionMask;
+    const pinRay = checkInfo.pinRays.get(from);
+    if (pinRay) {
+      allowedLo &= pinRay[0];
+      allowedHi &= pinRay[1];
+    }
+
+    const moves = this.generateBitboardMoves(piece, fromSquare, position, null, allowedLo, allowedHi);
+
+    // En passant removes two pieces from their squares, which can expose the king along a rank
+    if (piece.type === PieceType.Pawn && enPassantSquare) {
+      const to = SquareUtils.toIndex(enPassantSquare);
+      const attacks = Bitboard.pawnAttacks(piece.color);
+      const captured = to + (piece.color === Color.White ? -8 : 8);
+      if (Bitboard.has(attacks[from * 2], attacks[from * 2 + 1], to) &&
+        !position.leavesKingInCheck(from, to, captured, piece.color, checkInfo.kingIndex)) {
+        moves.push(this.createMove(piece, fromSquare, enPassantSquare));
+      }
+    }
+
+    return moves;
+  }
+
+  /**
+   * Pseudo-legal moves for a piece using bitboards and precomputed attack
+   * tables. Produces the same set of moves as generateMoves, limited to
+   * destinations in the allowed bitboard.
+   */
+  static generateBitboardMoves(
+    piece: Piece,
+    fromSquare: Square,
+    position: BitboardPosition,
+    enPassantSquare: Square | null,
+    allowedLo = -1,
+    allowedHi = -1
+  ): Move[] {
+    const from = SquareUtils.toIndex(fromSquare);
+    const [ownLo, ownHi] = position.occupancy(piece.color);
+    const targets = this.bitboardScratch;
+
+    switch (piece.type) {
+      case PieceType.Pawn:
+        return this.generateBitboardPawnMoves(piece, fromSquare, position, enPassantSquare, allowedLo, allowedHi);
+      case PieceType.Knight:
+        targets[0] = Bitboard.KNIGHT_ATTACKS[from * 2];
+        targets[1] = Bitboard.KNIGHT_ATTACKS[from * 2 + 1];
+        break;
+      case PieceType.King:
+        targets[0] = Bitboard.KING_ATTACKS[from * 2];
+        targets[1] = Bitboard.KING_ATTACKS[from * 2 + 1];
+        break;
+      case PieceType.Bishop:
+        Bitboard.slidingAttacks(from, Bitboard.BISHOP_DIRECTIONS, position.occupiedLo(), position.occupiedHi(), targets);
+        break;
+      case PieceType.Rook:
+        Bitboard.slidingAttacks(from, Bitboard.ROOK_DIRECTIONS, position.occupiedLo(), position.occupiedHi(), targets);
+        break;
+      case PieceType.Queen:
+        Bitboard.slidingAttacks(from, Bitboard.QUEEN_DIRECTIONS, position.occupiedLo(), position.occupiedHi(), targets);
+        break;
+    }
+
+    const moves: Move[] = [];
+    this.pushTargets(moves, piece, fromSquare, targets[0] & ~ownLo & allowedLo, 0);
+    this.pushTargets(moves, piece, fromSquare, targets[1] & ~ownHi & allowedHi, 32);
+    return moves;
+  }
+
+  private static generateBitboardPawnMoves(
+    piece: Piece,
+    fromSquare: Square,
+    position: BitboardPosition,
+    enPassantSquare: Square | null,
+    allowedLo: number,
+    allowedHi: number
+  ): Move[] {
+    const moves: Move[] = [];
+    const from = SquareUtils.toIndex(fromSquare);
+    const rank = from >> 3;
+    const step = piece.color === Color.White ? 8 : -8;
+    const startRank = piece.color === Color.White ? 1 : 6;
+    const occupiedLo = position.occupiedLo();
+    const occupiedHi = position.occupiedHi();
+
+    // Pushes; a pawn is never on its last rank, so one step forward is always on the board
+    const single = from + step;
+    if (!Bitboard.has(occupiedLo, occupiedHi, single)) {
+      if (Bitboard.has(allowedLo, allowedHi, single)) {
+        this.pushPawnMove(moves, piece, fromSquare, SquareUtils.fromIndex(single));
+      }
+      const double = single + step;
+      if (rank === startRank && !Bitboard.has(occupiedLo, occupiedHi, double) &&
+        Bitboard.has(allowedLo, allowedHi, double)) {
+        moves.push(this.createMove(piece, fromSquare, SquareUtils.fromIndex(double)));
+      }
+    }
+
+    // Captures, including en passant onto the empty square behind a double-pushed pawn
+    const attacks = Bitboard.pawnAttacks(piece.color);
+    const [enemyLo, enemyHi] = position.occupancy(piece.color === Color.White ? Color.Black : Color.White);
+    let lo = attacks[from * 2] & enemyLo;
+    let hi = attacks[from * 2 + 1] & enemyHi;
+
+    if (enPassantSquare) {
+      const ep = SquareUtils.toIndex(enPassantSquare);
+      if (Bitboard.has(attacks[from * 2], attacks[from * 2 + 1], ep)) {
+        if (ep < 32) lo |= 1 << ep; else hi |= 1 << (ep - 32);
+      }
+    }
+
+    for (lo &= allowedLo; lo !== 0; lo &= lo - 1) {
+      this.pushPawnMove(moves, piece, fromSquare, SquareUtils.fromIndex(31 - Math.clz32(lo & -lo)));
+    }
+    for (hi &= allowedHi; hi !== 0; hi &= hi - 1) {
+      this.pushPawnMove(moves, piece, fromSquare, SquareUtils.fromIndex(63 - Math.clz32(hi & -hi)));
+    }
+
+    return moves;
+  }
+
+  private static pushTargets(moves: Move[], piece: Piece, from: Square, half: number, base: number): void {
+    for (let bits = half; bits !== 0; bits &= bits - 1) {
+      moves.push(this.createMove(piece, from, SquareUtils.fromIndex(base + 31 - Math.clz32(bits & -bits))));
+    }
+  }
+
   private static generatePawnMoves(
     piece: Piece,
     fromSquare: Square,
@@ -70,7 +232,7 @@ export class MoveGenerator {
     if (SquareUtils.isValidFileRank(file, forwardRank)) {
       const forwardIndex = SquareUtils.fileRankToIndex(file, forwardRank);
       if (!boardState[forwardIndex]) {
-        moves.push(this.createMove(piece, fromSquare, SquareUtils.fromIndex(forwardIndex)));
+        this.pushPawnMove(moves, piece, fromSquare, SquareUtils.fromIndex(forwardIndex));
         
         // Double forward from starting position
         if (rank === startRank) {
@@ -95,7 +257,7 @@ export class MoveGenerator {
         
         // Normal capture
         if (targetPiece && targetPiece.color !== piece.color) {
-          moves.push(this.createMove(piece, fromSquare, targetSquare));
+          this.pushPawnMove(moves, piece, fromSquare, targetSquare);
         }
         
         // En passant capture
@@ -107,6 +269,22 @@ export class MoveGenerator {
     
     return moves;
   }
+
+  /**
+   * Add a pawn move, expanding it into one move per promotion piece
+   * when the pawn reaches the last rank.
+   */
+  private static pushPawnMove(moves: Move[], piece: Piece, from: Square, to: Square): void {
+    const lastRank = piece.color === Color.White ? 7 : 0;
+    if (SquareUtils.getRank(to) !== lastRank) {
+      moves.push(this.createMove(piece, from, to));
+      return;
+    }
+
+    for (const promotion of this.PROMOTION_PIECES) {
+      moves.push(this.createMove(piece, from, to, promotion));
+    }
+  }
   
   private static generateKnightMoves(
     piece: Piece,
@@ -199,12 +377,14 @@ export class MoveGenerator {
     return moves;
   }
   
-  private static createMove(piece: Piece, from: Square, to: Square): Move {
-    return {
+  private static createMove(piece: Piece, from: Square, to: Square, promotion?: PieceType): Move {
+    const move: Move = {
       piece: piece.type,
       color: piece.color,
       startSquare: from,
       endSquare: to
     };
+    if (promotion) move.promotion = promotion;
+    return move;
   }
 }
\ No newline at end of file
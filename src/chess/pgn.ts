@@ -0,0 +1,452 @@
+import type { Move, GameResult } from './types';
+import { Color, Termination } from './types';
+import { Board } from './board';
+import { SANParser, SANParseError } from './san';
+
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PGNMove {
+  san: string;
+  move: Move;
+  nags: number[];
+  comment?: string;
+}
+
+export interface PGNGame {
+  tags: Record<string, string>;
+  startingFen: string;
+  moves: PGNMove[];
+  result: PGNResult;
+  /** Comment that appears before the first move */
+  initialComment?: string;
+}
+
+/**
+ * Error thrown for malformed PGN or a game containing an illegal move.
+ * For move errors, moveNumber/color/san identify the offending move.
+ */
+export class PGNParseError extends Error {
+  readonly moveNumber?: number;
+  readonly color?: Color;
+  readonly san?: string;
+
+  constructor(message: string, position?: { moveNumber: number; color: Color; san: string }) {
+    super(position
+      ? `${message} at move ${position.moveNumber}${position.color === Color.White ? '.' : '...'} ${position.san}`
+      : message);
+    this.name = 'PGNParseError';
+    this.moveNumber = position?.moveNumber;
+    this.color = position?.color;
+    this.san = position?.san;
+  }
+}
+
+type PGNToken =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'nag'; value: number }
+  | { type: 'result'; value: PGNResult }
+  | { type: 'san'; text: string }
+  | { type: 'variationStart' }
+  | { type: 'variationEnd' };
+
+/**
+ * Handles PGN parsing and generation on top of Board and SAN.
+ */
+export class PGNParser {
+  private static readonly STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+  // Seven tag roster, always exported first and in this order
+  private static readonly SEVEN_TAG_ROSTER: [string, string][] = [
+    ['Event', '?'],
+    ['Site', '?'],
+    ['Date', '????.??.??'],
+    ['Round', '?'],
+    ['White', '?'],
+    ['Black', '?'],
+    ['Result', '*']
+  ];
+
+  private static readonly RESULTS: readonly PGNResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+  // Traditional suffix annotations and their NAG equivalents
+  private static readonly SUFFIX_NAGS: Record<string, number> = {
+    '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6
+  };
+
+  private static readonly MAX_LINE_LENGTH = 80;
+
+  // ============ Parsing ============
+
+  /**
+   * Parse a single game.
+   * @throws PGNParseError if the PGN is malformed or contains an illegal move
+   */
+  static parse(pgn: string): PGNGame {
+    const games = this.parseAll(pgn);
+    if (games.length === 0) {
+      throw new PGNParseError('No game found in PGN');
+    }
+    return games[0];
+  }
+
+  /**
+   * Parse every game in a PGN database.
+   * @throws PGNParseError if any game is malformed or contains an illegal move
+   */
+  static parseAll(pgn: string): PGNGame[] {
+    const tokens = this.tokenize(pgn);
+    const games: PGNGame[] = [];
+    let index = 0;
+
+    while (index < tokens.length) {
+      const { game, nextIndex } = this.parseGame(tokens, index);
+      games.push(game);
+      index = nextIndex;
+    }
+
+    return games;
+  }
+
+  /**
+   * Replay a parsed game, returning the final position with its move history.
+   * @throws PGNParseError if a move is refused, such as one played after the game ended
+   */
+  static toBoard(game: PGNGame): Board {
+    const board = Board.fromFEN(game.startingFen, this.isChess960(game.tags));
+    for (const { san, move } of game.moves) {
+      this.playMove(board, move, san);
+    }
+    return board;
+  }
+
+  // ============ Generation ============
+
+  /**
+   * Build a game from a board's move history. The board itself is not modified.
+   */
+  static fromBoard(board: Board, tags: Record<string, string> = {}, result?: PGNResult): PGNGame {
+    const start = board.clone();
+    start.withdrawResult();
+    while (start.undo()) {
+      // rewind to the starting position
+    }
+
+    const replay = start.clone();
+    const moves: PGNMove[] = board.getHistory().map(({ move }) => {
+      const san = SANParser.generate(replay, move);
+      replay.executeMove(move);
+      return { san, move, nags: [] };
+    });
+
+    const gameResult = board.getResult();
+    const exportedTags = { ...tags };
+    if (board.isChess960()) exportedTags.Variant = tags.Variant ?? 'Chess960';
+    if (gameResult) exportedTags.Termination = tags.Termination ?? this.terminationTag(gameResult);
+
+    return {
+      tags: exportedTags,
+      startingFen: start.toFEN(),
+      moves,
+      result: result ?? this.resultFromBoard(gameResult)
+    };
+  }
+
+  /**
+   * Generate PGN text for a game in export format.
+   */
+  static generate(game: PGNGame): string {
+    const tags = this.exportTags(game);
+    const tagSection = Object.entries(tags)
+      .map(([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+      .join('\n');
+
+    return `${tagSection}\n\n${this.wrap(this.movetextTokens(game))}\n`;
+  }
+
+  // ============ Private Parsing ============
+
+  private static parseGame(tokens: PGNToken[], startIndex: number): { game: PGNGame; nextIndex: number } {
+    const tags: Record<string, string> = {};
+    let index = startIndex;
+
+    while (index < tokens.length && tokens[index].type === 'tag') {
+      const tag = tokens[index] as { type: 'tag'; name: string; value: string };
+      tags[tag.name] = tag.value;
+      index++;
+    }
+
+    const startingFen = tags.FEN ?? this.STANDARD_FEN;
+    let board: Board;
+    try {
+      board = Board.fromFEN(startingFen, this.isChess960(tags));
+    } catch (error) {
+      throw new PGNParseError(`Invalid FEN tag "${startingFen}": ${(error as Error).message}`);
+    }
+
+    const moves: PGNMove[] = [];
+    let initialComment: string | undefined;
+    let result: PGNResult | undefined;
+    let variationDepth = 0;
+
+    for (; index < tokens.length; index++) {
+      const token = tokens[index];
+
+      if (token.type === 'tag') {
+        if (variationDepth > 0) throw new PGNParseError('Unterminated variation before next game');
+        break;
+      }
+
+      if (token.type === 'variationStart') {
+        variationDepth++;
+        continue;
+      }
+      if (token.type === 'variationEnd') {
+        if (variationDepth === 0) throw new PGNParseError('Unexpected ")" outside a variation');
+        variationDepth--;
+        continue;
+      }
+      // Variations are skipped; only the main line is replayed
+      if (variationDepth > 0) continue;
+
+      if (token.type === 'result') {
+        result = token.value;
+        index++;
+        break;
+      }
+
+      const lastMove = moves[moves.length - 1];
+
+      if (token.type === 'comment') {
+        if (lastMove) {
+          lastMove.comment = lastMove.comment ? `${lastMove.comment} ${token.text}` : token.text;
+        } else {
+          initialComment = initialComment ? `${initialComment} ${token.text}` : token.text;
+        }
+        continue;
+      }
+
+      if (token.type === 'nag') {
+        if (!lastMove) throw new PGNParseError(`NAG $${token.value} appears before any move`);
+        lastMove.nags.push(token.value);
+        continue;
+      }
+
+      moves.push(this.playSAN(board, token.text));
+    }
+
+    if (variationDepth > 0) {
+      throw new PGNParseError('Unterminated variation');
+    }
+
+    const game: PGNGame = {
+      tags,
+      startingFen,
+      moves,
+      result: result ?? this.toResult(tags.Result) ?? '*'
+    };
+    if (initialComment) game.initialComment = initialComment;
+
+    return { game, nextIndex: index };
+  }
+
+  private static playSAN(board: Board, token: string): PGNMove {
+    const [, san, suffix] = /^(.*?)([!?]{1,2})?$/.exec(token)!;
+    const { fullMoveNumber, activeColor } = board.getGameState();
+
+    let move: Move;
+    try {
+      move = SANParser.parse(board, san);
+    } catch (error) {
+      const reason = error instanceof SANParseError ? error.message : String(error);
+      throw new PGNParseError(reason, { moveNumber: fullMoveNumber, color: activeColor, san });
+    }
+
+    this.playMove(board, move, san);
+    const nags = suffix && suffix in this.SUFFIX_NAGS ? [this.SUFFIX_NAGS[suffix]] : [];
+    return { san, move, nags };
+  }
+
+  /**
+   * Play a move on the board, naming it if the board refuses it. Dead
+   * positions, fivefold repetition and the 75-move rule end a game without
+   * a claim, so moves recorded after one of them cannot be played.
+   */
+  private static playMove(board: Board, move: Move, san: string): void {
+    const { fullMoveNumber, activeColor } = board.getGameState();
+    if (board.executeMove(move)) return;
+
+    const result = board.getResult();
+    const reason = result
+      ? `Game already ended by ${result.termination.replace(/_/g, ' ')}`
+      : `Illegal move "${san}"`;
+    throw new PGNParseError(reason, { moveNumber: fullMoveNumber, color: activeColor, san });
+  }
+
+  private static tokenize(pgn: string): PGNToken[] {
+    const tokens: PGNToken[] = [];
+    // Lines starting with % are escape lines and ignored entirely
+    const text = pgn.split(/\r?\n/).filter(line => !line.startsWith('%')).join('\n');
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '[') {
+        const match = /^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(i));
+        if (!match) {
+          throw new PGNParseError(`Malformed tag pair near "${text.slice(i, i + 30)}"`);
+        }
+        tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+        i += match[0].length;
+      } else if (char === '{') {
+        const end = text.indexOf('}', i);
+        if (end === -1) throw new PGNParseError('Unterminated comment');
+        tokens.push({ type: 'comment', text: text.slice(i + 1, end).trim().replace(/\s+/g, ' ') });
+        i = end + 1;
+      } else if (char === ';') {
+        const end = text.indexOf('\n', i);
+        const stop = end === -1 ? text.length : end;
+        tokens.push({ type: 'comment', text: text.slice(i + 1, stop).trim() });
+        i = stop;
+      } else if (char === '(') {
+        tokens.push({ type: 'variationStart' });
+        i++;
+      } else if (char === ')') {
+        tokens.push({ type: 'variationEnd' });
+        i++;
+      } else {
+        const word = /^[^\s{}();[\]]+/.exec(text.slice(i))![0];
+        i += word.length;
+        tokens.push(...this.classifyWord(word));
+      }
+    }
+
+    return tokens;
+  }
+
+  private static classifyWord(word: string): PGNToken[] {
+    const result = this.toResult(word);
+    if (result) return [{ type: 'result', value: result }];
+
+    if (/^\$\d+$/.test(word)) {
+      return [{ type: 'nag', value: parseInt(word.slice(1)) }];
+    }
+
+    // Move numbers may be glued to the move: "12.e4", "12...Nf6"
+    const withoutNumber = word.replace(/^\d+\.+/, '');
+    if (withoutNumber === '') return [];
+    if (/^\d+$/.test(withoutNumber)) {
+      throw new PGNParseError(`Unexpected token "${word}"`);
+    }
+
+    return [{ type: 'san', text: withoutNumber }];
+  }
+
+  /**
+   * Chess960 games are marked with a Variant tag such as "Chess960" or "Fischerandom".
+   */
+  private static isChess960(tags: Record<string, string>): boolean {
+    return /960|fischer ?r?andom/i.test(tags.Variant ?? '');
+  }
+
+  private static toResult(value?: string): PGNResult | undefined {
+    return (this.RESULTS as readonly string[]).includes(value ?? '') ? value as PGNResult : undefined;
+  }
+
+  // ============ Private Generation ============
+
+  private static exportTags(game: PGNGame): Record<string, string> {
+    const tags: Record<string, string> = {};
+
+    for (const [name, fallback] of this.SEVEN_TAG_ROSTER) {
+      tags[name] = game.tags[name] ?? fallback;
+    }
+    tags.Result = game.result;
+
+    for (const [name, value] of Object.entries(game.tags)) {
+      if (!(name in tags) && name !== 'SetUp' && name !== 'FEN') {
+        tags[name] = value;
+      }
+    }
+
+    if (game.startingFen !== this.STANDARD_FEN || this.isChess960(game.tags)) {
+      tags.SetUp = '1';
+      tags.FEN = game.startingFen;
+    }
+
+    return tags;
+  }
+
+  private static movetextTokens(game: PGNGame): string[] {
+    const tokens: string[] = [];
+    const start = Board.fromFEN(game.startingFen, this.isChess960(game.tags)).getGameState();
+    let moveNumber = start.fullMoveNumber;
+    let color = start.activeColor;
+    let needsNumber = true;
+
+    if (game.initialComment) tokens.push(`{${game.initialComment}}`);
+
+    for (const { san, nags, comment } of game.moves) {
+      if (color === Color.White) {
+        tokens.push(`${moveNumber}.`);
+      } else if (needsNumber) {
+        tokens.push(`${moveNumber}...`);
+      }
+
+      tokens.push(san);
+      tokens.push(...nags.map(nag => `$${nag}`));
+      needsNumber = false;
+
+      if (comment) {
+        tokens.push(`{${comment}}`);
+        needsNumber = true;
+      }
+
+      if (color === Color.Black) moveNumber++;
+      color = color === Color.White ? Color.Black : Color.White;
+    }
+
+    tokens.push(game.result);
+    return tokens;
+  }
+
+  private static wrap(tokens: string[]): string {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const token of tokens) {
+      if (line && line.length + 1 + token.length > this.MAX_LINE_LENGTH) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = line ? `${line} ${token}` : token;
+      }
+    }
+    if (line) lines.push(line);
+
+    return lines.join('\n');
+  }
+
+  private static resultFromBoard(gameResult: GameResult | null): PGNResult {
+    if (!gameResult) return '*';
+    if (gameResult.winner) return gameResult.winner === Color.White ? '1-0' : '0-1';
+    return '1/2-1/2';
+  }
+
+  /**
+   * Value for the supplemental Termination tag.
+   */
+  private static terminationTag(gameResult: GameResult): string {
+    switch (gameResult.termination) {
+      case Termination.Timeout:
+        return 'time forfeit';
+      case Termination.Abandonment:
+        return 'abandoned';
+      default:
+        return 'normal';
+    }
+  }
+}
@@ -4,14 +4,13 @@ import { SquareUtils } from './square_utils';
 import type { BoardStateReader } from './board_state';
 
 /**
- * Validates piece movement rules for supported piece types.
+ * Validates piece movement rules for every piece type.
  * Does not check for check/pin constraints - only basic movement patterns.
  */
 export class PieceMoveValidator {
 
   /**
    * Validate if a piece can move from one square to another based on movement rules.
-   * Only validates King, Queen, and Pawn movements currently.
    */
   static canPieceMoveTo(
     piece: Piece,
@@ -24,6 +23,12 @@ export class PieceMoveValidator {
         return this.canKingMoveTo(from, to);
       case PieceType.Queen:
         return this.canQueenMoveTo(from, to, boardState);
+      case PieceType.Rook:
+        return this.canRookMoveTo(from, to, boardState);
+      case PieceType.Bishop:
+        return this.canBishopMoveTo(from, to, boardState);
+      case PieceType.Knight:
+        return this.canKnightMoveTo(from, to);
       case PieceType.Pawn:
         return this.canPawnMoveTo(piece.color, from, to, boardState);
       default:
@@ -68,6 +73,46 @@ export class PieceMoveValidator {
     return this.isPathClear(fromFile, fromRank, toFile, toRank, boardState);
   }
 
+  /**
+   * Check if rook can move from start to end (straight line).
+   * Validates path is clear of obstructions.
+   */
+  static canRookMoveTo(from: Square, to: Square, boardState: BoardStateReader): boolean {
+    const fromFile = SquareUtils.getFile(from);
+    const fromRank = SquareUtils.getRank(from);
+    const toFile = SquareUtils.getFile(to);
+    const toRank = SquareUtils.getRank(to);
+
+    if (fromFile !== toFile && fromRank !== toRank) return false;
+
+    return this.isPathClear(fromFile, fromRank, toFile, toRank, boardState);
+  }
+
+  /**
+   * Check if bishop can move from start to end (diagonal line).
+   * Validates path is clear of obstructions.
+   */
+  static canBishopMoveTo(from: Square, to: Square, boardState: BoardStateReader): boolean {
+    const fromFile = SquareUtils.getFile(from);
+    const fromRank = SquareUtils.getRank(from);
+    const toFile = SquareUtils.getFile(to);
+    const toRank = SquareUtils.getRank(to);
+
+    if (Math.abs(toFile - fromFile) !== Math.abs(toRank - fromRank)) return false;
+
+    return this.isPathClear(fromFile, fromRank, toFile, toRank, boardState);
+  }
+
+  /**
+   * Check if knight can move from start to end (L-shape, jumps over pieces).
+   */
+  static canKnightMoveTo(from: Square, to: Square): boolean {
+    const fileDiff = Math.abs(SquareUtils.getFile(to) - SquareUtils.getFile(from));
+    const rankDiff = Math.abs(SquareUtils.getRank(to) - SquareUtils.getRank(from));
+
+    return (fileDiff === 1 && rankDiff === 2) || (fileDiff === 2 && rankDiff === 1);
+  }
+
   /**
    * Check if pawn can move following pawn movement rules.
    * Includes forward moves, captures, double push, and en passant.
@@ -140,11 +185,4 @@ export class PieceMoveValidator {
 
     return true;
   }
-
-  /** Check if piece type is currently supported for validation */
-  static isSupportedPieceType(type: PieceType): boolean {
-    return type === PieceType.King ||
-      type === PieceType.Queen ||
-      type === PieceType.Pawn;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import type { Move } from './types';
+import { PieceType } from './types';
+import { CastlingHandler } from './castling_handler';
+import type { Board } from './board';
+
+export interface SANOptions {
+  /** Append " e.p." to en passant captures (e.g. "exd6 e.p.") */
+  markEnPassant?: boolean;
+}
+
+/**
+ * Error thrown when a SAN string is malformed or does not resolve
+ * to exactly one legal move.
+ */
+export class SANParseError extends Error {
+  readonly san: string;
+
+  constructor(san: string, message: string) {
+    super(`Invalid SAN "${san}": ${message}`);
+    this.name = 'SANParseError';
+    this.san = san;
+  }
+}
+
+/**
+ * Converts between moves and Standard Algebraic Notation.
+ * Both directions work against the position before the move is played.
+ */
+export class SANParser {
+  private static readonly PIECE_LETTERS: Record<PieceType, string> = {
+    [PieceType.King]: 'K',
+    [PieceType.Queen]: 'Q',
+    [PieceType.Rook]: 'R',
+    [PieceType.Bishop]: 'B',
+    [PieceType.Knight]: 'N',
+    [PieceType.Pawn]: ''
+  };
+
+  private static readonly LETTER_PIECES: Record<string, PieceType> = {
+    K: PieceType.King,
+    Q: PieceType.Queen,
+    R: PieceType.Rook,
+    B: PieceType.Bishop,
+    N: PieceType.Knight
+  };
+
+  // Groups: castling | piece letter, from file, from rank, capture, destination, promotion, en passant, check
+  private static readonly SAN_PATTERN =
+    /^(?:(O-O(?:-O)?)|([KQRBN])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=([QRBN]))?( e\.p\.)?)([+#])?$/;
+
+  /**
+   * Generate SAN for a legal move in the given position.
+   */
+  static generate(board: Board, move: Move, options: SANOptions = {}): string {
+    return this.generateBody(board, move, options) + this.checkSuffix(board, move);
+  }
+
+  /**
+   * Parse SAN into the single legal move it describes.
+   * @throws SANParseError if the notation is malformed, illegal or ambiguous
+   */
+  static parse(board: Board, san: string): Move {
+    const match = this.SAN_PATTERN.exec(san.trim());
+    if (!match) {
+      throw new SANParseError(san, 'not valid algebraic notation');
+    }
+
+    const [, castle, pieceLetter, fromFile, fromRank, capture, destination, promotionLetter, enPassant, suffix] = match;
+    const legalMoves = board.getAllValidMoves();
+
+    const candidates = castle
+      ? legalMoves.filter(m => this.castlingNotation(board, m) === castle)
+      : legalMoves.filter(m => {
+        const pieceType = pieceLetter ? this.LETTER_PIECES[pieceLetter] : PieceType.Pawn;
+        const promotion = promotionLetter ? this.LETTER_PIECES[promotionLetter] : undefined;
+        return m.piece === pieceType &&
+          !CastlingHandler.getCastlingSide(board, m) &&
+          m.endSquare === destination &&
+          m.promotion === promotion &&
+          (!fromFile || m.startSquare[0] === fromFile) &&
+          (!fromRank || m.startSquare[1] === fromRank);
+      });
+
+    if (candidates.length === 0) {
+      throw new SANParseError(san, 'no legal move matches');
+    }
+    if (candidates.length > 1) {
+      const origins = candidates.map(m => m.startSquare).join(', ');
+      throw new SANParseError(san, `ambiguous, could be played from ${origins}`);
+    }
+
+    const [move] = candidates;
+
+    if (!castle) {
+      const isCapture = this.isCapture(board, move);
+      if (Boolean(capture) !== isCapture) {
+        throw new SANParseError(san, isCapture ? 'capture is missing "x"' : 'marked as a capture but captures nothing');
+      }
+      if (move.piece === PieceType.Pawn && (fromRank || Boolean(fromFile) !== isCapture)) {
+        throw new SANParseError(san, 'pawn moves name only the file they capture from');
+      }
+      if (enPassant && move.endSquare !== board.getEnPassantSquare()) {
+        throw new SANParseError(san, 'marked en passant but is not an en passant capture');
+      }
+    }
+
+    if (suffix) {
+      const actual = this.checkSuffix(board, move);
+      if (!actual || (suffix === '#' && actual !== '#')) {
+        throw new SANParseError(san, suffix === '#' ? 'move is not checkmate' : 'move does not give check');
+      }
+    }
+
+    return move;
+  }
+
+  private static generateBody(board: Board, move: Move, options: SANOptions): string {
+    const castling = this.castlingNotation(board, move);
+    if (castling) return castling;
+
+    const isCapture = this.isCapture(board, move);
+    const captureMark = isCapture ? 'x' : '';
+    const promotion = move.promotion ? `=${this.PIECE_LETTERS[move.promotion]}` : '';
+
+    if (move.piece === PieceType.Pawn) {
+      const origin = isCapture ? move.startSquare[0] : '';
+      const enPassant = options.markEnPassant && move.endSquare === board.getEnPassantSquare() ? ' e.p.' : '';
+      return `${origin}${captureMark}${move.endSquare}${promotion}${enPassant}`;
+    }
+
+    return `${this.PIECE_LETTERS[move.piece]}${this.disambiguation(board, move)}${captureMark}${move.endSquare}`;
+  }
+
+  /**
+   * File, rank or full square of the origin when another piece of the
+   * same type could also legally reach the destination.
+   */
+  private static disambiguation(board: Board, move: Move): string {
+    const rivals = board.getAllValidMoves().filter(m =>
+      m.piece === move.piece &&
+      m.endSquare === move.endSquare &&
+      m.startSquare !== move.startSquare
+    );
+
+    if (rivals.length === 0) return '';
+
+    const [file, rank] = move.startSquare;
+    if (!rivals.some(m => m.startSquare[0] === file)) return file;
+    if (!rivals.some(m => m.startSquare[1] === rank)) return rank;
+    return move.startSquare;
+  }
+
+  /**
+   * "+" or "#" for a move that gives check or mate. The move is played with
+   * makeMove so that a board whose game has ended still gets its suffix.
+   */
+  private static checkSuffix(board: Board, move: Move): string {
+    const after = board.clone();
+    after.makeMove(move);
+    if (!after.isInCheck()) return '';
+    return after.getAllValidMoves().length === 0 ? '#' : '+';
+  }
+
+  private static isCapture(board: Board, move: Move): boolean {
+    return board.getPieceAt(move.endSquare) !== null ||
+      (move.piece === PieceType.Pawn && move.endSquare === board.getEnPassantSquare());
+  }
+
+  /**
+   * O-O or O-O-O for a castling move, or null for any other move.
+   */
+  private static castlingNotation(board: Board, move: Move): string | null {
+    const side = CastlingHandler.getCastlingSide(board, move);
+    if (!side) return null;
+    return side === 'kingside' ? 'O-O' : 'O-O-O';
+  }
+}
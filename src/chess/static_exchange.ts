@@ -0,0 +1,176 @@
+import { Color, PieceType } from './types';
+import type { Attacker, Move, Piece, Square } from './types';
+import { SquareUtils } from './square_utils';
+import { AttackDetector } from './attack_detector';
+import type { BoardStateReader } from './board_state';
+
+export enum ExchangeOutcome {
+  Wins = 'wins',
+  Loses = 'loses',
+  Trades = 'trades'
+}
+
+/**
+ * One capture in an exchange on a single square.
+ */
+export interface ExchangeCapture {
+  square: Square;
+  piece: Piece;
+  // Null when the move starting the exchange lands on an empty square
+  captured: PieceType | null;
+}
+
+/**
+ * Outcome of a move once both sides have finished recapturing.
+ */
+export interface ExchangeResult {
+  // Material the moving side comes out ahead, in centipawns
+  gain: number;
+  outcome: ExchangeOutcome;
+  // Captures actually worth making, starting with the move itself
+  sequence: ExchangeCapture[];
+  // Pieces the moving side captures and gives up along that sequence
+  won: PieceType[];
+  lost: PieceType[];
+}
+
+/**
+ * Static exchange evaluation: plays out every capture on one square, least
+ * valuable attacker first, with each side free to stop once recapturing no
+ * longer pays. Pieces revealed behind an attacker join in as they are
+ * uncovered. Pins and checks elsewhere on the board are ignored.
+ */
+export class StaticExchange {
+  public static readonly PIECE_VALUES: Record<PieceType, number> = {
+    [PieceType.Pawn]: 100,
+    [PieceType.Knight]: 300,
+    [PieceType.Bishop]: 300,
+    [PieceType.Rook]: 500,
+    [PieceType.Queen]: 900,
+    [PieceType.King]: 20000
+  };
+
+  /**
+   * Evaluate the exchange started by a move, which need not be a capture:
+   * a quiet move onto an attacked square is scored by what the opponent wins
+   * by taking the piece.
+   */
+  public static evaluate(boardState: BoardStateReader, move: Move): ExchangeResult {
+    const squares = [...boardState.getAllSquarePieces()];
+    const fromIndex = SquareUtils.toIndex(move.startSquare);
+    const targetIndex = SquareUtils.toIndex(move.endSquare);
+
+    let captured = squares[targetIndex]?.type ?? null;
+    if (!captured && move.piece === PieceType.Pawn && move.endSquare === boardState.getEnPassantSquare() &&
+      move.startSquare[0] !== move.endSquare[0]) {
+      captured = PieceType.Pawn;
+      squares[SquareUtils.fileRankToIndex(targetIndex % 8, Math.floor(fromIndex / 8))] = null;
+    }
+
+    const mover: Piece = { type: move.piece, color: move.color };
+    const captures: ExchangeCapture[] = [{ square: move.startSquare, piece: mover, captured }];
+    const gains = [this.captureGain(captured, mover, targetIndex, move.promotion)];
+
+    let onSquare = this.occupy(squares, fromIndex, targetIndex, mover, move.promotion);
+    let side = this.opponentOf(move.color);
+
+    for (;;) {
+      const attacker = this.leastValuableAttacker(squares, targetIndex, side);
+      if (!attacker) break;
+
+      const attackerIndex = SquareUtils.toIndex(attacker.square);
+      if (attacker.piece.type === PieceType.King) {
+        // The king may only recapture if nothing can take it back
+        squares[attackerIndex] = null;
+        const covered = AttackDetector.getAttackers(squares, targetIndex, this.opponentOf(side), false).length > 0;
+        squares[attackerIndex] = attacker.piece;
+        if (covered) break;
+      }
+
+      captures.push({ square: attacker.square, piece: attacker.piece, captured: onSquare.type });
+      gains.push(this.captureGain(onSquare.type, attacker.piece, targetIndex));
+      onSquare = this.occupy(squares, attackerIndex, targetIndex, attacker.piece);
+      side = this.opponentOf(side);
+    }
+
+    // Work back from the last capture: each side only captures if it comes out ahead
+    const best = new Array<number>(gains.length + 1).fill(0);
+    for (let depth = gains.length - 1; depth >= 1; depth--) {
+      best[depth] = Math.max(0, gains[depth] - best[depth + 1]);
+    }
+    const gain = gains[0] - best[1];
+
+    let length = 1;
+    while (length < gains.length && gains[length] - best[length + 1] > 0) length++;
+    const sequence = captures.slice(0, length);
+
+    return {
+      gain,
+      outcome: gain > 0 ? ExchangeOutcome.Wins : gain < 0 ? ExchangeOutcome.Loses : ExchangeOutcome.Trades,
+      sequence,
+      won: sequence.filter((_, ply) => ply % 2 === 0).flatMap(c => c.captured ? [c.captured] : []),
+      lost: sequence.filter((_, ply) => ply % 2 === 1).flatMap(c => c.captured ? [c.captured] : [])
+    };
+  }
+
+  /**
+   * Whether the piece on a square can be won by its opponent: some capture
+   * of it comes out ahead once all recaptures are played out.
+   */
+  public static isHanging(boardState: BoardStateReader, square: Square): boolean {
+    const piece = boardState.getPieceAt(square);
+    if (!piece || piece.type === PieceType.King) return false;
+
+    const squares = boardState.getAllSquarePieces();
+    return AttackDetector.getAttackers(squares, SquareUtils.toIndex(square), this.opponentOf(piece.color), false)
+      .some(attacker => this.evaluate(boardState, {
+        piece: attacker.piece.type,
+        color: attacker.piece.color,
+        startSquare: attacker.square,
+        endSquare: square
+      }).gain > 0);
+  }
+
+  private static leastValuableAttacker(squares: (Piece | null)[], targetIndex: number, color: Color): Attacker | null {
+    let least: Attacker | null = null;
+    for (const attacker of AttackDetector.getAttackers(squares, targetIndex, color, false)) {
+      if (!least || this.PIECE_VALUES[attacker.piece.type] < this.PIECE_VALUES[least.piece.type]) least = attacker;
+    }
+    return least;
+  }
+
+  /**
+   * Material won by a capture, counting a pawn reaching the last rank as promoting.
+   */
+  private static captureGain(captured: PieceType | null, piece: Piece, targetIndex: number, promotion?: PieceType): number {
+    const value = captured ? this.PIECE_VALUES[captured] : 0;
+    const promoted = this.promotedType(piece, targetIndex, promotion);
+    return promoted === piece.type ? value : value + this.PIECE_VALUES[promoted] - this.PIECE_VALUES[PieceType.Pawn];
+  }
+
+  /**
+   * Move a piece onto the exchange square, returning what now stands there.
+   */
+  private static occupy(
+    squares: (Piece | null)[],
+    fromIndex: number,
+    targetIndex: number,
+    piece: Piece,
+    promotion?: PieceType
+  ): Piece {
+    const landed = { type: this.promotedType(piece, targetIndex, promotion), color: piece.color };
+    squares[fromIndex] = null;
+    squares[targetIndex] = landed;
+    return landed;
+  }
+
+  private static promotedType(piece: Piece, targetIndex: number, promotion?: PieceType): PieceType {
+    const lastRank = piece.color === Color.White ? 7 : 0;
+    if (piece.type !== PieceType.Pawn || Math.floor(targetIndex / 8) !== lastRank) return piece.type;
+    return promotion ?? PieceType.Queen;
+  }
+
+  private static opponentOf(color: Color): Color {
+    return color === Color.White ? Color.Black : Color.White;
+  }
+}
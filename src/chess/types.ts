@@ -33,6 +33,7 @@ export interface Move {
   color: Color;
   startSquare: Square;
   endSquare: Square;
+  promotion?: PieceType;
 }
 
 export interface CastlingRights {
@@ -42,10 +43,84 @@ export interface CastlingRights {
   blackQueenside: boolean;
 }
 
+export type CastlingSide = 'kingside' | 'queenside';
+
+// Why castling is not allowed; see CastlingHandler.getCastlingObstacle
+export type CastlingObstacle = 'no_right' | 'blocked' | 'in_check' | 'attacked';
+
+/**
+ * File index (0-7) of the rook each castling right castles with.
+ * Always a1/h1/a8/h8 in standard chess, but arbitrary in Chess960.
+ */
+export type CastlingRookFiles = Record<keyof CastlingRights, number>;
+
 export interface GameState {
   activeColor: Color;
   castlingRights: CastlingRights;
   enPassantSquare: Square | null;
   halfMoveClock: number;
   fullMoveNumber: number;
-}
\ No newline at end of file
+}
+
+/**
+ * A played move together with the state needed to take it back exactly.
+ * The state fields hold their values from before the move was made.
+ */
+export interface MoveRecord {
+  move: Move;
+  capturedPiece: Piece | null;
+  capturedSquare: Square | null;
+  castlingRights: CastlingRights;
+  enPassantSquare: Square | null;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+}
+
+export type GameOverReason = 'checkmate' | 'stalemate' | 'draw' | 'resignation' | 'timeout' | 'abandonment';
+
+/**
+ * Summary of whether the game is over, derived from the GameResult.
+ */
+export interface GameStatus {
+  isOver: boolean;
+  reason?: GameOverReason;
+  winner?: Color;
+}
+
+export enum Termination {
+  Checkmate = 'checkmate',
+  Resignation = 'resignation',
+  // A timeout is a draw rather than a loss when the opponent has no mating material
+  Timeout = 'timeout',
+  Stalemate = 'stalemate',
+  ThreefoldRepetition = 'threefold_repetition',
+  FivefoldRepetition = 'fivefold_repetition',
+  FiftyMoveRule = 'fifty_move_rule',
+  SeventyFiveMoveRule = 'seventy_five_move_rule',
+  InsufficientMaterial = 'insufficient_material',
+  Agreement = 'agreement',
+  Abandonment = 'abandonment'
+}
+
+/**
+ * How a finished game ended.
+ */
+export interface GameResult {
+  // Null for a draw
+  winner: Color | null;
+  termination: Termination;
+  // Half-moves played when the game ended, and the last move played before it did
+  ply: number;
+  fullMoveNumber: number;
+  lastMove: Move | null;
+}
+
+/**
+ * A piece bearing on a square.
+ */
+export interface Attacker {
+  square: Square;
+  piece: Piece;
+  // True when the piece only reaches the square through another attacker of its own side, as in a battery
+  xray: boolean;
+}
@@ -0,0 +1,148 @@
+import { Board } from '../board';
+import { UCIParser } from './uci_notation';
+import type { UCIStream } from './uci_client';
+
+/**
+ * A scripted answer to one "go" command.
+ */
+export interface FakeUCIReply {
+  bestMove: string;
+  ponder?: string;
+  // Raw info lines sent before the best move
+  info?: string[];
+}
+
+export interface FakeUCIEngineOptions {
+  name?: string;
+  author?: string;
+  // Raw "option name ..." lines sent during the handshake
+  options?: string[];
+  // Answers to successive searches; once used up, the first legal move is played
+  replies?: (string | FakeUCIReply)[];
+  // Split output into chunks of this many characters, to exercise line buffering
+  chunkSize?: number;
+  // Commands the engine never answers, to exercise timeouts
+  ignore?: string[];
+}
+
+/**
+ * A stand-in UCI engine for tests. It tracks the position it is given with
+ * a real Board, answers the handshake, and replies to searches from a
+ * script. Everything it receives is recorded in order.
+ */
+export class FakeUCIEngine implements UCIStream {
+  public readonly received: string[] = [];
+
+  private readonly options: FakeUCIEngineOptions;
+  private readonly replies: (string | FakeUCIReply)[];
+  private readonly listeners: ((chunk: string) => void)[] = [];
+  private board = new Board();
+  // Set with "setoption name UCI_Chess960 value true"
+  private chess960 = false;
+  // Reply held back by "go infinite" until "stop"
+  private heldReply: FakeUCIReply | null = null;
+
+  constructor(options: FakeUCIEngineOptions = {}) {
+    this.options = options;
+    this.replies = [...(options.replies ?? [])];
+  }
+
+  public write(data: string): void {
+    for (const line of data.split(/\r?\n/)) {
+      const command = line.trim();
+      if (command) this.handle(command);
+    }
+  }
+
+  public onData(listener: (chunk: string) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * The position as last set by a "position" command.
+   */
+  public getBoard(): Board {
+    return this.board;
+  }
+
+  private handle(command: string): void {
+    this.received.push(command);
+    const [keyword] = command.split(' ');
+    if (this.options.ignore?.includes(keyword)) return;
+
+    switch (keyword) {
+      case 'uci':
+        this.emit([
+          `id name ${this.options.name ?? 'Fake Engine'}`,
+          `id author ${this.options.author ?? 'Speech Chess'}`,
+          ...(this.options.options ?? []),
+          'uciok'
+        ]);
+        break;
+      case 'isready':
+        this.emit(['readyok']);
+        break;
+      case 'setoption': {
+        const [, name, value] = /^setoption name (.+?)(?: value (.*))?$/.exec(command) ?? [];
+        if (name === 'UCI_Chess960') this.chess960 = value === 'true';
+        break;
+      }
+      case 'position':
+        this.board = this.parsePosition(command);
+        break;
+      case 'go': {
+        const reply = this.nextReply();
+        if (command.includes('infinite')) {
+          this.heldReply = reply;
+        } else {
+          this.emit(this.replyLines(reply));
+        }
+        break;
+      }
+      case 'stop':
+        if (this.heldReply) {
+          this.emit(this.replyLines(this.heldReply));
+          this.heldReply = null;
+        }
+        break;
+    }
+  }
+
+  private parsePosition(command: string): Board {
+    const [, setup, moveList] = /^position\s+(startpos|fen\s+.+?)(?:\s+moves\s+(.*))?$/.exec(command) ?? [];
+    const board = !setup || setup === 'startpos' ? new Board() : Board.fromFEN(setup.slice('fen'.length).trim(), this.chess960);
+    for (const uci of moveList?.split(/\s+/) ?? []) {
+      board.executeMove(UCIParser.parse(board, uci));
+    }
+    return board;
+  }
+
+  private nextReply(): FakeUCIReply {
+    const scripted = this.replies.shift();
+    if (typeof scripted === 'string') return { bestMove: scripted };
+    if (scripted) return scripted;
+
+    const [move] = this.board.getAllValidMoves();
+    const bestMove = move ? UCIParser.generate(move) : '(none)';
+    return { bestMove, info: [`info depth 1 score cp 0 nodes 1 pv ${bestMove}`] };
+  }
+
+  private replyLines(reply: FakeUCIReply): string[] {
+    const bestMove = reply.ponder ? `bestmove ${reply.bestMove} ponder ${reply.ponder}` : `bestmove ${reply.bestMove}`;
+    return [...(reply.info ?? []), bestMove];
+  }
+
+  /**
+   * Send lines back asynchronously, as a real engine process would.
+   */
+  private emit(lines: string[]): void {
+    const output = lines.map(line => `${line}\n`).join('');
+    const size = this.options.chunkSize ?? output.length;
+    setTimeout(() => {
+      for (let start = 0; start < output.length; start += size) {
+        const chunk = output.slice(start, start + size);
+        this.listeners.forEach(listener => listener(chunk));
+      }
+    });
+  }
+}
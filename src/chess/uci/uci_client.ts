@@ -0,0 +1,375 @@
+import type { Move } from '../types';
+import type { Board } from '../board';
+import { UCIParser } from './uci_notation';
+
+/**
+ * A duplex text stream to a UCI engine. Output may arrive in chunks that
+ * split or join lines. A child process fits with
+ * `{ write: text => child.stdin.write(text), onData: listener => child.stdout.on('data', b => listener(String(b))) }`.
+ */
+export interface UCIStream {
+  write(data: string): void;
+  onData(listener: (chunk: string) => void): void;
+}
+
+/**
+ * Error raised when the engine does not answer in time, or the client
+ * is closed while waiting.
+ */
+export class UCIError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UCIError';
+  }
+}
+
+export interface UCIOption {
+  name: string;
+  type: string;
+  default: string | null;
+  min: number | null;
+  max: number | null;
+  vars: string[];
+}
+
+export interface UCIEngineId {
+  name: string | null;
+  author: string | null;
+  options: UCIOption[];
+}
+
+export interface UCIScore {
+  // Centipawns, or moves to mate (negative when the engine is being mated)
+  type: 'cp' | 'mate';
+  value: number;
+  bound: 'lower' | 'upper' | null;
+}
+
+export interface UCIInfo {
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  score?: UCIScore;
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  hashfull?: number;
+  currmove?: string;
+  currmovenumber?: number;
+  pv?: string[];
+  string?: string;
+}
+
+export interface UCIGoOptions {
+  depth?: number;
+  nodes?: number;
+  mate?: number;
+  movetime?: number;
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  infinite?: boolean;
+  searchmoves?: string[];
+}
+
+export interface UCIBestMove {
+  // Null when the engine has no move to play ("bestmove (none)" or "0000")
+  bestMove: string | null;
+  ponder: string | null;
+  info: UCIInfo[];
+}
+
+export interface UCIClientOptions {
+  // How long to wait for uciok and readyok
+  timeoutMs?: number;
+}
+
+type NumericInfoField = 'depth' | 'seldepth' | 'multipv' | 'nodes' | 'nps' | 'time' | 'hashfull' | 'currmovenumber';
+
+interface LineWaiter {
+  // Returns true once the waiter has seen the line it was waiting for
+  handle(line: string): boolean;
+  fail(error: UCIError): void;
+}
+
+/**
+ * Talks to a UCI engine over a text stream: the uci handshake, isready
+ * synchronisation, options, positions and searches. Replies are matched
+ * to requests line by line, so commands may be sent without waiting.
+ */
+export class UCIClient {
+  private static readonly DEFAULT_TIMEOUT_MS = 10_000;
+
+  private static readonly INFO_NUMBER_FIELDS: readonly NumericInfoField[] = [
+    'depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time', 'hashfull', 'currmovenumber'
+  ];
+
+  // Keywords that end a multi-word value in an info or option line
+  private static readonly INFO_KEYWORDS = new Set([
+    ...UCIClient.INFO_NUMBER_FIELDS, 'score', 'currmove', 'pv', 'string', 'tbhits', 'sbhits', 'cpuload', 'refutation',
+    'currline', 'lowerbound', 'upperbound'
+  ]);
+  private static readonly OPTION_KEYWORDS = new Set(['name', 'type', 'default', 'min', 'max', 'var']);
+
+  private readonly stream: UCIStream;
+  private readonly timeoutMs: number;
+  private waiters: LineWaiter[] = [];
+  private buffer = '';
+  private closed = false;
+  // Last UCI_Chess960 value sent; engines start in standard chess
+  private chess960 = false;
+
+  constructor(stream: UCIStream, options: UCIClientOptions = {}) {
+    this.stream = stream;
+    this.timeoutMs = options.timeoutMs ?? UCIClient.DEFAULT_TIMEOUT_MS;
+    this.stream.onData(chunk => this.receive(chunk));
+  }
+
+  // ============ Commands ============
+
+  /**
+   * Switch the engine to UCI mode and collect its name, author and options.
+   */
+  public init(): Promise<UCIEngineId> {
+    const id: UCIEngineId = { name: null, author: null, options: [] };
+    return this.request('uci', 'uciok', line => {
+      if (line.startsWith('id name ')) id.name = line.slice('id name '.length);
+      else if (line.startsWith('id author ')) id.author = line.slice('id author '.length);
+      else if (line.startsWith('option ')) id.options.push(UCIClient.parseOption(line));
+      return line === 'uciok';
+    }).then(() => id);
+  }
+
+  /**
+   * Wait until the engine has processed everything sent so far.
+   */
+  public isReady(): Promise<void> {
+    return this.request('isready', 'readyok', line => line === 'readyok');
+  }
+
+  public setOption(name: string, value?: string | number | boolean): void {
+    this.send(value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`);
+  }
+
+  public newGame(): Promise<void> {
+    this.send('ucinewgame');
+    return this.isReady();
+  }
+
+  /**
+   * Set the position from a FEN, or the standard start position when the
+   * FEN is null, followed by moves in long algebraic notation.
+   */
+  public setPosition(fen: string | null, moves: string[] = []): void {
+    const base = fen === null ? 'position startpos' : `position fen ${fen}`;
+    this.send(moves.length > 0 ? `${base} moves ${moves.join(' ')}` : base);
+  }
+
+  /**
+   * Send a board's starting position and the moves played since, so the
+   * engine sees the game history and can recognise repetitions. The
+   * UCI_Chess960 option is switched to match the board first, since 960
+   * castling is written king takes rook.
+   */
+  public setPositionFromBoard(board: Board): void {
+    if (board.isChess960() !== this.chess960) {
+      this.chess960 = board.isChess960();
+      this.setOption('UCI_Chess960', this.chess960);
+    }
+
+    const start = board.clone();
+    while (start.undo()) {
+      // rewind to the starting position
+    }
+    this.setPosition(start.toFEN(), board.getHistory().map(({ move }) => UCIParser.generate(move)));
+  }
+
+  /**
+   * Start a search and resolve with the engine's best move. Info lines are
+   * collected in the result and passed to onInfo as they arrive.
+   */
+  public go(options: UCIGoOptions = {}, onInfo?: (info: UCIInfo) => void): Promise<UCIBestMove> {
+    const info: UCIInfo[] = [];
+    let bestMove: UCIBestMove | null = null;
+
+    return this.request(UCIClient.goCommand(options), null, line => {
+      if (line.startsWith('info ')) {
+        const parsed = UCIClient.parseInfo(line);
+        info.push(parsed);
+        onInfo?.(parsed);
+        return false;
+      }
+      if (!line.startsWith('bestmove')) return false;
+
+      const [, move, , ponder] = line.split(/\s+/);
+      bestMove = {
+        bestMove: !move || move === '(none)' || move === '0000' ? null : move,
+        ponder: ponder ?? null,
+        info
+      };
+      return true;
+    }).then(() => bestMove!);
+  }
+
+  /**
+   * Search a board's position and read the best move back as a Move.
+   */
+  public async findBestMove(board: Board, options: UCIGoOptions = {}): Promise<{ move: Move | null; result: UCIBestMove }> {
+    this.setPositionFromBoard(board);
+    const result = await this.go(options);
+    return { move: result.bestMove ? UCIParser.parse(board, result.bestMove) : null, result };
+  }
+
+  /**
+   * Ask the engine to stop searching; the pending go resolves with its best move so far.
+   */
+  public stop(): void {
+    this.send('stop');
+  }
+
+  /**
+   * Tell the engine to exit and reject anything still waiting for a reply.
+   */
+  public quit(): void {
+    this.send('quit');
+    this.closed = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => waiter.fail(new UCIError('UCI client closed')));
+  }
+
+  // ============ Parsing ============
+
+  /**
+   * Parse an "info ..." line. Unknown fields are skipped.
+   */
+  public static parseInfo(line: string): UCIInfo {
+    const tokens = line.trim().split(/\s+/).slice(1);
+    const info: UCIInfo = {};
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (this.INFO_NUMBER_FIELDS.includes(token as NumericInfoField)) {
+        info[token as NumericInfoField] = Number(tokens[++i]);
+      } else if (token === 'score') {
+        const type = tokens[++i] === 'mate' ? 'mate' : 'cp';
+        const value = Number(tokens[++i]);
+        const bound = tokens[i + 1] === 'lowerbound' ? 'lower' : tokens[i + 1] === 'upperbound' ? 'upper' : null;
+        if (bound) i++;
+        info.score = { type, value, bound };
+      } else if (token === 'currmove') {
+        info.currmove = tokens[++i];
+      } else if (token === 'pv') {
+        const end = this.nextKeyword(tokens, i + 1, this.INFO_KEYWORDS);
+        info.pv = tokens.slice(i + 1, end);
+        i = end - 1;
+      } else if (token === 'string') {
+        // The rest of the line is free text
+        info.string = tokens.slice(i + 1).join(' ');
+        break;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Parse an "option name ... type ..." line from the uci handshake.
+   */
+  public static parseOption(line: string): UCIOption {
+    const tokens = line.trim().split(/\s+/).slice(1);
+    const option: UCIOption = { name: '', type: '', default: null, min: null, max: null, vars: [] };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const end = this.nextKeyword(tokens, i + 1, this.OPTION_KEYWORDS);
+      const value = tokens.slice(i + 1, end).join(' ');
+      switch (tokens[i]) {
+        case 'name': option.name = value; break;
+        case 'type': option.type = value; break;
+        case 'default': option.default = value === '<empty>' ? '' : value; break;
+        case 'min': option.min = Number(value); break;
+        case 'max': option.max = Number(value); break;
+        case 'var': option.vars.push(value); break;
+      }
+      i = end - 1;
+    }
+
+    return option;
+  }
+
+  private static goCommand(options: UCIGoOptions): string {
+    const parts = ['go'];
+    for (const key of ['depth', 'nodes', 'mate', 'movetime', 'wtime', 'btime', 'winc', 'binc', 'movestogo'] as const) {
+      if (options[key] !== undefined) parts.push(key, String(options[key]));
+    }
+    if (options.searchmoves?.length) parts.push('searchmoves', ...options.searchmoves);
+    if (options.infinite) parts.push('infinite');
+    return parts.join(' ');
+  }
+
+  private static nextKeyword(tokens: string[], from: number, keywords: Set<string>): number {
+    let end = from;
+    while (end < tokens.length && !keywords.has(tokens[end])) end++;
+    return end;
+  }
+
+  // ============ Stream Handling ============
+
+  private send(command: string): void {
+    if (this.closed) throw new UCIError('UCI client closed');
+    this.stream.write(`${command}\n`);
+  }
+
+  /**
+   * Send a command and wait for handle to accept its final line. Replies
+   * named by expected are subject to the handshake timeout; searches are not.
+   */
+  private request(command: string, expected: string | null, handle: (line: string) => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter: LineWaiter = {
+        handle: line => {
+          if (!handle(line)) return false;
+          clearTimeout(timer);
+          resolve();
+          return true;
+        },
+        fail: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      if (expected) {
+        timer = setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new UCIError(`Timed out after ${this.timeoutMs}ms waiting for ${expected}`));
+        }, this.timeoutMs);
+      }
+
+      this.waiters.push(waiter);
+      try {
+        this.send(command);
+      } catch (error) {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        waiter.fail(error as UCIError);
+      }
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop()!;
+
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (!line) continue;
+      // The first waiter to finish on a line consumes it, so two isready calls need two readyoks
+      const index = this.waiters.findIndex(waiter => waiter.handle(line));
+      if (index >= 0) this.waiters.splice(index, 1);
+    }
+  }
+}
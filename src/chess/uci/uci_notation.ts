@@ -0,0 +1,66 @@
+import type { Move, Square } from '../types';
+import { PieceType } from '../types';
+import type { Board } from '../board';
+
+/**
+ * Error thrown when a UCI move string is malformed or not legal in the
+ * position it is read against.
+ */
+export class UCIParseError extends Error {
+  readonly uci: string;
+
+  constructor(uci: string, message: string) {
+    super(`Invalid UCI move "${uci}": ${message}`);
+    this.name = 'UCIParseError';
+    this.uci = uci;
+  }
+}
+
+/**
+ * Converts between moves and UCI long algebraic notation ("e2e4", "e7e8q").
+ * Castling is written as the king's move, which in Chess960 ends on the
+ * rook's square, the same way moves are represented on the board.
+ */
+export class UCIParser {
+  private static readonly PROMOTION_LETTERS: Partial<Record<PieceType, string>> = {
+    [PieceType.Queen]: 'q',
+    [PieceType.Rook]: 'r',
+    [PieceType.Bishop]: 'b',
+    [PieceType.Knight]: 'n'
+  };
+
+  private static readonly LETTER_PROMOTIONS: Record<string, PieceType> = {
+    q: PieceType.Queen,
+    r: PieceType.Rook,
+    b: PieceType.Bishop,
+    n: PieceType.Knight
+  };
+
+  private static readonly UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+
+  static generate(move: Move): string {
+    const promotion = move.promotion ? this.PROMOTION_LETTERS[move.promotion] : '';
+    return `${move.startSquare}${move.endSquare}${promotion}`;
+  }
+
+  /**
+   * Parse a UCI move into the legal move it describes in the given position.
+   * @throws UCIParseError if the notation is malformed or the move is illegal
+   */
+  static parse(board: Board, uci: string): Move {
+    const match = this.UCI_PATTERN.exec(uci.trim());
+    if (!match) {
+      throw new UCIParseError(uci, 'not valid long algebraic notation');
+    }
+
+    const [, from, to, promotionLetter] = match;
+    const promotion = promotionLetter ? this.LETTER_PROMOTIONS[promotionLetter] : undefined;
+    const move = board.getValidMovesForSquare(from as Square)
+      .find(m => m.endSquare === to && m.promotion === promotion);
+
+    if (!move) {
+      throw new UCIParseError(uci, 'no legal move matches');
+    }
+    return move;
+  }
+}
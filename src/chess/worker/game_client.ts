@@ -0,0 +1,132 @@
+import type { Move, Square } from '../types';
+import type { Command } from '../commands/types';
+import type { SearchLimits, SearchResult } from '../engine/engine';
+import type {
+  GameRequest, GameRequestParams, GameRequestResult, GameRequestType, GameResponse, GameSnapshot, MessageEndpoint
+} from './protocol';
+
+/**
+ * A request the game service failed to handle. The name of the error
+ * thrown in the worker (such as FENParseError) is kept in remoteName.
+ */
+export class GameServiceError extends Error {
+  readonly remoteName: string;
+
+  constructor(message: string, remoteName: string) {
+    super(message);
+    this.name = 'GameServiceError';
+    this.remoteName = remoteName;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: GameServiceError) => void;
+}
+
+/**
+ * Promise-based access to a GameService running in a worker, so move
+ * generation and engine search stay off the main thread.
+ */
+export class GameClient {
+  private readonly endpoint: MessageEndpoint & { terminate?: () => void };
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private disposed = false;
+
+  constructor(endpoint: MessageEndpoint & { terminate?: () => void }) {
+    this.endpoint = endpoint;
+    this.endpoint.addEventListener('message', this.onMessage);
+    this.endpoint.addEventListener('messageerror', this.onMessageError);
+    this.endpoint.addEventListener('error', this.onError);
+  }
+
+  /**
+   * Start a worker hosting a new game in the starting position.
+   */
+  public static create(): GameClient {
+    return new GameClient(new Worker(new URL('./game_worker.ts', import.meta.url), { type: 'module' }));
+  }
+
+  public loadFen(fen: string, chess960 = false): Promise<GameSnapshot> {
+    return this.request('loadFen', { fen, chess960 });
+  }
+
+  public getSnapshot(): Promise<GameSnapshot> {
+    return this.request('getSnapshot', {});
+  }
+
+  public executeCommand(command: Command): Promise<GameRequestResult<'executeCommand'>> {
+    return this.request('executeCommand', { command });
+  }
+
+  public executeMove(move: Move): Promise<GameRequestResult<'executeMove'>> {
+    return this.request('executeMove', { move });
+  }
+
+  public getLegalMoves(square?: Square): Promise<Move[]> {
+    return this.request('getLegalMoves', { square });
+  }
+
+  public search(limits?: SearchLimits, level?: number): Promise<SearchResult> {
+    return this.request('search', { limits, level });
+  }
+
+  /**
+   * Stop listening, reject requests still waiting for an answer and
+   * terminate the worker. Later requests are rejected immediately.
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.endpoint.removeEventListener('message', this.onMessage);
+    this.endpoint.removeEventListener('messageerror', this.onMessageError);
+    this.endpoint.removeEventListener('error', this.onError);
+    this.rejectAll(new GameServiceError('game client was disposed', 'GameClientDisposed'));
+    this.endpoint.terminate?.();
+  }
+
+  private request<K extends GameRequestType>(type: K, params: GameRequestParams<K>): Promise<GameRequestResult<K>> {
+    if (this.disposed) {
+      return Promise.reject(new GameServiceError('game client was disposed', 'GameClientDisposed'));
+    }
+
+    const id = this.nextId++;
+    const request: GameRequest<K> = { id, type, params };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.endpoint.postMessage(request);
+    });
+  }
+
+  private rejectAll(error: GameServiceError): void {
+    for (const { reject } of this.pending.values()) {
+      reject(error);
+    }
+    this.pending.clear();
+  }
+
+  // A response that could not be deserialized cannot be matched to its request
+  private readonly onMessageError = (): void => {
+    this.rejectAll(new GameServiceError('game worker sent a message that could not be read', 'GameMessageError'));
+  };
+
+  // The worker script failed to load or threw outside a request
+  private readonly onError = (event: Event): void => {
+    const message = (event as ErrorEvent).message || 'game worker failed';
+    this.rejectAll(new GameServiceError(message, 'GameWorkerError'));
+  };
+
+  private readonly onMessage = (event: MessageEvent): void => {
+    const response = event.data as GameResponse;
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    this.pending.delete(response.id);
+    if (response.ok) {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new GameServiceError(response.error.message, response.error.name));
+    }
+  };
+}
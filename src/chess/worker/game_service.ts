@@ -0,0 +1,82 @@
+import { Board } from '../board';
+import { Engine } from '../engine/engine';
+import type {
+  GameProtocol, GameRequest, GameRequestType, GameResponse, GameSnapshot, MessageEndpoint, SerializedError
+} from './protocol';
+
+type GameHandlers = {
+  [K in GameRequestType]: (params: GameProtocol[K]['params']) => GameProtocol[K]['result'];
+};
+
+/**
+ * Owns the game inside the worker. Requests are handled one at a time in
+ * the order they arrive, using the same Board and Engine as everywhere else.
+ */
+export class GameService {
+  private board = new Board();
+  private readonly engine: Engine;
+
+  private readonly handlers: GameHandlers = {
+    loadFen: ({ fen, chess960 = false }) => {
+      this.board = Board.fromFEN(fen, chess960);
+      this.engine.clear();
+      return this.snapshot();
+    },
+    getSnapshot: () => this.snapshot(),
+    executeCommand: ({ command }) => {
+      const commandResult = this.board.executeCommand(command);
+      return { commandResult, snapshot: this.snapshot() };
+    },
+    executeMove: ({ move }) => {
+      const executed = this.board.executeMove(move);
+      return { executed, snapshot: this.snapshot() };
+    },
+    getLegalMoves: ({ square }) => square ? this.board.getValidMovesForSquare(square) : this.board.getAllValidMoves(),
+    search: ({ limits, level }) => {
+      if (level !== undefined) this.engine.setLevel(level);
+      return this.engine.search(this.board, limits);
+    }
+  };
+
+  constructor(engine: Engine = new Engine()) {
+    this.engine = engine;
+  }
+
+  /**
+   * Answer requests arriving on an endpoint, normally the worker's global scope.
+   */
+  public static listen(endpoint: MessageEndpoint, service: GameService = new GameService()): GameService {
+    endpoint.addEventListener('message', event => {
+      endpoint.postMessage(service.handle(event.data as GameRequest));
+    });
+    return service;
+  }
+
+  /**
+   * Handle one request. Errors are caught and returned in the response so
+   * the client can reject the matching promise.
+   */
+  public handle<K extends GameRequestType>(request: GameRequest<K>): GameResponse<K> {
+    try {
+      const handler = this.handlers[request.type] as (params: GameProtocol[K]['params']) => GameProtocol[K]['result'];
+      return { id: request.id, ok: true, result: handler(request.params) };
+    } catch (error) {
+      return { id: request.id, ok: false, error: GameService.serializeError(error) };
+    }
+  }
+
+  private snapshot(): GameSnapshot {
+    return {
+      fen: this.board.toFEN(),
+      activeColor: this.board.getActiveColor(),
+      inCheck: this.board.isInCheck(),
+      result: this.board.getResult(),
+      history: this.board.getHistory().map(record => record.move)
+    };
+  }
+
+  private static serializeError(error: unknown): SerializedError {
+    if (error instanceof Error) return { name: error.name, message: error.message };
+    return { name: 'Error', message: String(error) };
+  }
+}
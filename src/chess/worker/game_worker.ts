@@ -0,0 +1,4 @@
+import { GameService } from './game_service';
+
+// Worker entry point, started by GameClient.create
+GameService.listen(self);
@@ -0,0 +1,82 @@
+import type { Color, GameResult, Move, Square } from '../types';
+import type { Command, CommandResult } from '../commands/types';
+import type { SearchLimits, SearchResult } from '../engine/engine';
+
+/**
+ * What the UI needs to redraw after any change, so it never has to read
+ * the board held by the worker.
+ */
+export interface GameSnapshot {
+  fen: string;
+  activeColor: Color;
+  inCheck: boolean;
+  result: GameResult | null;
+  history: Move[];
+}
+
+/**
+ * Every request the game service understands, with its parameters and result.
+ */
+export interface GameProtocol {
+  loadFen: {
+    params: { fen: string; chess960?: boolean };
+    result: GameSnapshot;
+  };
+  getSnapshot: {
+    params: Record<string, never>;
+    result: GameSnapshot;
+  };
+  executeCommand: {
+    params: { command: Command };
+    result: { commandResult: CommandResult; snapshot: GameSnapshot };
+  };
+  executeMove: {
+    params: { move: Move };
+    result: { executed: boolean; snapshot: GameSnapshot };
+  };
+  // All legal moves for the side to move, or only those from one square
+  getLegalMoves: {
+    params: { square?: Square };
+    result: Move[];
+  };
+  search: {
+    params: { limits?: SearchLimits; level?: number };
+    result: SearchResult;
+  };
+}
+
+export type GameRequestType = keyof GameProtocol;
+export type GameRequestParams<K extends GameRequestType> = GameProtocol[K]['params'];
+export type GameRequestResult<K extends GameRequestType> = GameProtocol[K]['result'];
+
+export interface GameRequest<K extends GameRequestType = GameRequestType> {
+  id: number;
+  type: K;
+  params: GameRequestParams<K>;
+}
+
+/**
+ * An error thrown while handling a request, reduced to what survives
+ * being posted between threads.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+export type GameResponse<K extends GameRequestType = GameRequestType> =
+  | { id: number; ok: true; result: GameRequestResult<K> }
+  | { id: number; ok: false; error: SerializedError };
+
+/**
+ * Either side of a message channel: a Worker, the worker's global scope,
+ * or a MessagePort.
+ */
+export interface MessageEndpoint {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void;
+  // Fired on a Worker whose script failed to load or threw
+  addEventListener(type: 'error', listener: (event: Event) => void): void;
+  removeEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'error', listener: (event: Event) => void): void;
+}
@@ -0,0 +1,106 @@
+import type { Piece, CastlingRights } from './types';
+import { Color, PieceType } from './types';
+import { SquareUtils } from './square_utils';
+import type { BoardStateReader } from './board_state';
+
+/**
+ * Zobrist hashing for position keys.
+ * A position key XORs together a random key for every piece on its square,
+ * each castling right, the en passant file and the side to move, so it can
+ * be updated incrementally as pieces move.
+ */
+export class Zobrist {
+  private static readonly PIECE_ORDER: PieceType[] = [
+    PieceType.Pawn, PieceType.Knight, PieceType.Bishop,
+    PieceType.Rook, PieceType.Queen, PieceType.King
+  ];
+
+  // Fixed seed so keys are identical across sessions and workers
+  private static readonly SEED = 0x9e3779b97f4a7c15n;
+  private static readonly MASK_64 = (1n << 64n) - 1n;
+
+  private static readonly keys: bigint[] = Zobrist.generateKeys(12 * 64 + 4 + 8 + 1);
+
+  private static readonly CASTLING_OFFSET = 12 * 64;
+  private static readonly EN_PASSANT_OFFSET = Zobrist.CASTLING_OFFSET + 4;
+  private static readonly SIDE_OFFSET = Zobrist.EN_PASSANT_OFFSET + 8;
+
+  /**
+   * Key for a piece standing on a square index.
+   */
+  static pieceKey(piece: Piece, index: number): bigint {
+    const pieceIndex = this.PIECE_ORDER.indexOf(piece.type) + (piece.color === Color.White ? 0 : 6);
+    return this.keys[pieceIndex * 64 + index];
+  }
+
+  static castlingKey(rights: CastlingRights): bigint {
+    let key = 0n;
+    if (rights.whiteKingside) key ^= this.keys[this.CASTLING_OFFSET];
+    if (rights.whiteQueenside) key ^= this.keys[this.CASTLING_OFFSET + 1];
+    if (rights.blackKingside) key ^= this.keys[this.CASTLING_OFFSET + 2];
+    if (rights.blackQueenside) key ^= this.keys[this.CASTLING_OFFSET + 3];
+    return key;
+  }
+
+  /**
+   * Key for the en passant file. Only counts when the side to move has a pawn
+   * that could actually capture, since otherwise the positions are identical
+   * for repetition purposes.
+   */
+  static enPassantKey(state: BoardStateReader): bigint {
+    const square = state.getEnPassantSquare();
+    if (!square) return 0n;
+
+    const color = state.getActiveColor();
+    const file = SquareUtils.getFile(square);
+    const pawnRank = SquareUtils.getRank(square) + (color === Color.White ? -1 : 1);
+
+    for (const pawnFile of [file - 1, file + 1]) {
+      if (!SquareUtils.isValidFileRank(pawnFile, pawnRank)) continue;
+      const piece = state.getPieceAtIndex(SquareUtils.fileRankToIndex(pawnFile, pawnRank));
+      if (piece?.type === PieceType.Pawn && piece.color === color) {
+        return this.keys[this.EN_PASSANT_OFFSET + file];
+      }
+    }
+    return 0n;
+  }
+
+  static sideKey(color: Color): bigint {
+    return color === Color.Black ? this.keys[this.SIDE_OFFSET] : 0n;
+  }
+
+  /**
+   * Key for everything except piece placement: castling, en passant and side to move.
+   */
+  static stateKey(state: BoardStateReader): bigint {
+    return this.castlingKey(state.getCastlingRights()) ^
+      this.enPassantKey(state) ^
+      this.sideKey(state.getActiveColor());
+  }
+
+  /**
+   * Compute a position key from scratch.
+   */
+  static computeKey(state: BoardStateReader): bigint {
+    let key = this.stateKey(state);
+    const squares = state.getAllSquarePieces();
+    for (let i = 0; i < 64; i++) {
+      const piece = squares[i];
+      if (piece) key ^= this.pieceKey(piece, i);
+    }
+    return key;
+  }
+
+  // xorshift64* generator
+  private static generateKeys(count: number): bigint[] {
+    const keys: bigint[] = [];
+    let state = this.SEED;
+    for (let i = 0; i < count; i++) {
+      state ^= state >> 12n;
+      state ^= (state << 25n) & this.MASK_64;
+      state ^= state >> 27n;
+      keys.push((state * 0x2545f4914f6cdd1dn) & this.MASK_64);
+    }
+    return keys;
+  }
+}
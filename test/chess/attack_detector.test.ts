@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { AttackDetector } from '../../src/chess/attack_detector';
+import { Color, PieceType, type Attacker, type Square } from '../../src/chess/types';
+import { SquareUtils } from '../../src/chess/square_utils';
+
+const squaresOf = (attackers: Attacker[]): Square[] => attackers.map(a => a.square).sort();
+
+describe('Attackers and Defenders', () => {
+  test('lists every piece attacking a square', () => {
+    // Knight, bishop, rook and pawn all bear on e5
+    const board = Board.fromFEN('4k3/8/8/4p3/3P4/5N2/7B/4RK2 w - - 0 1');
+    const attackers = board.getAttackers('e5');
+
+    expect(squaresOf(attackers)).toEqual(['d4', 'e1', 'f3', 'h2']);
+    expect(attackers.every(a => !a.xray)).toBe(true);
+    expect(attackers.find(a => a.square === 'h2')?.piece).toEqual({ type: PieceType.Bishop, color: Color.White });
+  });
+
+  test('what is attacking the queen', () => {
+    const board = Board.fromFEN('4k3/8/8/3q4/8/2N5/8/3RK3 b - - 0 1');
+    expect(squaresOf(board.getAttackers('d5'))).toEqual(['c3', 'd1']);
+  });
+
+  test('defenders are pieces of the same side', () => {
+    const board = Board.fromFEN('4k3/8/5p2/4p3/8/8/8/4RK2 w - - 0 1');
+
+    expect(squaresOf(board.getDefenders('e5'))).toEqual(['f6']);
+    expect(board.getDefenders('d5')).toEqual([]);
+  });
+
+  test('empty squares default to the side to move defending', () => {
+    const board = Board.fromFEN('4k3/8/8/8/8/8/8/3RK3 w - - 0 1');
+
+    expect(squaresOf(board.getDefenders('d5'))).toEqual(['d1']);
+    expect(board.getAttackers('d5')).toEqual([]);
+    expect(squaresOf(board.getAttackers('d7', Color.Black))).toEqual(['e8']);
+  });
+
+  test('batteries are reported as x-ray attackers', () => {
+    // Rooks doubled on the d-file, queen behind the bishop on the diagonal
+    const board = Board.fromFEN('4k3/8/8/3p4/8/1B6/Q2R4/3RK3 w - - 0 1');
+    const attackers = board.getAttackers('d5');
+
+    expect(squaresOf(attackers.filter(a => !a.xray))).toEqual(['b3', 'd2']);
+    expect(squaresOf(attackers.filter(a => a.xray))).toEqual(['a2', 'd1']);
+  });
+
+  test('a bishop behind a pawn is an x-ray attacker', () => {
+    const board = Board.fromFEN('4k3/8/8/3p4/4P3/5B2/8/4K3 w - - 0 1');
+    const attackers = board.getAttackers('d5');
+
+    expect(attackers).toContainEqual({ square: 'e4', piece: { type: PieceType.Pawn, color: Color.White }, xray: false });
+    expect(attackers).toContainEqual({ square: 'f3', piece: { type: PieceType.Bishop, color: Color.White }, xray: true });
+  });
+
+  test('x-ray stops at a piece that cannot attack along the line', () => {
+    // The knight on d3 blocks the rook; the black pawn on d4 blocks the queen
+    const board = Board.fromFEN('4k3/8/8/3p4/8/3N4/8/3RK3 w - - 0 1');
+    expect(squaresOf(board.getAttackers('d5'))).toEqual([]);
+
+    const blocked = Board.fromFEN('4k3/8/8/3p4/3p4/8/8/3QK3 w - - 0 1');
+    expect(blocked.getAttackers('d5')).toEqual([]);
+  });
+
+  test('x-ray attackers can be left out', () => {
+    const board = Board.fromFEN('4k3/8/8/3p4/8/8/3R4/3RK3 w - - 0 1');
+    const squares = board.getAllSquarePieces();
+
+    expect(AttackDetector.getAttackers(squares, SquareUtils.toIndex('d5'), Color.White)).toHaveLength(2);
+    expect(squaresOf(AttackDetector.getAttackers(squares, SquareUtils.toIndex('d5'), Color.White, false))).toEqual(['d2']);
+  });
+
+  test('pawns only attack forward', () => {
+    const board = Board.fromFEN('4k3/8/8/8/3p4/4P3/8/4K3 w - - 0 1');
+
+    expect(board.getAttackers('d4', Color.White).map(a => a.square)).toEqual(['e3']);
+    expect(board.getAttackers('e3', Color.Black).map(a => a.square)).toEqual(['d4']);
+    expect(board.getAttackers('f2', Color.Black)).toEqual([]);
+  });
+
+  test('agrees with isSquareAttacked on every square of a busy position', () => {
+    const board = Board.fromFEN('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+
+    for (let index = 0; index < 64; index++) {
+      for (const color of [Color.White, Color.Black]) {
+        const direct = board.getAttackers(SquareUtils.fromIndex(index), color).filter(a => !a.xray);
+        expect(direct.length > 0).toBe(board.isSquareAttacked(index, color));
+      }
+    }
+  });
+});
+
+describe('Attack Maps', () => {
+  test('counts direct attackers on each square', () => {
+    const board = new Board();
+    const white = board.getAttackMap(Color.White);
+
+    expect(white[SquareUtils.toIndex('f3')]).toBe(3);
+    expect(white[SquareUtils.toIndex('d3')]).toBe(2);
+    expect(white[SquareUtils.toIndex('e4')]).toBe(0);
+    expect(white[SquareUtils.toIndex('e1')]).toBe(1);
+    expect(white.reduce((sum, count) => sum + count, 0)).toBe(38);
+  });
+
+  test('matches the attacker lists square by square', () => {
+    const board = Board.fromFEN('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+
+    for (const color of [Color.White, Color.Black]) {
+      const map = board.getAttackMap(color);
+      for (let index = 0; index < 64; index++) {
+        const direct = board.getAttackers(SquareUtils.fromIndex(index), color).filter(a => !a.xray);
+        expect(map[index]).toBe(direct.length);
+      }
+    }
+  });
+
+  test('attacked squares of a single piece include its own defended pieces', () => {
+    const board = new Board();
+    const targets = AttackDetector.getAttackedSquares(board.getAllSquarePieces(), SquareUtils.toIndex('g1'))
+      .map(index => SquareUtils.fromIndex(index)).sort();
+
+    expect(targets).toEqual(['e2', 'f3', 'h3']);
+    expect(AttackDetector.getAttackedSquares(board.getAllSquarePieces(), SquareUtils.toIndex('e4'))).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'vitest';
+import { Bitboard, BitboardPosition } from '../../src/chess/bitboard';
+import { AttackDetector } from '../../src/chess/attack_detector';
+import { MoveGenerator } from '../../src/chess/move_generator';
+import { FENParser } from '../../src/chess/fen_parser';
+import { SquareUtils } from '../../src/chess/square_utils';
+import { Color, PieceType, type Piece, type Square } from '../../src/chess/types';
+
+const KIWIPETE_FEN = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+const squaresOf = (lo: number, hi: number): string[] => {
+  const squares: string[] = [];
+  for (let index = 0; index < 64; index++) {
+    if (Bitboard.has(lo, hi, index)) squares.push(SquareUtils.fromIndex(index));
+  }
+  return squares;
+};
+
+const sq = (square: string): number => SquareUtils.toIndex(square as Square);
+
+const tableEntry = (table: Uint32Array, square: string): string[] => {
+  const index = sq(square);
+  return squaresOf(table[index * 2], table[index * 2 + 1]);
+};
+
+const squaresFromFEN = (fen: string): (Piece | null)[] => {
+  const squares: (Piece | null)[] = new Array(64).fill(null);
+  for (const [square, piece] of FENParser.parse(fen).pieces) {
+    squares[SquareUtils.toIndex(square)] = piece;
+  }
+  return squares;
+};
+
+describe('Bitboard Tables', () => {
+  test('knight attacks from a corner and the centre', () => {
+    expect(tableEntry(Bitboard.KNIGHT_ATTACKS, 'a1').sort()).toEqual(['b3', 'c2']);
+    expect(tableEntry(Bitboard.KNIGHT_ATTACKS, 'e4')).toHaveLength(8);
+  });
+
+  test('king attacks do not wrap around the board edge', () => {
+    expect(tableEntry(Bitboard.KING_ATTACKS, 'h4').sort()).toEqual(['g3', 'g4', 'g5', 'h3', 'h5']);
+  });
+
+  test('pawn attacks point towards the opponent', () => {
+    expect(tableEntry(Bitboard.WHITE_PAWN_ATTACKS, 'e4').sort()).toEqual(['d5', 'f5']);
+    expect(tableEntry(Bitboard.BLACK_PAWN_ATTACKS, 'a5')).toEqual(['b4']);
+  });
+
+  test('sliding attacks stop at the first blocker', () => {
+    const occupied = BitboardPosition.fromSquares(squaresFromFEN('7k/8/8/8/1p2R1P1/8/8/4K3 w - - 0 1'));
+    const out = new Uint32Array(2);
+    Bitboard.slidingAttacks(sq('e4'), Bitboard.ROOK_DIRECTIONS,
+      occupied.occupiedLo(), occupied.occupiedHi(), out);
+
+    expect(squaresOf(out[0], out[1]).sort()).toEqual(
+      ['b4', 'c4', 'd4', 'e1', 'e2', 'e3', 'e5', 'e6', 'e7', 'e8', 'f4', 'g4'].sort()
+    );
+  });
+
+  test('bit helpers work across both halves', () => {
+    const lo = (1 << 3) | (1 << 31);
+    const hi = 1 << 30;
+
+    expect(Bitboard.lowestBit(lo, hi)).toBe(3);
+    expect(Bitboard.highestBit(lo, hi)).toBe(62);
+    expect(Bitboard.popCount(lo, hi)).toBe(3);
+  });
+});
+
+describe('BitboardPosition', () => {
+  test.each([
+    ['start position', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'],
+    ['Kiwipete', KIWIPETE_FEN],
+    ['open middlegame', 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10'],
+  ])('attacked squares agree with the array detector in %s', (_, fen) => {
+    const squares = squaresFromFEN(fen);
+    const position = BitboardPosition.fromSquares(squares);
+
+    for (let index = 0; index < 64; index++) {
+      for (const color of [Color.White, Color.Black]) {
+        expect(position.isSquareAttacked(index, color)).toBe(AttackDetector.isSquareAttacked(squares, index, color));
+      }
+    }
+  });
+
+  test('pseudo-legal moves agree with the array generator', () => {
+    const squares = squaresFromFEN(KIWIPETE_FEN);
+    const position = BitboardPosition.fromSquares(squares);
+    const key = (m: { startSquare: string; endSquare: string; promotionPiece?: PieceType }) =>
+      `${m.startSquare}${m.endSquare}${m.promotionPiece ?? ''}`;
+
+    squares.forEach((piece, index) => {
+      if (!piece) return;
+      const square = SquareUtils.fromIndex(index);
+      const expected = MoveGenerator.generateMoves(piece, square, squares, null).map(key).sort();
+      const actual = MoveGenerator.generateBitboardMoves(piece, square, position, null).map(key).sort();
+      expect(actual).toEqual(expected);
+    });
+  });
+
+  test('place and remove keep piece and occupancy boards in step', () => {
+    const position = new BitboardPosition();
+    const knight = { type: PieceType.Knight, color: Color.Black };
+
+    position.place(sq('g8'), knight);
+    expect(squaresOf(...position.pieces(PieceType.Knight, Color.Black))).toEqual(['g8']);
+    expect(squaresOf(...position.occupancy(Color.Black))).toEqual(['g8']);
+
+    position.remove(sq('g8'), knight);
+    expect(position.occupiedLo() | position.occupiedHi()).toBe(0);
+  });
+
+  test('a pinned piece cannot leave the pin line', () => {
+    const position = BitboardPosition.fromSquares(squaresFromFEN('4r1k1/8/8/8/8/8/4R3/4K3 w - - 0 1'));
+
+    expect(position.leavesKingInCheck(sq('e2'), sq('d2'), -1, Color.White, sq('e1'))).toBe(true);
+    expect(position.leavesKingInCheck(sq('e2'), sq('e5'), -1, Color.White, sq('e1'))).toBe(false);
+    expect(position.leavesKingInCheck(sq('e2'), sq('e8'), sq('e8'), Color.White, sq('e1'))).toBe(false);
+  });
+
+  test('the king cannot step along the line of a checking slider', () => {
+    const position = BitboardPosition.fromSquares(squaresFromFEN('6k1/8/8/8/8/8/8/r3K3 w - - 0 1'));
+
+    expect(position.leavesKingInCheck(sq('e1'), sq('f1'), -1, Color.White, sq('e1'))).toBe(true);
+    expect(position.leavesKingInCheck(sq('e1'), sq('e2'), -1, Color.White, sq('e1'))).toBe(false);
+  });
+
+  test('en passant that exposes the king along the rank is illegal', () => {
+    const position = BitboardPosition.fromSquares(squaresFromFEN('8/8/8/K2pP2r/8/8/8/7k w - d6 0 1'));
+    expect(position.leavesKingInCheck(sq('e5'), sq('d6'), sq('d5'), Color.White, sq('a5'))).toBe(true);
+  });
+});
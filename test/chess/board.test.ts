@@ -1,7 +1,7 @@
 import { describe, test, expect } from 'vitest';
 import { Board } from '../../src/chess/board';
-import { Color, Move, PieceType, Square, type File } from '../../src/chess/types';
-import { Action, Command } from '../../src/chess/commands/types';
+import { Color, Move, PieceType, Square, Termination, type File } from '../../src/chess/types';
+import { Action, Command, CommandFailureReason } from '../../src/chess/commands/types';
 
 // Helper to create moves quickly
 const move = (
@@ -130,6 +130,56 @@ describe('Board Functionality', () => {
     });
   });
 
+  describe('Promotion', () => {
+    test('pawn reaching last rank generates all four promotion choices', () => {
+      const board = Board.fromFEN('8/4P3/8/8/8/8/8/K6k w - - 0 1');
+      const promotions = board.getValidMovesForSquare('e7').map(m => m.promotion);
+
+      expect(promotions).toEqual([
+        PieceType.Queen, PieceType.Rook, PieceType.Bishop, PieceType.Knight
+      ]);
+      expect(board.getTargetSquares('e7')).toEqual(['e8']);
+    });
+
+    test('capture onto last rank generates promotion choices', () => {
+      const board = Board.fromFEN('3r4/4P3/8/8/8/8/8/K6k w - - 0 1');
+      const captures = board.getValidMovesForSquare('e7').filter(m => m.endSquare === 'd8');
+      expect(captures).toHaveLength(4);
+    });
+
+    test('underpromotion places chosen piece', () => {
+      const board = Board.fromFEN('k7/8/8/8/8/8/p7/7K b - - 0 1');
+      const result = board.executeMove({ ...move(PieceType.Pawn, Color.Black, 'a2', 'a1'), promotion: PieceType.Knight });
+
+      expect(result).toBe(true);
+      expect(board.getPieceAt('a1')).toEqual({ type: PieceType.Knight, color: Color.Black });
+      expect(board.findPieces(PieceType.Pawn, Color.Black)).toHaveLength(0);
+      expect(board.findPieces(PieceType.Knight, Color.Black)).toEqual(['a1']);
+    });
+
+    test('promotion defaults to queen when no piece chosen', () => {
+      const board = Board.fromFEN('8/4P3/8/8/8/8/8/K6k w - - 0 1');
+      board.executeMove(move(PieceType.Pawn, Color.White, 'e7', 'e8'));
+
+      expect(board.getPieceAt('e8')).toEqual({ type: PieceType.Queen, color: Color.White });
+      expect(board.toFEN()).toBe('4Q3/8/8/8/8/8/8/K6k b - - 0 1');
+    });
+
+    test('promotion piece rejected on a non-promoting move', () => {
+      const board = new Board();
+      const result = board.executeMove({ ...move(PieceType.Pawn, Color.White, 'e2', 'e4'), promotion: PieceType.Queen });
+      expect(result).toBe(false);
+    });
+
+    test('capture promotion removes captured piece and clears castling right', () => {
+      const board = Board.fromFEN('r3k3/1P6/8/8/8/8/8/4K3 w q - 0 1');
+      board.executeMove({ ...move(PieceType.Pawn, Color.White, 'b7', 'a8'), promotion: PieceType.Rook });
+
+      expect(board.getPieceAt('a8')).toEqual({ type: PieceType.Rook, color: Color.White });
+      expect(board.toFEN()).toBe('R3k3/8/8/8/8/8/8/4K3 b - - 0 1');
+    });
+  });
+
   describe('Knight Movement', () => {
     test('knight in center has 8 moves', () => {
       const board = Board.fromFEN('8/8/8/4N3/8/8/8/4K2k w - - 0 1');
@@ -305,6 +355,41 @@ describe('Board Functionality', () => {
       expect(inCheck.isInCheck()).toBe(true);
       expect(notInCheck.isInCheck()).toBe(false);
     });
+
+    test('getPinnedPieces finds pins along ranks and diagonals', () => {
+      const board = Board.fromFEN('k7/8/8/1q6/r2B3K/5N2/8/8 w - - 0 1');
+      expect(board.getPinnedPieces(Color.White)).toEqual(['d4']);
+
+      const diagonal = Board.fromFEN('7k/8/8/1q6/8/3N4/4K3/8 w - - 0 1');
+      expect(diagonal.getPinnedPieces(Color.White)).toEqual(['d3']);
+    });
+
+    test('two pieces between king and slider are not pinned', () => {
+      const board = Board.fromFEN('k7/8/8/8/r1NB3K/8/8/8 w - - 0 1');
+      expect(board.getPinnedPieces(Color.White)).toEqual([]);
+    });
+
+    test('getPinnedPieces works for the side not to move', () => {
+      const board = Board.fromFEN('4k3/4n3/8/8/8/8/8/4RK2 w - - 0 1');
+      expect(board.getPinnedPieces(Color.Black)).toEqual(['e7']);
+      expect(board.getPinnedPieces(Color.White)).toEqual([]);
+    });
+
+    test('getCheckers lists every checking piece', () => {
+      expect(new Board().getCheckers()).toEqual([]);
+      expect(Board.fromFEN('8/8/8/5n2/r6K/8/8/7k w - - 0 1').getCheckers().sort()).toEqual(['a4', 'f5']);
+      expect(Board.fromFEN('8/8/8/6p1/7K/8/8/7k w - - 0 1').getCheckers()).toEqual(['g5']);
+    });
+
+    test('en passant is illegal when it exposes the king along the rank', () => {
+      const board = Board.fromFEN('8/8/8/K2pP2r/8/8/8/7k w - d6 0 1');
+      expect(board.getTargetSquares('e5')).toEqual(['e6']);
+    });
+
+    test('en passant may capture a checking pawn', () => {
+      const board = Board.fromFEN('8/8/8/3pP3/4K3/8/8/7k w - d6 0 1');
+      expect(board.getTargetSquares('e5')).toContain('d6');
+    });
   });
 
   describe('Game End Conditions', () => {
@@ -372,14 +457,28 @@ describe('Board Functionality', () => {
       expect(result.reason).toBe('draw');
     });
 
-    test('50 move rule detected', () => {
-      const board = Board.fromFEN('k7/8/1K6/8/8/8/8/8 w - - 100 50');
+    test('50 move rule detected as claimable draw', () => {
+      const board = Board.fromFEN('k7/p7/1K6/8/8/8/8/R7 w - - 100 50');
+      
+      expect(board.isGameOver().isOver).toBe(false);
+      expect(board.canClaimDraw()).toBe(true);
+      expect(board.claimDraw()).toBe(true);
+      expect(board.isGameOver()).toEqual({ isOver: true, reason: 'draw' });
+    });
+
+    test('75 move rule ends the game automatically', () => {
+      const board = Board.fromFEN('k7/p7/1K6/8/8/8/8/R7 w - - 150 80');
       const result = board.isGameOver();
       
       expect(result.isOver).toBe(true);
       expect(result.reason).toBe('draw');
     });
 
+    test('checkmate on the 75th move takes precedence over the draw', () => {
+      const board = Board.fromFEN('R5k1/5ppp/8/8/8/8/8/4K3 b - - 150 80');
+      expect(board.isGameOver().reason).toBe('checkmate');
+    });
+
     test('game not over in normal position', () => {
       const board = new Board();
       expect(board.isGameOver().isOver).toBe(false);
@@ -452,7 +551,7 @@ describe('Board Functionality', () => {
     });
 
     test('half move clock increments on quiet move', () => {
-      const board = Board.fromFEN('8/8/8/8/4N3/8/8/4K2k w - - 10 1');
+      const board = Board.fromFEN('8/p7/8/8/4N3/8/8/4K2k w - - 10 1');
       board.executeMove(move(PieceType.Knight, Color.White, 'e4', 'f6'));
       
       expect(board.getGameState().halfMoveClock).toBe(11);
@@ -572,7 +671,7 @@ describe('Command Validation', () => {
   });
 
   test('valid move command with no startInfo recognized', () => {
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pb2Pp/Q1Np1pp1/2B5/1K6/PP1BNPp1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pb2Pp/Q1Np1pp1/2B5/1K6/PP1BNPp1/R3B2R w kq - 0 8');
     const command : Command = { 
       startInfo: undefined,
       action: Action.Move,
@@ -592,7 +691,7 @@ describe('Command Validation', () => {
   });
   
   test('valid move command to square with enemy piece recognized', () => {  
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: 'a5',
       action: Action.Move,
@@ -602,7 +701,7 @@ describe('Command Validation', () => {
   });
 
   test('invalid move command to square with friendly piece rejected', () => {
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.King,
       action: Action.Move,
@@ -633,7 +732,7 @@ describe('Command Validation', () => {
   });
 
   test('invalid move command for pawn rejected 2', () => {
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/3p1pp1/2B2Q2/1KN5/PP1BNPP1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/3p1pp1/2B2Q2/1KN5/PP1BNPP1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.Pawn,
       action: Action.Move,
@@ -654,7 +753,7 @@ describe('Command Validation', () => {
   });
 
   test('valid queen move command recognized', () => {   
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp2p/3p1pp1/2B2Q2/2N5/PP1BNPPP/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp2p/3p1pp1/2B2Q2/1KN5/PP1BNPPP/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.Queen,
       action: Action.Move,
@@ -664,7 +763,7 @@ describe('Command Validation', () => {
   });
 
   test('invalid queen move command rejected', () => {  
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q2p1pp1/2B5/1KN5/PP1BNPP1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q2p1pp1/2B5/1KN5/PP1BNPP1/R3B2R w kq - 0 8');
     const command : Command = { 
       startInfo: 'a5',
       action: Action.Move,
@@ -706,7 +805,7 @@ describe('Command Validation', () => {
   });
 
   test('valid king move command recognized', () => {  
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q2p1pp1/2B5/1KN5/PP1BNPP1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q2p1pp1/2B5/1KN5/PP1BNPP1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.King,
       action: Action.Move,  
@@ -738,7 +837,7 @@ describe('Command Validation', () => {
   });
 
   test('valid capture move command recognized', () => { 
-     const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q1Np1pp1/2B5/1K6/PP1BNPP1/R3P2R w kq - 0 8');
+     const board = Board.fromFEN('rnbqk1nr/pp6/2pbp1Pp/Q1Np1pp1/2B5/1K6/PP1BNPP1/R3B2R w kq - 0 8');
      const command : Command = {
       startInfo: 'a5',
       action: Action.Capture,
@@ -748,7 +847,7 @@ describe('Command Validation', () => {
   });
 
   test('valid capture move command with no endInfo recognized', () => {  
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pb3p/Q1NpPpp1/2B5/1K6/PP1BNPp1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.Pawn,
       action: Action.Capture,
@@ -779,7 +878,7 @@ describe('Command Validation', () => {
   });
 
   test('invalid capture command rejected as king cannot move multiple ranks', () => {  
-    const board = Board.fromFEN('rnbqk1nr/pp6/2pb2Pp/Q1Np1pp1/2B5/1K6/PP1BNPp1/R3P2R w kq - 0 8');
+    const board = Board.fromFEN('rnbqk1nr/pp6/2pb2Pp/Q1Np1pp1/2B5/1K6/PP1BNPp1/R3B2R w kq - 0 8');
     const command : Command = {
       startInfo: PieceType.King,
       action: Action.Capture,
@@ -855,6 +954,117 @@ describe('Command Validation', () => {
     expect(board.isValidCommand(command)).toBe(true);
   });
 
+  test('promotion command with chosen piece recognized', () => {
+    const board = Board.fromFEN('8/4P3/8/8/8/8/8/K6k w - - 0 1');
+    const command: Command = {
+      action: Action.Move,
+      endInfo: 'e8',
+      promotion: PieceType.Knight
+    };
+    expect(board.isValidCommand(command)).toBe(true);
+  });
+
+  test('promotion piece on a non-promoting move rejected', () => {
+    const board = new Board();
+    const command: Command = {
+      action: Action.Move,
+      endInfo: 'e4',
+      promotion: PieceType.Queen
+    };
+    expect(board.isValidCommand(command)).toBe(false);
+  });
+
+  test('bare promote command recognized when one pawn can promote', () => {
+    const board = Board.fromFEN('8/4P3/8/8/8/8/8/K6k w - - 0 1');
+    expect(board.isValidCommand({ action: Action.Promote })).toBe(true);
+    expect(new Board().isValidCommand({ action: Action.Promote })).toBe(false);
+  });
+
+  test.each<[string, string, Command]>([
+    ['knight f3', 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+      { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+    ['bishop to c4', 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3',
+      { startInfo: PieceType.Bishop, action: Action.Move, endInfo: 'c4' }],
+    ['knight takes e5', 'r1bqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 0 3',
+      { startInfo: PieceType.Knight, action: Action.Capture, endInfo: 'e5' }],
+  ])('valid minor piece command recognized: %s', (_, fen, command) => {
+    const board = Board.fromFEN(fen);
+    expect(board.isValidCommand(command)).toBe(true);
+  });
+
+  test('valid rook capture command recognized', () => {
+    const board = Board.fromFEN('4k3/p7/8/8/8/8/8/R3K3 w - - 0 1');
+    const command: Command = {
+      startInfo: PieceType.Rook,
+      action: Action.Capture,
+      endInfo: 'a7'
+    };
+    expect(board.isValidCommand(command)).toBe(true);
+  });
+
+  test('rook command blocked by piece in path rejected', () => {
+    const board = Board.fromFEN('4k3/p7/8/8/8/8/P7/R3K3 w - - 0 1');
+    const command: Command = {
+      startInfo: PieceType.Rook,
+      action: Action.Capture,
+      endInfo: 'a7'
+    };
+    expect(board.isValidCommand(command)).toBe(false);
+  });
+
+  test('ambiguous knight command rejected when both knights reach square', () => {
+    const board = Board.fromFEN('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1');
+    const command: Command = {
+      startInfo: PieceType.Knight,
+      action: Action.Move,
+      endInfo: 'd2'
+    };
+    expect(board.isValidCommand(command)).toBe(false);
+  });
+
+  test('pinned knight command rejected', () => {
+    const board = Board.fromFEN('4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1');
+    const command: Command = {
+      startInfo: PieceType.Knight,
+      action: Action.Move,
+      endInfo: 'c3'
+    };
+    expect(board.isValidCommand(command)).toBe(false);
+  });
+
+  test('king move to castling square recognized as castling', () => {
+    const board = Board.fromFEN('r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1');
+    const command: Command = {
+      startInfo: PieceType.King,
+      action: Action.Move,
+      endInfo: 'g1'
+    };
+    expect(board.isValidCommand(command)).toBe(true);
+  });
+
+  test('en passant command with piece startInfo recognized', () => {
+    const board = Board.fromFEN('rnbqkbnr/pppp1ppp/8/4pP2/8/8/PPPPP1PP/RNBQKBNR w KQkq e6 0 3');
+    const command: Command = {
+      startInfo: PieceType.Pawn,
+      action: Action.Capture,
+      endInfo: 'e6'
+    };
+    expect(board.isValidCommand(command)).toBe(true);
+  });
+
+  test('command validation agrees with board move generation', () => {
+    const board = Board.fromFEN('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+    for (const move of board.getAllValidMoves()) {
+      const command: Command = {
+        startInfo: move.startSquare,
+        action: Action.Move,
+        endInfo: move.endSquare,
+        promotion: move.promotion
+      };
+      expect(board.isValidCommand(command)).toBe(true);
+    }
+  });
+
   // Black to move tests
   test('valid move command for black recognized', () => {
     const board = Board.fromFEN('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1');
@@ -865,4 +1075,473 @@ describe('Command Validation', () => {
     };
     expect(board.isValidCommand(command)).toBe(true);
   });
-});
\ No newline at end of file
+});
+describe('Command Execution', () => {
+  test('successful command executes move and reports new state', () => {
+    const board = new Board();
+    const result = board.executeCommand({ startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moves).toEqual([move(PieceType.Knight, Color.White, 'g1', 'f3')]);
+    expect(result.capturedPiece).toBeNull();
+    expect(result.isCheck).toBe(false);
+    expect(result.fen).toBe('rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 1 1');
+    expect(board.toFEN()).toBe(result.fen);
+  });
+
+  test('capture reports captured piece, including en passant', () => {
+    const board = Board.fromFEN('rnbqkbnr/pppp1ppp/8/4pP2/8/8/PPPPP1PP/RNBQKBNR w KQkq e6 0 3');
+    const result = board.executeCommand({ startInfo: 'f', action: Action.Capture, endInfo: 'e6' });
+
+    expect(result.success && result.capturedPiece).toEqual({ type: PieceType.Pawn, color: Color.Black });
+    expect(board.getPieceAt('e5')).toBeNull();
+  });
+
+  test('ambiguous command fails with candidate list and leaves board untouched', () => {
+    const board = Board.fromFEN('4k3/p7/8/8/8/8/8/1N2KN2 w - - 0 1');
+    const fen = board.toFEN();
+    const result = board.executeCommand({ startInfo: PieceType.Knight, action: Action.Move, endInfo: 'd2' });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.reason).toBe(CommandFailureReason.Ambiguous);
+    expect(sortSquares(result.candidates.map(m => m.startSquare))).toEqual(['b1', 'f1']);
+    expect(board.toFEN()).toBe(fen);
+  });
+
+  test('unmatched command fails with no match', () => {
+    const board = new Board();
+    const result = board.executeCommand({ startInfo: PieceType.Queen, action: Action.Move, endInfo: 'd4' });
+    expect(result).toEqual({ success: false, reason: CommandFailureReason.NoMatch, candidates: [] });
+  });
+
+  test('pinned piece move fails because king would be in check', () => {
+    const board = Board.fromFEN('4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1');
+    const result = board.executeCommand({ startInfo: PieceType.Knight, action: Action.Move, endInfo: 'c3' });
+    expect(!result.success && result.reason).toBe(CommandFailureReason.KingInCheck);
+  });
+
+  test('checkmating move reports mate and game over', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    const result = board.executeCommand({ startInfo: PieceType.Rook, action: Action.Move, endInfo: 'a8' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.isCheck).toBe(true);
+    expect(result.isCheckmate).toBe(true);
+    expect(result.gameStatus).toEqual({ isOver: true, reason: 'checkmate', winner: Color.White });
+  });
+
+  test('commands fail once the game is over', () => {
+    const board = Board.fromFEN('R5k1/5ppp/8/8/8/8/8/4K3 b - - 0 1');
+    const result = board.executeCommand({ startInfo: PieceType.King, action: Action.Move, endInfo: 'h8' });
+    expect(!result.success && result.reason).toBe(CommandFailureReason.GameOver);
+  });
+
+  test.each([
+    [Action.ShortCastle, 'g1', 'h1', 'f1'],
+    [Action.LongCastle, 'c1', 'a1', 'd1'],
+  ])('%s executes king and rook moves', (action, kingTo, rookFrom, rookTo) => {
+    const board = Board.fromFEN('r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1');
+    const result = board.executeCommand({ action });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moves).toEqual([
+      move(PieceType.King, Color.White, 'e1', kingTo as Square),
+      move(PieceType.Rook, Color.White, rookFrom as Square, rookTo as Square),
+    ]);
+    expect(board.getPieceAt(rookTo as Square)?.type).toBe(PieceType.Rook);
+  });
+
+  test('castle command fails when castling is not allowed', () => {
+    const board = new Board();
+    expect(board.executeCommand({ action: Action.ShortCastle }).success).toBe(false);
+  });
+
+  test('resign ends the game in favour of the opponent', () => {
+    const board = new Board();
+    board.executeCommand({ startInfo: 'e2', action: Action.Move, endInfo: 'e4' });
+    const result = board.executeCommand({ action: Action.Resign });
+
+    expect(result.success && result.gameStatus).toEqual({ isOver: true, reason: 'resignation', winner: Color.White });
+    expect(board.executeCommand({ startInfo: 'e7', action: Action.Move, endInfo: 'e5' }).success).toBe(false);
+  });
+
+  test('promotion command places chosen piece', () => {
+    const board = Board.fromFEN('8/p3P3/8/8/8/8/8/K6k w - - 0 1');
+    const result = board.executeCommand({ action: Action.Move, endInfo: 'e8', promotion: PieceType.Rook });
+
+    expect(result.success && result.moves[0].promotion).toBe(PieceType.Rook);
+    expect(board.getPieceAt('e8')).toEqual({ type: PieceType.Rook, color: Color.White });
+  });
+
+  test('rank destination moves to the only reachable square on that rank', () => {
+    const board = Board.fromFEN('6k1/8/8/8/8/8/8/R3K3 w - - 0 1');
+    const result = board.executeCommand({ startInfo: PieceType.Rook, action: Action.Move, endInfo: '7' });
+
+    expect(result.success && result.moves).toEqual([move(PieceType.Rook, Color.White, 'a1', 'a7')]);
+  });
+});
+
+describe('Move History', () => {
+  const playAndUndoAll = (fen: string, moves: Move[]) => {
+    const board = Board.fromFEN(fen);
+    const fens = [board.toFEN()];
+    for (const m of moves) {
+      expect(board.executeMove(m)).toBe(true);
+      fens.push(board.toFEN());
+    }
+    for (let i = moves.length - 1; i >= 0; i--) {
+      expect(board.undo()).toEqual(expect.objectContaining({ startSquare: moves[i].startSquare }));
+      expect(board.toFEN()).toBe(fens[i]);
+    }
+    return { board, fens };
+  };
+
+  test('undo restores quiet moves, captures and clocks exactly', () => {
+    playAndUndoAll('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', [
+      move(PieceType.Pawn, Color.White, 'e2', 'e4'),
+      move(PieceType.Pawn, Color.Black, 'd7', 'd5'),
+      move(PieceType.Pawn, Color.White, 'e4', 'd5'),
+      move(PieceType.Knight, Color.Black, 'g8', 'f6'),
+    ]);
+  });
+
+  test('undo restores en passant capture', () => {
+    const { board } = playAndUndoAll('rnbqkbnr/pppp1ppp/8/4pP2/8/8/PPPPP1PP/RNBQKBNR w KQkq e6 0 3', [
+      move(PieceType.Pawn, Color.White, 'f5', 'e6'),
+    ]);
+    expect(board.getPieceAt('e5')).toEqual({ type: PieceType.Pawn, color: Color.Black });
+    expect(board.getGameState().enPassantSquare).toBe('e6');
+  });
+
+  test('undo restores castling rook and castling rights', () => {
+    const { board } = playAndUndoAll('r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1', [
+      move(PieceType.King, Color.White, 'e1', 'c1'),
+      move(PieceType.King, Color.Black, 'e8', 'g8'),
+    ]);
+    expect(board.getTargetSquares('e1')).toContain('g1');
+    expect(board.getKingPosition(Color.White)).toBe(4);
+  });
+
+  test('undo restores promoted pawn and captured piece', () => {
+    const { board } = playAndUndoAll('r3k3/1P6/8/8/8/8/8/4K3 w q - 0 1', [
+      { ...move(PieceType.Pawn, Color.White, 'b7', 'a8'), promotion: PieceType.Knight },
+    ]);
+    expect(board.findPieces(PieceType.Knight, Color.White)).toHaveLength(0);
+    expect(board.findPieces(PieceType.Pawn, Color.White)).toEqual(['b7']);
+  });
+
+  test('redo replays undone moves in order', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    board.executeMove(move(PieceType.Pawn, Color.Black, 'e7', 'e5'));
+    const fen = board.toFEN();
+
+    board.undo();
+    board.undo();
+    expect(board.redo()?.endSquare).toBe('e4');
+    expect(board.redo()?.endSquare).toBe('e5');
+    expect(board.redo()).toBeNull();
+    expect(board.toFEN()).toBe(fen);
+  });
+
+  test('new move clears redo stack', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    board.undo();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'd2', 'd4'));
+
+    expect(board.redo()).toBeNull();
+    expect(board.getHistory().map(r => r.move.endSquare)).toEqual(['d4']);
+  });
+
+  test('undo on empty history returns null', () => {
+    expect(new Board().undo()).toBeNull();
+  });
+
+  test('history records captured piece and prior state', () => {
+    const board = Board.fromFEN('8/8/3p4/8/4N3/8/8/4K2k w - - 7 12');
+    board.executeMove(move(PieceType.Knight, Color.White, 'e4', 'd6'));
+
+    expect(board.getHistory()).toEqual([{
+      move: move(PieceType.Knight, Color.White, 'e4', 'd6'),
+      capturedPiece: { type: PieceType.Pawn, color: Color.Black },
+      capturedSquare: 'd6',
+      castlingRights: { whiteKingside: false, whiteQueenside: false, blackKingside: false, blackQueenside: false },
+      enPassantSquare: null,
+      halfMoveClock: 7,
+      fullMoveNumber: 12,
+    }]);
+  });
+
+  test('undo and redo commands execute through executeCommand', () => {
+    const board = new Board();
+    expect(board.isValidCommand({ action: Action.Undo })).toBe(false);
+    expect(board.executeCommand({ action: Action.Undo }).success).toBe(false);
+
+    board.executeCommand({ startInfo: 'e2', action: Action.Move, endInfo: 'e4' });
+    const undone = board.executeCommand({ action: Action.Undo });
+    expect(undone.success && undone.moves).toEqual([move(PieceType.Pawn, Color.White, 'e2', 'e4')]);
+    expect(board.getPieceAt('e2')?.type).toBe(PieceType.Pawn);
+
+    const redone = board.executeCommand({ action: Action.Redo });
+    expect(redone.success && redone.fen).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+  });
+
+  test('checkmate can be taken back', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    board.executeCommand({ startInfo: PieceType.Rook, action: Action.Move, endInfo: 'a8' });
+    expect(board.isGameOver().isOver).toBe(true);
+
+    expect(board.executeCommand({ action: Action.Undo }).success).toBe(true);
+    expect(board.isGameOver().isOver).toBe(false);
+  });
+});
+
+describe('Repetition Detection', () => {
+  const shuffle = [
+    move(PieceType.Knight, Color.White, 'g1', 'f3'),
+    move(PieceType.Knight, Color.Black, 'g8', 'f6'),
+    move(PieceType.Knight, Color.White, 'f3', 'g1'),
+    move(PieceType.Knight, Color.Black, 'f6', 'g8'),
+  ];
+
+  const playShuffles = (board: Board, times: number) => {
+    for (let i = 0; i < times; i++) {
+      shuffle.forEach(m => expect(board.executeMove(m)).toBe(true));
+    }
+  };
+
+  test('incremental position key matches key of same position loaded from FEN', () => {
+    const board = new Board();
+    const moves = [
+      move(PieceType.Pawn, Color.White, 'e2', 'e4'),
+      move(PieceType.Pawn, Color.Black, 'c7', 'c5'),
+      move(PieceType.Knight, Color.White, 'g1', 'f3'),
+      move(PieceType.Pawn, Color.Black, 'd7', 'd6'),
+      move(PieceType.Bishop, Color.White, 'f1', 'e2'),
+      move(PieceType.Knight, Color.Black, 'g8', 'f6'),
+      move(PieceType.King, Color.White, 'e1', 'g1'),
+    ];
+    for (const m of moves) {
+      board.executeMove(m);
+      expect(board.getPositionKey()).toBe(Board.fromFEN(board.toFEN()).getPositionKey());
+    }
+  });
+
+  test('transposed move orders reach the same key', () => {
+    const a = new Board();
+    a.executeMove(move(PieceType.Knight, Color.White, 'g1', 'f3'));
+    a.executeMove(move(PieceType.Knight, Color.Black, 'g8', 'f6'));
+    a.executeMove(move(PieceType.Knight, Color.White, 'b1', 'c3'));
+
+    const b = new Board();
+    b.executeMove(move(PieceType.Knight, Color.White, 'b1', 'c3'));
+    b.executeMove(move(PieceType.Knight, Color.Black, 'g8', 'f6'));
+    b.executeMove(move(PieceType.Knight, Color.White, 'g1', 'f3'));
+
+    expect(a.getPositionKey()).toBe(b.getPositionKey());
+  });
+
+  test('side to move, castling rights and en passant change the key', () => {
+    const base = Board.fromFEN('r3k2r/8/8/3pP3/8/8/8/R3K2R w KQkq - 0 1').getPositionKey();
+
+    expect(Board.fromFEN('r3k2r/8/8/3pP3/8/8/8/R3K2R b KQkq - 0 1').getPositionKey()).not.toBe(base);
+    expect(Board.fromFEN('r3k2r/8/8/3pP3/8/8/8/R3K2R w Kkq - 0 1').getPositionKey()).not.toBe(base);
+    expect(Board.fromFEN('r3k2r/8/8/3pP3/8/8/8/R3K2R w KQkq d6 0 1').getPositionKey()).not.toBe(base);
+  });
+
+  test('en passant square without a capturing pawn does not change the key', () => {
+    const withEp = Board.fromFEN('4k3/8/8/8/4P3/8/8/4K3 b - e3 0 1');
+    const withoutEp = Board.fromFEN('4k3/8/8/8/4P3/8/8/4K3 b - - 0 1');
+    expect(withEp.getPositionKey()).toBe(withoutEp.getPositionKey());
+  });
+
+  test('threefold repetition is claimable but does not end the game', () => {
+    const board = new Board();
+    playShuffles(board, 1);
+    expect(board.getRepetitionCount()).toBe(2);
+    expect(board.canClaimDraw()).toBe(false);
+
+    playShuffles(board, 1);
+    expect(board.isThreefoldRepetition()).toBe(true);
+    expect(board.canClaimDraw()).toBe(true);
+    expect(board.isGameOver().isOver).toBe(false);
+  });
+
+  test('fivefold repetition ends the game automatically', () => {
+    const board = new Board();
+    playShuffles(board, 4);
+
+    expect(board.isFivefoldRepetition()).toBe(true);
+    expect(board.isGameOver()).toEqual({ isOver: true, reason: 'draw' });
+  });
+
+  test('undo removes positions from the repetition table', () => {
+    const board = new Board();
+    playShuffles(board, 2);
+    board.undo();
+    board.undo();
+    board.undo();
+    board.undo();
+
+    expect(board.getRepetitionCount()).toBe(2);
+    expect(board.getPositionKey()).toBe(new Board().getPositionKey());
+  });
+
+  test('claim draw command ends game only when a claim is valid', () => {
+    const board = new Board();
+    expect(board.executeCommand({ action: Action.ClaimDraw }).success).toBe(false);
+
+    playShuffles(board, 2);
+    const result = board.executeCommand({ action: Action.ClaimDraw });
+    expect(result.success && result.gameStatus).toEqual({ isOver: true, reason: 'draw' });
+  });
+});
+
+describe('Game Result', () => {
+  const SHUFFLE = [
+    move(PieceType.Knight, Color.White, 'g1', 'f3'),
+    move(PieceType.Knight, Color.Black, 'g8', 'f6'),
+    move(PieceType.Knight, Color.White, 'f3', 'g1'),
+    move(PieceType.Knight, Color.Black, 'f6', 'g8'),
+  ];
+
+  test('game in progress has no result', () => {
+    expect(new Board().getResult()).toBeNull();
+  });
+
+  test('checkmate records the winner and the mating move', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 30');
+    const mate = move(PieceType.Rook, Color.White, 'a1', 'a8');
+    board.executeMove(mate);
+
+    expect(board.getResult()).toEqual({
+      winner: Color.White,
+      termination: Termination.Checkmate,
+      ply: 1,
+      fullMoveNumber: 30,
+      lastMove: mate
+    });
+  });
+
+  test.each([
+    ['stalemate', 'k7/2Q5/1K6/8/8/8/8/8 b - - 0 1', Termination.Stalemate],
+    ['75-move rule', 'k7/p7/1K6/8/8/8/8/R7 w - - 150 80', Termination.SeventyFiveMoveRule],
+    ['insufficient material', 'k7/8/8/3K4/8/8/8/8 w - - 0 1', Termination.InsufficientMaterial],
+  ])('%s is drawn automatically', (_, fen, termination) => {
+    const result = Board.fromFEN(fen).getResult();
+
+    expect(result?.winner).toBeNull();
+    expect(result?.termination).toBe(termination);
+  });
+
+  test('fivefold repetition is drawn automatically', () => {
+    const board = new Board();
+    for (let i = 0; i < 4; i++) SHUFFLE.forEach(m => board.executeMove(m));
+
+    expect(board.getResult()?.termination).toBe(Termination.FivefoldRepetition);
+    expect(board.getResult()?.ply).toBe(16);
+  });
+
+  test('claims record which rule applied', () => {
+    const repetition = new Board();
+    for (let i = 0; i < 2; i++) SHUFFLE.forEach(m => repetition.executeMove(m));
+    repetition.claimDraw();
+    expect(repetition.getResult()?.termination).toBe(Termination.ThreefoldRepetition);
+
+    const fiftyMoves = Board.fromFEN('k7/p7/1K6/8/8/8/8/R7 w - - 100 50');
+    fiftyMoves.claimDraw();
+    expect(fiftyMoves.getResult()?.termination).toBe(Termination.FiftyMoveRule);
+  });
+
+  test.each([
+    ['resignation', (board: Board) => board.resign(Color.White), Color.Black, Termination.Resignation],
+    ['agreement', (board: Board) => board.agreeDraw(), null, Termination.Agreement],
+    ['timeout', (board: Board) => board.flag(Color.Black), Color.White, Termination.Timeout],
+    ['abandonment', (board: Board) => board.abandon(Color.White), Color.Black, Termination.Abandonment],
+  ])('%s ends the game', (_, end, winner, termination) => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+
+    expect(end(board)).toBe(true);
+    expect(board.getResult()).toEqual({
+      winner,
+      termination,
+      ply: 1,
+      fullMoveNumber: 1,
+      lastMove: move(PieceType.Pawn, Color.White, 'e2', 'e4')
+    });
+  });
+
+  test('resign defaults to the side to move', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    board.resign();
+
+    expect(board.getResult()?.winner).toBe(Color.White);
+  });
+
+  test('running out of time against a lone knight is a draw', () => {
+    const board = Board.fromFEN('3q4/8/8/4k3/8/8/8/4K1N1 w - - 0 1');
+    board.flag(Color.Black);
+
+    expect(board.getResult()?.winner).toBeNull();
+    expect(board.getResult()?.termination).toBe(Termination.Timeout);
+    expect(board.isGameOver()).toEqual({ isOver: true, reason: 'timeout' });
+  });
+
+  test('a finished game refuses moves, redo and further results', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    board.executeMove(move(PieceType.Pawn, Color.Black, 'e7', 'e5'));
+    board.undo();
+    board.resign();
+
+    expect(board.executeMove(move(PieceType.Pawn, Color.Black, 'd7', 'd5'))).toBe(false);
+    expect(board.redo()).toBeNull();
+    expect(board.agreeDraw()).toBe(false);
+    expect(board.flag(Color.Black)).toBe(false);
+    expect(board.getResult()?.termination).toBe(Termination.Resignation);
+  });
+
+  test('undo withdraws a declared result', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    board.agreeDraw();
+    board.undo();
+
+    expect(board.getResult()).toBeNull();
+    expect(board.executeMove(move(PieceType.Pawn, Color.Black, 'e7', 'e5'))).toBe(true);
+  });
+
+  test('undoing a resignation leaves the position unchanged', () => {
+    const board = new Board();
+    board.executeMove(move(PieceType.Pawn, Color.White, 'e2', 'e4'));
+    const fen = board.toFEN();
+    board.resign();
+
+    const undone = board.executeCommand({ action: Action.Undo });
+
+    expect(undone.success && undone.moves).toEqual([]);
+    expect(board.getResult()).toBeNull();
+    expect(board.toFEN()).toBe(fen);
+    expect(board.getHistory()).toHaveLength(1);
+  });
+
+  test('command results carry the game result', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    const result = board.executeCommand({ startInfo: PieceType.Rook, action: Action.Move, endInfo: 'a8' });
+
+    expect(result.success && result.result?.termination).toBe(Termination.Checkmate);
+  });
+
+  test('clones keep a declared result', () => {
+    const board = new Board();
+    board.abandon(Color.Black);
+    expect(board.clone().getResult()?.termination).toBe(Termination.Abandonment);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { Chess960 } from '../../src/chess/chess960';
+import { FENParser, FENParseError } from '../../src/chess/fen_parser';
+import { SANParser } from '../../src/chess/san';
+import { PGNParser } from '../../src/chess/pgn';
+import { Color, PieceType, type Move, type Square } from '../../src/chess/types';
+import { Action, CommandFailureReason } from '../../src/chess/commands/types';
+
+const move = (piece: PieceType, color: Color, from: Square, to: Square): Move => ({
+  piece, color, startSquare: from, endSquare: to
+});
+
+const STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+// King on b1 between rooks on a1 and f1
+const KING_B1_FEN = 'rk3r2/pppppppp/8/8/8/8/PPPPPPPP/RK3R2 w KQkq - 0 1';
+
+const letters = (positionNumber: number): string =>
+  Chess960.backRank(positionNumber).map(type => type === PieceType.Knight ? 'N' : type[0].toUpperCase()).join('');
+
+describe('Chess960 Starting Positions', () => {
+  test.each([
+    [0, 'BBQNNRKR'],
+    [518, 'RNBQKBNR'],
+    [959, 'RKRNNQBB'],
+  ])('position %i is %s', (positionNumber, backRank) => {
+    expect(letters(positionNumber)).toBe(backRank);
+  });
+
+  test('all 960 positions are distinct and legal', () => {
+    const seen = new Set<string>();
+
+    for (let n = 0; n < Chess960.POSITION_COUNT; n++) {
+      const rank = letters(n);
+      seen.add(rank);
+
+      const bishops = [...rank].flatMap((piece, file) => piece === 'B' ? [file] : []);
+      expect(bishops[0] % 2).not.toBe(bishops[1] % 2);
+      expect(rank).toMatch(/^[^K]*R[^K]*K[^K]*R[^K]*$/);
+    }
+
+    expect(seen.size).toBe(960);
+  });
+
+  test.each([-1, 960, 1.5])('position number %s is rejected', positionNumber => {
+    expect(() => Chess960.backRank(positionNumber)).toThrow(RangeError);
+  });
+
+  test('position 518 sets up the standard position in Chess960 mode', () => {
+    const board = Board.fromChess960Position(518);
+    expect(board.toFEN()).toBe(STANDARD_FEN);
+    expect(board.isChess960()).toBe(true);
+  });
+
+  test('random position uses the supplied random source', () => {
+    expect(Chess960.randomPositionNumber(() => 0.5)).toBe(480);
+  });
+});
+
+describe('Chess960 FEN', () => {
+  test('X-FEN KQkq resolve to the outermost rooks', () => {
+    const parsed = FENParser.parse(KING_B1_FEN, true);
+    expect(parsed.castlingRookFiles).toEqual({
+      whiteKingside: 5, whiteQueenside: 0, blackKingside: 5, blackQueenside: 0
+    });
+  });
+
+  test('Shredder-FEN file letters name the castling rooks', () => {
+    const parsed = FENParser.parse(KING_B1_FEN.replace('KQkq', 'FAfa'), true);
+    expect(parsed.castlingRights).toEqual({
+      whiteKingside: true, whiteQueenside: true, blackKingside: true, blackQueenside: true
+    });
+    expect(parsed.castlingRookFiles.whiteKingside).toBe(5);
+  });
+
+  test('FEN is generated in X-FEN or Shredder-FEN', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    expect(board.toFEN()).toBe(KING_B1_FEN);
+    expect(board.toFEN('shredder')).toBe(KING_B1_FEN.replace('KQkq', 'FAfa'));
+  });
+
+  test('X-FEN names an inner castling rook by its file', () => {
+    const fen = '1k6/pppppppp/8/8/8/8/PPPPPPPP/RK3R1R w F - 0 1';
+    const board = Board.fromFEN(fen, true);
+
+    expect(board.getCastlingRookFiles().whiteKingside).toBe(5);
+    expect(board.toFEN()).toBe(fen);
+  });
+
+  test.each([
+    ['missing rook for file letter', '1k6/pppppppp/8/8/8/8/PPPPPPPP/RK6 w G - 0 1', /no white rook/],
+    ['no rook on that side', '1k6/pppppppp/8/8/8/8/PPPPPPPP/RK6 w K - 0 1', /no white rook/],
+    ['king off its back rank', '8/kppppppp/8/8/8/8/PPPPPPPP/RK6 w k - 0 1', /black king on its back rank/],
+    ['two rights for one side', KING_B1_FEN.replace('KQkq', 'KFkq'), /duplicate castling right/],
+  ])('%s rejected', (_, fen, message) => {
+    expect(() => FENParser.parse(fen, true)).toThrow(message);
+  });
+
+  test('file letters are rejected outside Chess960 mode', () => {
+    const error = (() => {
+      try {
+        FENParser.parse(STANDARD_FEN.replace('KQkq', 'HAha'));
+      } catch (e) {
+        return e as FENParseError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(FENParseError);
+    expect(error?.message).toMatch(/only valid in Chess960/);
+  });
+});
+
+describe('Chess960 Castling', () => {
+  test('castling is encoded as the king taking its own rook', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    expect(board.getTargetSquares('b1')).toEqual(expect.arrayContaining(['a1', 'f1']));
+    expect(board.getTargetSquares('b1')).not.toContain('g1');
+  });
+
+  test.each([
+    ['kingside', 'f1', 'g1', 'f1'],
+    ['queenside', 'a1', 'c1', 'd1'],
+  ])('%s castling puts king on %s target files', (_, rookSquare, kingTo, rookTo) => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    expect(board.executeMove(move(PieceType.King, Color.White, 'b1', rookSquare as Square))).toBe(true);
+
+    expect(board.getPieceAt(kingTo as Square)).toEqual({ type: PieceType.King, color: Color.White });
+    expect(board.getPieceAt(rookTo as Square)).toEqual({ type: PieceType.Rook, color: Color.White });
+    expect(board.getPieceAt('b1')).toBeNull();
+    expect(board.getGameState().castlingRights.whiteKingside).toBe(false);
+    expect(board.getGameState().castlingRights.whiteQueenside).toBe(false);
+  });
+
+  test('king and rook can swap squares', () => {
+    const board = Board.fromFEN('5kr1/6p1/8/8/8/8/6P1/5KR1 w Kk - 0 1', true);
+    expect(board.executeMove(move(PieceType.King, Color.White, 'f1', 'g1'))).toBe(true);
+
+    expect(board.getPieceAt('g1')?.type).toBe(PieceType.King);
+    expect(board.getPieceAt('f1')?.type).toBe(PieceType.Rook);
+  });
+
+  test('king already on its target square castles by moving only the rook', () => {
+    const board = Board.fromFEN('r5kr/8/8/8/8/8/8/R5KR w KQkq - 0 1', true);
+    expect(board.executeMove(move(PieceType.King, Color.White, 'g1', 'h1'))).toBe(true);
+
+    expect(board.getPieceAt('g1')?.type).toBe(PieceType.King);
+    expect(board.getPieceAt('f1')?.type).toBe(PieceType.Rook);
+    expect(board.getPieceAt('h1')).toBeNull();
+  });
+
+  test('undo restores king, rook and castling rights', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    const keyBefore = board.getPositionKey();
+
+    board.executeMove(move(PieceType.King, Color.White, 'b1', 'a1'));
+    board.undo();
+
+    expect(board.toFEN()).toBe(KING_B1_FEN);
+    expect(board.getPositionKey()).toBe(keyBefore);
+  });
+
+  test('cannot castle through an attacked square', () => {
+    const board = Board.fromFEN('rk2r3/pppp1ppp/8/8/8/8/PPPP1PPP/RK3R2 w KQ - 0 1', true);
+    expect(board.getTargetSquares('b1')).not.toContain('f1');
+    expect(board.getTargetSquares('b1')).toContain('a1');
+  });
+
+  test('cannot castle when a piece stands on the king target square', () => {
+    const board = Board.fromFEN('rk3r2/pppppppp/8/8/8/8/PPPPPPPP/RK3RN1 w KQkq - 0 1', true);
+    expect(board.getTargetSquares('b1')).not.toContain('f1');
+  });
+
+  test('moving a castling rook removes only its right', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    board.executeMove(move(PieceType.Rook, Color.White, 'f1', 'e1'));
+
+    expect(board.getGameState().castlingRights.whiteKingside).toBe(false);
+    expect(board.getGameState().castlingRights.whiteQueenside).toBe(true);
+  });
+
+  test.each([
+    // The f1 rook is already on its kingside target square
+    [Action.ShortCastle, KING_B1_FEN, [move(PieceType.King, Color.White, 'b1', 'g1')]],
+    [Action.LongCastle, KING_B1_FEN, [
+      move(PieceType.King, Color.White, 'b1', 'c1'),
+      move(PieceType.Rook, Color.White, 'a1', 'd1'),
+    ]],
+    // The king is already on g1
+    [Action.ShortCastle, 'r5kr/8/8/8/8/8/8/R5KR w KQkq - 0 1', [move(PieceType.Rook, Color.White, 'h1', 'f1')]],
+  ])('voice %s from %s reports only the pieces that move', (action, fen, moves) => {
+    const board = Board.fromFEN(fen, true);
+    const result = board.executeCommand({ action });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moves).toEqual(moves);
+  });
+
+  test('naming the king target square is not a castling command in Chess960', () => {
+    // Castling is the king taking its own rook, so "king g1" asks for a king move to g1,
+    // which the king on b1 cannot make; "castle short" is the way to castle by voice
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    const result = board.executeCommand({ startInfo: PieceType.King, action: Action.Move, endInfo: 'g1' });
+
+    expect(!result.success && result.reason).toBe(CommandFailureReason.NoMatch);
+    expect(board.getPieceAt('b1')?.type).toBe(PieceType.King);
+  });
+
+  test('voice castling fails when the path is blocked', () => {
+    const board = Board.fromFEN('rk3r2/pppppppp/8/8/8/8/PPPPPPPP/RK3RN1 w KQkq - 0 1', true);
+    const result = board.executeCommand({ action: Action.ShortCastle });
+    expect(!result.success && result.reason).toBe(CommandFailureReason.NoMatch);
+  });
+});
+
+describe('Chess960 SAN and PGN', () => {
+  test('castling uses O-O and O-O-O', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+
+    expect(SANParser.parse(board, 'O-O')).toEqual(move(PieceType.King, Color.White, 'b1', 'f1'));
+    expect(SANParser.generate(board, move(PieceType.King, Color.White, 'b1', 'a1'))).toBe('O-O-O');
+  });
+
+  test('games round trip with a Variant tag', () => {
+    const board = Board.fromFEN(KING_B1_FEN, true);
+    board.executeMove(move(PieceType.King, Color.White, 'b1', 'f1'));
+    board.executeMove(move(PieceType.King, Color.Black, 'b8', 'a8'));
+
+    const pgn = PGNParser.generate(PGNParser.fromBoard(board));
+    expect(pgn).toContain('[Variant "Chess960"]');
+    expect(pgn).toContain(`[FEN "${KING_B1_FEN}"]`);
+    expect(pgn).toContain('1. O-O O-O-O');
+
+    expect(PGNParser.toBoard(PGNParser.parse(pgn)).toFEN()).toBe(board.toFEN());
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, test, expect } from 'vitest';
+import { CommandParser } from '../../src/chess/commands/command_parser';
+import { Action, type Command } from '../../src/chess/commands/types';
+import {
+  CommandParseError,
+  CommandParseErrorCode,
+  ConflictingActionsError,
+  EmptyCommandError,
+  MissingDestinationError,
+  NoTokensError,
+  UnknownWordError,
+} from '../../src/chess/commands/command_parse_error';
+import { PieceType } from '../../src/chess/types';
+
+describe('Command Parser', () => {
+  describe('Promotion', () => {
+    test.each<[string, Command]>([
+      ['e8 queen', { action: Action.Move, endInfo: 'e8', promotion: PieceType.Queen }],
+      ['pawn to h1 knight', { startInfo: PieceType.Pawn, action: Action.Move, endInfo: 'h1', promotion: PieceType.Knight }],
+      ['b takes a8 promote to rook', { startInfo: 'b', action: Action.Capture, endInfo: 'a8', promotion: PieceType.Rook }],
+      ['e seven e eight bishop', { startInfo: 'e7', action: Action.Move, endInfo: 'e8', promotion: PieceType.Bishop }],
+      ['f8 promote knight', { action: Action.Move, endInfo: 'f8', promotion: PieceType.Knight }],
+    ])('"%s" parses with promotion piece', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test.each<[string, Command]>([
+      ['promote', { action: Action.Promote }],
+      ['promote pawn', { startInfo: PieceType.Pawn, action: Action.Promote }],
+      ['pawn promote to knight', { startInfo: PieceType.Pawn, action: Action.Promote, promotion: PieceType.Knight }],
+    ])('"%s" parses as promote action', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test('piece after a capture keyword is a capture target, not a promotion', () => {
+      expect(CommandParser.parseCommand('pawn takes queen')).toEqual({
+        startInfo: PieceType.Pawn,
+        action: Action.Capture,
+        endInfo: PieceType.Queen,
+      });
+    });
+
+    test('king and pawn are not promotion pieces', () => {
+      expect(CommandParser.parseCommand('e8 king').promotion).toBeUndefined();
+    });
+  });
+
+  describe('Undo and Redo', () => {
+    test.each(['undo', 'undo that', 'take back', 'Takeback', 'take that back', 'take it back'])(
+      '"%s" parses as undo',
+      (input) => {
+        expect(CommandParser.parseCommand(input)).toEqual({ action: Action.Undo });
+      }
+    );
+
+    test.each(['redo', 'redo that'])('"%s" parses as redo', (input) => {
+      expect(CommandParser.parseCommand(input)).toEqual({ action: Action.Redo });
+    });
+
+    test('capture keyword is not mistaken for take back', () => {
+      expect(CommandParser.parseCommand('pawn takes b5').action).toBe(Action.Capture);
+    });
+  });
+
+  describe('Draw Claims', () => {
+    test.each(['claim draw', 'I claim a draw'])('"%s" parses as a draw claim', (input) => {
+      expect(CommandParser.parseCommand(input)).toEqual({ action: Action.ClaimDraw });
+    });
+  });
+
+  describe('Filler Words', () => {
+    test.each<[string, Command]>([
+      ['my knight to f3 please', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ['knight from g1 to f3', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ['um the pawn takes on d5', { startInfo: PieceType.Pawn, action: Action.Capture, endInfo: 'd5' }],
+    ])('"%s" ignores filler', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+  });
+
+  describe('Leading Move', () => {
+    test.each<[string, Command]>([
+      ['move pawn to e4', { startInfo: PieceType.Pawn, action: Action.Move, endInfo: 'e4' }],
+      ['move the knight to f3', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ['move e4', { action: Action.Move, endInfo: 'e4' }],
+    ])('"%s" moves the named piece', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+  });
+
+  describe('Fuzzy Matching', () => {
+    test.each<[string, Command]>([
+      ['rock to d4', { startInfo: PieceType.Rook, action: Action.Move, endInfo: 'd4' }],
+      ['brook d4', { startInfo: PieceType.Rook, action: Action.Move, endInfo: 'd4' }],
+      ['bishup c4', { startInfo: PieceType.Bishop, action: Action.Move, endInfo: 'c4' }],
+      ['queens d4', { startInfo: PieceType.Queen, action: Action.Move, endInfo: 'd4' }],
+      ['nights f3', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ["king's e2", { startInfo: PieceType.King, action: Action.Move, endInfo: 'e2' }],
+      ['knight tapes e5', { startInfo: PieceType.Knight, action: Action.Capture, endInfo: 'e5' }],
+      ['knight take e5', { startInfo: PieceType.Knight, action: Action.Capture, endInfo: 'e5' }],
+      ['knight ate e5', { startInfo: PieceType.Knight, action: Action.Capture, endInfo: 'e5' }],
+      ['pawn too e4', { startInfo: PieceType.Pawn, action: Action.Move, endInfo: 'e4' }],
+    ])('"%s" is corrected', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test.each<[string, Command]>([
+      ['e for', { action: Action.Move, endInfo: 'e4' }],
+      ['knight f tree', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ['h ate', { action: Action.Move, endInfo: 'h8' }],
+      ['b too b four', { startInfo: 'b2', action: Action.Move, endInfo: 'b4' }],
+    ])('"%s" reads a number after a file letter', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test('a possessive before a piece name is not corrected', () => {
+      expect(() => CommandParser.parseCommand("king's pawn to e4")).toThrow(UnknownWordError);
+    });
+
+    test('corrections do not disturb undo', () => {
+      expect(CommandParser.parseCommand('take back')).toEqual({ action: Action.Undo });
+    });
+
+    test('words the parser knows have no suggestions', () => {
+      expect(CommandParser.suggest('rook')).toEqual([]);
+      expect(CommandParser.suggest('the')).toEqual([]);
+      expect(CommandParser.suggest('ate').map(m => m.word)).toEqual(['takes', 'eight']);
+    });
+  });
+
+  describe('Spelled-out Files and Ordinal Ranks', () => {
+    test.each<[string, Command]>([
+      ['bravo four', { action: Action.Move, endInfo: 'b4' }],
+      ['delta to echo five', { startInfo: 'd', action: Action.Move, endInfo: 'e5' }],
+      ['knight foxtrot three', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'f3' }],
+      ['golf takes hotel six', { startInfo: 'g', action: Action.Capture, endInfo: 'h6' }],
+      ['alpha seven alpha eight queen', { startInfo: 'a7', action: Action.Move, endInfo: 'a8', promotion: PieceType.Queen }],
+    ])('phonetic alphabet: "%s"', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test.each<[string, Command]>([
+      ['bee four', { action: Action.Move, endInfo: 'b4' }],
+      ['see four takes dee five', { startInfo: 'c4', action: Action.Capture, endInfo: 'd5' }],
+      ['knight gee five', { startInfo: PieceType.Knight, action: Action.Move, endInfo: 'g5' }],
+      ['aitch three', { action: Action.Move, endInfo: 'h3' }],
+      ['bishop to be five', { startInfo: PieceType.Bishop, action: Action.Move, endInfo: 'b5' }],
+    ])('letter homophones: "%s"', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+
+    test('a letter homophone without a rank is not read as a file', () => {
+      expect(() => CommandParser.parseCommand('i see')).toThrow(UnknownWordError);
+    });
+
+    test.each<[string, Command]>([
+      ['rook to the seventh', { startInfo: PieceType.Rook, action: Action.Move, endInfo: '7' }],
+      ['rook to the 7th rank', { startInfo: PieceType.Rook, action: Action.Move, endInfo: '7' }],
+      ['queen takes on the first', { startInfo: PieceType.Queen, action: Action.Capture, endInfo: '1' }],
+      ['e fourth', { action: Action.Move, endInfo: 'e4' }],
+      ['move the rook to the eighth', { startInfo: PieceType.Rook, action: Action.Move, endInfo: '8' }],
+    ])('ordinal ranks: "%s"', (input, expected) => {
+      expect(CommandParser.parseCommand(input)).toEqual(expected);
+    });
+  });
+
+  describe('Parse Errors', () => {
+    const parseError = (input: string): CommandParseError => {
+      try {
+        CommandParser.parseCommand(input);
+      } catch (error) {
+        return error as CommandParseError;
+      }
+      throw new Error(`"${input}" parsed without an error`);
+    };
+
+    test.each(['', '   '])('empty input %j', (input) => {
+      const error = parseError(input);
+
+      expect(error).toBeInstanceOf(EmptyCommandError);
+      expect(error).toBeInstanceOf(CommandParseError);
+      expect(error.code).toBe(CommandParseErrorCode.EmptyInput);
+      expect(error.input).toBe(input);
+    });
+
+    test('only filler words', () => {
+      const error = parseError('um please');
+
+      expect(error).toBeInstanceOf(NoTokensError);
+      expect(error.code).toBe(CommandParseErrorCode.NoTokens);
+      expect(error.normalized).toBe('um please');
+    });
+
+    test('unknown words are reported with their positions', () => {
+      const error = parseError('Horsey to F three quickly') as UnknownWordError;
+
+      expect(error).toBeInstanceOf(UnknownWordError);
+      expect(error.code).toBe(CommandParseErrorCode.UnknownWords);
+      expect(error.unknownWords).toEqual([
+        { word: 'horsey', index: 0, position: 0 },
+        { word: 'quickly', index: 3, position: 18 },
+      ]);
+      expect(error.normalized).toBe('horsey to f3 quickly');
+      expect(error.tokens).toEqual([
+        { type: 'action', value: Action.Move },
+        { type: 'square', value: 'f3' },
+      ]);
+      expect(error.message).toContain('"horsey", "quickly"');
+    });
+
+    test('a command of only unknown words is an unknown word error', () => {
+      expect(parseError('hello there')).toBeInstanceOf(UnknownWordError);
+    });
+
+    test.each(['knight to', 'move', 'e2 to'])('"%s" is missing a destination', (input) => {
+      const error = parseError(input);
+
+      expect(error).toBeInstanceOf(MissingDestinationError);
+      expect(error.code).toBe(CommandParseErrorCode.MissingDestination);
+    });
+
+    test('a capture without a target is still allowed', () => {
+      expect(CommandParser.parseCommand('knight takes')).toEqual({ startInfo: PieceType.Knight, action: Action.Capture });
+    });
+
+    test('conflicting actions', () => {
+      const error = parseError('knight moves takes e5') as ConflictingActionsError;
+
+      expect(error).toBeInstanceOf(ConflictingActionsError);
+      expect(error.code).toBe(CommandParseErrorCode.ConflictingActions);
+      expect(error.actions).toEqual([Action.Move, Action.Capture]);
+    });
+
+    test('repeated words for the same action do not conflict', () => {
+      expect(CommandParser.parseCommand('pawn moves to e4').endInfo).toBe('e4');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import {
+  DisambiguationDialogue,
+  DialogueStatus
+} from '../../src/chess/commands/disambiguation_dialogue';
+import { Action, CommandFailureReason } from '../../src/chess/commands/types';
+import { UnknownWordError } from '../../src/chess/commands/command_parse_error';
+import { Color, PieceType, type Move } from '../../src/chess/types';
+
+// White knights on b1 and f3 can both reach d2
+const TWO_KNIGHTS = '4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1';
+
+function createDialogue(fen = TWO_KNIGHTS, timeoutMs = 10_000) {
+  const board = Board.fromFEN(fen);
+  let time = 0;
+  const dialogue = new DisambiguationDialogue(board, { timeoutMs, now: () => time });
+  return { board, dialogue, advance: (ms: number) => { time += ms; } };
+}
+
+describe('Disambiguation Dialogue', () => {
+  test('executes an unambiguous command straight away', () => {
+    const { board, dialogue } = createDialogue();
+    const response = dialogue.handle('knight c3');
+
+    expect(response.status).toBe(DialogueStatus.Executed);
+    expect(board.getPieceAt('c3')?.type).toBe(PieceType.Knight);
+    expect(dialogue.isPending()).toBe(false);
+  });
+
+  test('asks which piece when two knights match', () => {
+    const { board, dialogue } = createDialogue();
+    const response = dialogue.handle('knight d2');
+
+    expect(response).toMatchObject({ status: DialogueStatus.Clarifying, prompt: 'Which knight, b1 or f3?' });
+    expect(dialogue.isPending()).toBe(true);
+    expect(dialogue.getCandidates().map(m => m.startSquare).sort()).toEqual(['b1', 'f3']);
+    expect(board.getPieceAt('d2')).toBeNull();
+  });
+
+  test.each([
+    ['b1', 'b1'],
+    ['the one on f3', 'f3'],
+    ['f three', 'f3'],
+    ['the left one', 'b1'],
+    ['right', 'f3'],
+    ['the first one', 'b1'],
+    ['the second', 'f3'],
+    ['the 2nd one', 'f3'],
+    ['bravo one', 'b1'],
+    ['bee one', 'b1'],
+    ['foxtrot three', 'f3'],
+    ['the nite on f three', 'f3'],
+  ])('follow-up "%s" plays the knight from %s', (answer, from) => {
+    const { board, dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+    const response = dialogue.handle(answer);
+
+    expect(response.status).toBe(DialogueStatus.Executed);
+    expect(board.getPieceAt(from)).toBeNull();
+    expect(board.getPieceAt('d2')?.type).toBe(PieceType.Knight);
+    expect(dialogue.isPending()).toBe(false);
+  });
+
+  test('reports the executed move like executeCommand', () => {
+    const { dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+    const response = dialogue.handle('f3');
+
+    if (response.status !== DialogueStatus.Executed) throw new Error('expected the move to be played');
+    expect(response.result.moves).toMatchObject([{ startSquare: 'f3', endSquare: 'd2' }]);
+    expect(response.result.fen).toBe('4k3/8/8/8/8/8/3N4/1N2K3 b - - 1 1');
+  });
+
+  test('left and right follow the perspective of the player to move', () => {
+    // Black knights on b8 and f6 can both reach d7; Black's left is the h-file side
+    const { board, dialogue } = createDialogue('1n2k3/8/5n2/8/8/8/8/4K3 b - - 0 1');
+    dialogue.handle('knight d7');
+    dialogue.handle('the left one');
+
+    expect(board.getPieceAt('f6')).toBeNull();
+    expect(board.getPieceAt('b8')?.color).toBe(Color.Black);
+  });
+
+  test('"right" is not corrected to a piece name', () => {
+    // The knight on c3 and the pawn on d3 can both take on e4
+    const { board, dialogue } = createDialogue('4k3/8/8/8/4p3/2NP4/8/4K3 w - - 0 1');
+    dialogue.handle('takes e4');
+    dialogue.handle('the right one');
+
+    expect(board.getPieceAt('e4')?.type).toBe(PieceType.Pawn);
+    expect(board.getPieceAt('c3')?.type).toBe(PieceType.Knight);
+  });
+
+  test('cancel drops the question without moving', () => {
+    const { board, dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+
+    expect(dialogue.handle('never mind')).toEqual({ status: DialogueStatus.Cancelled });
+    expect(dialogue.isPending()).toBe(false);
+    expect(board.getHistory()).toHaveLength(0);
+  });
+
+  test('an answer matching no candidate repeats the question', () => {
+    const { dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+    const response = dialogue.handle('h5');
+
+    expect(response).toMatchObject({ status: DialogueStatus.Clarifying, prompt: 'Which knight, b1 or f3?' });
+    expect(dialogue.isPending()).toBe(true);
+  });
+
+  test.each(['i am done', 'bone', 'gone'])('"%s" is not read as a square', (answer) => {
+    const { board, dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+
+    expect(dialogue.handle(answer)).toMatchObject({ status: DialogueStatus.Clarifying });
+    expect(board.getHistory()).toHaveLength(0);
+  });
+
+  test('asks where to when one piece has several matching moves', () => {
+    // The rook on d4 can take on d7 or g4
+    const { board, dialogue } = createDialogue('3k4/3p4/8/8/3R2p1/8/8/4K3 w - - 0 1');
+    const response = dialogue.handle('rook takes');
+
+    expect(response.status).toBe(DialogueStatus.Clarifying);
+    if (response.status !== DialogueStatus.Clarifying) return;
+    expect(response.prompt).toBe('Where to, d7 or g4?');
+
+    dialogue.handle('g4');
+    expect(board.getPieceAt('g4')?.type).toBe(PieceType.Rook);
+  });
+
+  test('a question times out and the next utterance is a new command', () => {
+    const { board, dialogue, advance } = createDialogue();
+    dialogue.handle('knight d2');
+    advance(10_001);
+
+    expect(dialogue.isPending()).toBe(false);
+    // "b1" alone is not a legal move for White here
+    expect(dialogue.handle('b1')).toMatchObject({
+      status: DialogueStatus.Failed,
+      result: { reason: CommandFailureReason.NoMatch }
+    });
+    expect(board.getPieceAt('b1')?.type).toBe(PieceType.Knight);
+  });
+
+  test('a move played elsewhere closes the question', () => {
+    const { board, dialogue } = createDialogue();
+    dialogue.handle('knight d2');
+    board.executeCommand({ startInfo: 'e1', action: Action.Move, endInfo: 'e2' });
+
+    expect(dialogue.isPending()).toBe(false);
+    expect(dialogue.getCandidates()).toEqual([]);
+  });
+
+  test('new commands that cannot be parsed still throw', () => {
+    const { dialogue } = createDialogue();
+    expect(() => dialogue.handle('knight flibble')).toThrow(UnknownWordError);
+  });
+
+  test('builds prompts for mixed piece types and whole moves', () => {
+    const move = (piece: PieceType, startSquare: Move['startSquare'], endSquare: Move['endSquare']): Move =>
+      ({ piece, color: Color.White, startSquare, endSquare });
+
+    expect(DisambiguationDialogue.buildPrompt([
+      move(PieceType.Knight, 'c3', 'e4'),
+      move(PieceType.Pawn, 'd3', 'e4'),
+    ])).toBe('Which piece, the knight on c3 or the pawn on d3?');
+
+    expect(DisambiguationDialogue.buildPrompt([
+      move(PieceType.Knight, 'b1', 'c3'),
+      move(PieceType.Knight, 'b1', 'd2'),
+      move(PieceType.Knight, 'f3', 'd2'),
+    ])).toBe('Which move, b1 to c3, b1 to d2 or f3 to d2?');
+  });
+});
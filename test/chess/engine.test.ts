@@ -0,0 +1,190 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { Engine } from '../../src/chess/engine/engine';
+import { Evaluation } from '../../src/chess/engine/evaluation';
+import { Bound, TranspositionTable } from '../../src/chess/engine/transposition_table';
+import { Color, PieceType, type Move } from '../../src/chess/types';
+
+const uci = (move: Move | null): string | null =>
+  move ? `${move.startSquare}${move.endSquare}${move.promotion ? move.promotion[0] : ''}` : null;
+
+// A clock that advances a fixed step every time it is read
+const steppingClock = (stepMs: number) => {
+  let time = 0;
+  return () => (time += stepMs);
+};
+
+describe('Evaluation', () => {
+  test('the starting position is level', () => {
+    expect(Evaluation.evaluate(new Board())).toBe(0);
+  });
+
+  test('scores are from the side to move', () => {
+    const white = Board.fromFEN('4k3/8/8/8/8/8/8/3QK3 w - - 0 1');
+    const black = Board.fromFEN('4k3/8/8/8/8/8/8/3QK3 b - - 0 1');
+
+    expect(Evaluation.evaluate(white)).toBeGreaterThan(800);
+    expect(Evaluation.evaluate(black)).toBe(-Evaluation.evaluate(white));
+  });
+
+  test('mirrored positions score the same for the side to move', () => {
+    const black = Board.fromFEN('rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2');
+    const white = Board.fromFEN('rnbqkb1r/pppp1ppp/5n2/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 1 2');
+
+    expect(Evaluation.evaluate(black)).toBeLessThan(0);
+    expect(Evaluation.evaluate(white)).toBe(Evaluation.evaluate(black));
+  });
+
+  test('developed knights score better than knights on the rim', () => {
+    const centre = Board.fromFEN('4k3/8/8/8/4N3/8/8/4K3 w - - 0 1');
+    const rim = Board.fromFEN('4k3/8/8/8/N7/8/8/4K3 w - - 0 1');
+
+    expect(Evaluation.evaluate(centre)).toBeGreaterThan(Evaluation.evaluate(rim));
+  });
+
+  test('the king heads for the centre once the pieces are off', () => {
+    const central = Board.fromFEN('4k3/8/8/8/4K3/8/8/8 w - - 0 1');
+    const corner = Board.fromFEN('4k3/8/8/8/8/8/8/K7 w - - 0 1');
+
+    expect(Evaluation.evaluate(central)).toBeGreaterThan(Evaluation.evaluate(corner));
+  });
+});
+
+describe('Transposition Table', () => {
+  const entry = (depth: number, score = 0) => ({ depth, score, bound: Bound.Exact, bestMove: null });
+
+  test('stores and retrieves entries by key', () => {
+    const table = new TranspositionTable();
+    table.store(1n, entry(3, 50));
+
+    expect(table.get(1n)?.score).toBe(50);
+    expect(table.get(2n)).toBeUndefined();
+  });
+
+  test('keeps the result of a deeper search', () => {
+    const table = new TranspositionTable();
+    table.store(1n, entry(5, 10));
+    table.store(1n, entry(2, 20));
+    expect(table.get(1n)?.score).toBe(10);
+
+    table.store(1n, entry(5, 30));
+    expect(table.get(1n)?.score).toBe(30);
+  });
+
+  test('drops the oldest entry when full', () => {
+    const table = new TranspositionTable(2);
+    table.store(1n, entry(1));
+    table.store(2n, entry(1));
+    table.store(3n, entry(1));
+
+    expect(table.size).toBe(2);
+    expect(table.get(1n)).toBeUndefined();
+    expect(table.get(3n)).toBeDefined();
+  });
+});
+
+describe('Engine', () => {
+  test('finds mate in one', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    const result = new Engine().search(board, { maxDepth: 3 });
+
+    expect(uci(result.move)).toBe('a1a8');
+    expect(result.mateIn).toBe(1);
+  });
+
+  test('finds mate in two', () => {
+    const board = Board.fromFEN('k7/8/2K5/8/8/8/8/7R w - - 0 1');
+    const result = new Engine().search(board, { maxDepth: 4 });
+
+    expect(result.mateIn).toBe(2);
+    expect(result.principalVariation).toHaveLength(3);
+  });
+
+  test('wins a hanging queen', () => {
+    const board = Board.fromFEN('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1');
+    expect(uci(new Engine().search(board, { maxDepth: 2 }).move)).toBe('d2d5');
+  });
+
+  test('quiescence sees the recapture behind a defended pawn', () => {
+    // Qxd5 is a pawn up at depth one until the recapture exd5 is seen
+    const board = Board.fromFEN('4k3/8/4p3/3p4/8/8/8/3QK3 w - - 0 1');
+    const result = new Engine().search(board, { maxDepth: 1 });
+
+    expect(uci(result.move)).not.toBe('d1d5');
+  });
+
+
+  test('reports mate and stalemate with no move', () => {
+    const mated = new Engine().search(Board.fromFEN('R5k1/5ppp/8/8/8/8/8/4K3 b - - 1 1'));
+    expect(mated.move).toBeNull();
+    expect(mated.score).toBe(-Engine.MATE_SCORE);
+
+    const stalemated = new Engine().search(Board.fromFEN('k7/2Q5/1K6/8/8/8/8/8 b - - 0 1'));
+    expect(stalemated.move).toBeNull();
+    expect(stalemated.score).toBe(0);
+  });
+
+  test('leaves the board it was given unchanged', () => {
+    const board = new Board();
+    new Engine().search(board, { maxDepth: 2 });
+
+    expect(board.toFEN()).toBe(new Board().toFEN());
+    expect(board.getHistory()).toEqual([]);
+  });
+
+  test('stops at the node limit with a legal move', () => {
+    const board = new Board();
+    const result = new Engine().search(board, { maxDepth: 10, maxNodes: 300 });
+
+    expect(result.nodes).toBeLessThanOrEqual(300);
+    expect(board.getAllValidMoves().some(move => uci(move) === uci(result.move))).toBe(true);
+  });
+
+  test('stops when the time budget runs out', () => {
+    // Each clock read costs 20ms against a 100ms budget
+    const engine = new Engine({ now: steppingClock(20), timeLimitMs: 100 });
+    const result = engine.search(new Board(), { maxDepth: 10 });
+
+    expect(result.move).not.toBeNull();
+    expect(result.depth).toBeLessThan(10);
+  });
+
+  test('plays the chosen move on the board', () => {
+    const board = Board.fromFEN('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1');
+    const move = new Engine({ level: 4 }).playMove(board);
+
+    expect(uci(move)).toBe('d2d5');
+    expect(board.getPieceAt('d5')).toEqual({ type: PieceType.Rook, color: Color.White });
+  });
+
+  test('weaker levels vary their choice among reasonable moves', () => {
+    const board = new Board();
+    const choices = new Set<string | null>();
+    for (const roll of [0, 0.25, 0.5, 0.75, 0.99]) {
+      const result = new Engine({ level: 1, random: () => roll }).search(board);
+      choices.add(uci(result.move));
+    }
+
+    expect(choices.size).toBeGreaterThan(1);
+  });
+
+  test('randomness never throws away material outside the margin', () => {
+    const board = Board.fromFEN('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1');
+    for (const roll of [0, 0.5, 0.99]) {
+      expect(uci(new Engine({ level: 2, random: () => roll }).search(board).move)).toBe('d2d5');
+    }
+  });
+
+  test('the strongest level is deterministic', () => {
+    const board = Board.fromFEN('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3');
+    const first = new Engine({ level: 6, random: () => 0 }).search(board, { maxDepth: 2 });
+    const second = new Engine({ level: 6, random: () => 0.99 }).search(board, { maxDepth: 2 });
+
+    expect(uci(first.move)).toBe(uci(second.move));
+  });
+
+  test('rejects unknown levels', () => {
+    expect(() => new Engine({ level: 0 })).toThrow(RangeError);
+    expect(() => new Engine().setLevel(Engine.LEVELS.length + 1)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'vitest';
+import { FENParser, FENParseError, type FENField } from '../../src/chess/fen_parser';
+import { Board } from '../../src/chess/board';
+import { Color } from '../../src/chess/types';
+
+const parseError = (fen: string): FENParseError => {
+  try {
+    FENParser.parse(fen);
+  } catch (error) {
+    return error as FENParseError;
+  }
+  throw new Error(`expected "${fen}" to be rejected`);
+};
+
+describe('FEN Validation', () => {
+  test('valid FEN parses', () => {
+    const parsed = FENParser.parse('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2');
+
+    expect(parsed.activeColor).toBe(Color.White);
+    expect(parsed.enPassantSquare).toBe('e6');
+    expect(parsed.pieces.size).toBe(32);
+  });
+
+  test.each<[string, string, FENField, number]>([
+    ['short rank', 'rnbqkbnr/ppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'placement', 15],
+    ['long rank', 'rnbqkbnr/pppppppp/9/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'placement', 18],
+    ['unknown piece letter', 'rnbqkbnr/pppppppp/8/8/4X3/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'placement', 23],
+    ['seven ranks', 'rnbqkbnr/pppppppp/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'placement', 0],
+    ['consecutive digits', 'rnbqkbnr/pppppppp/44/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'placement', 19],
+    ['bad active color', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1', 'activeColor', 44],
+    ['bad castling letter', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQxq - 0 1', 'castling', 48],
+    ['duplicate castling letter', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KKq - 0 1', 'castling', 47],
+    ['bogus en passant square', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq e4 0 1', 'enPassant', 51],
+    ['negative clock', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - -1 1', 'halfMoveClock', 53],
+    ['zero full move number', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 0', 'fullMoveNumber', 55],
+    ['missing field', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -', 'halfMoveClock', 52],
+  ])('%s rejected', (_, fen, field, position) => {
+    const error = parseError(fen);
+
+    expect(error).toBeInstanceOf(FENParseError);
+    expect(error.field).toBe(field);
+    expect(error.position).toBe(position);
+  });
+
+  test.each<[string, string, FENField, RegExp]>([
+    ['missing king', 'rnbq1bnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQ - 0 1', 'placement', /one black king/],
+    ['two kings', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBKKBNR w kq - 0 1', 'placement', /one white king/],
+    ['pawn on back rank', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNP w Qkq - 0 1', 'placement', /back rank/],
+    ['side not to move in check', '4k3/8/8/8/8/8/8/4RK2 w - - 0 1', 'activeColor', /black is not to move/],
+    ['castling without rook', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBN1 w KQkq - 0 1', 'castling', /rook on h1/],
+    ['castling with moved king', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQ1KNR w KQkq - 0 1', 'castling', /king on e1/],
+    ['en passant without pawn', 'rnbqkbnr/pppp1ppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2', 'enPassant', /no black pawn on e5/],
+    ['en passant for wrong side', 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e6 0 2', 'enPassant', /with black to move/],
+  ])('%s rejected', (_, fen, field, message) => {
+    const error = parseError(fen);
+
+    expect(error.field).toBe(field);
+    expect(error.message).toMatch(message);
+  });
+
+  test('error position points at the offending piece', () => {
+    const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNP w Qkq - 0 1';
+    expect(fen[parseError(fen).position]).toBe('P');
+  });
+
+  test('Board.fromFEN rejects invalid FEN instead of building a broken board', () => {
+    expect(() => Board.fromFEN('8/8/8/8/8/8/8/8 w - - 0 1')).toThrow(FENParseError);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { FuzzyMatcher } from '../../src/chess/commands/fuzzy_matcher';
+import { CommandInterpreter } from '../../src/chess/commands/command_interpreter';
+import { CommandParser } from '../../src/chess/commands/command_parser';
+import { Action } from '../../src/chess/commands/types';
+import { UnknownWordError } from '../../src/chess/commands/command_parse_error';
+import { PieceType } from '../../src/chess/types';
+
+const PIECES = ['king', 'queen', 'rook', 'bishop', 'knight', 'pawn'];
+
+describe('Fuzzy Matcher', () => {
+  test.each([
+    ['bishop', 'bishop', 0],
+    ['bishup', 'bishop', 1],
+    ['bihsop', 'bishop', 1],
+    ['brook', 'rook', 1],
+    ['', 'pawn', 4],
+  ])('edit distance from "%s" to "%s" is %i', (a, b, distance) => {
+    expect(FuzzyMatcher.editDistance(a, b)).toBe(distance);
+  });
+
+  test('phonetic keys fold silent letters, vowels and plurals', () => {
+    expect(FuzzyMatcher.phoneticKey('knight')).toBe('nt');
+    expect(FuzzyMatcher.phoneticKey('nait')).toBe('nt');
+    expect(FuzzyMatcher.phoneticKey('rocks')).toBe(FuzzyMatcher.phoneticKey('rook'));
+  });
+
+  test.each([
+    ['rock', 'rook'],
+    ['bishup', 'bishop'],
+    ['nait', 'knight'],
+    ['queens', 'queen'],
+    ["king's", 'king'],
+    ['Pond', 'pawn'],
+  ])('"%s" matches %s', (heard, expected) => {
+    expect(FuzzyMatcher.match(heard, PIECES)[0]?.word).toBe(expected);
+  });
+
+  test('unrelated words do not match', () => {
+    expect(FuzzyMatcher.match('can', PIECES)).toEqual([]);
+    expect(FuzzyMatcher.match('hello', PIECES)).toEqual([]);
+    expect(FuzzyMatcher.match('x', ['takes'])).toEqual([]);
+  });
+
+  test('homophones with several readings keep the table order', () => {
+    const matches = FuzzyMatcher.match('ate', ['eight', 'takes']);
+    expect(matches.map(m => m.word)).toEqual(['takes', 'eight']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+});
+
+describe('Command Interpreter', () => {
+  test('prefers the reading that gives a legal move', () => {
+    // "a ate" reads as a8 by default, but only the a-pawn capture is legal
+    const board = Board.fromFEN('4k3/8/8/1p6/P7/8/8/R3K3 w - - 0 1');
+    expect(CommandParser.parseCommand('a ate')).toEqual({ action: Action.Move, endInfo: 'a8' });
+
+    const [best] = new CommandInterpreter(board).getInterpretations('a ate');
+    expect(best.command).toEqual({ startInfo: 'a', action: Action.Capture });
+    expect(best.text).toBe('a takes');
+    expect(best.matchingMoves).toMatchObject([{ startSquare: 'a4', endSquare: 'b5' }]);
+  });
+
+  test('keeps the default reading when it is legal', () => {
+    const board = Board.fromFEN('4k3/7P/8/8/8/8/8/4K3 w - - 0 1');
+    expect(new CommandInterpreter(board).interpret('h ate')).toEqual({ action: Action.Move, endInfo: 'h8' });
+  });
+
+  test('lists illegal readings after legal ones', () => {
+    const board = Board.fromFEN('4k3/8/8/1p6/P7/8/8/R3K3 w - - 0 1');
+    const interpretations = new CommandInterpreter(board).getInterpretations('a ate');
+
+    expect(interpretations.map(i => i.text)).toEqual(['a takes', 'a eight']);
+    expect(interpretations[1].matchingMoves).toEqual([]);
+  });
+
+  test('passes single corrections through to the parser', () => {
+    expect(new CommandInterpreter(new Board()).interpret('nights f3')).toEqual({
+      startInfo: PieceType.Knight,
+      action: Action.Move,
+      endInfo: 'f3'
+    });
+  });
+
+  test('throws the parse error when no reading parses', () => {
+    expect(() => new CommandInterpreter(new Board()).interpret('knight flibble')).toThrow(UnknownWordError);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, test, expect } from 'vitest';
+import { GameService } from '../../src/chess/worker/game_service';
+import { GameClient, GameServiceError } from '../../src/chess/worker/game_client';
+import type { MessageEndpoint } from '../../src/chess/worker/protocol';
+import { Engine } from '../../src/chess/engine/engine';
+import { Action, CommandFailureReason } from '../../src/chess/commands/types';
+import { Color, PieceType, Termination } from '../../src/chess/types';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+type Listener = (event: Event) => void;
+
+type FakeEndpoint = MessageEndpoint & {
+  // Deliver an event such as 'error' to this endpoint's listeners
+  dispatch(type: string, event: Event): void;
+};
+
+/**
+ * Two connected endpoints standing in for a Worker and its global scope.
+ * Messages are structured-cloned and delivered asynchronously, as postMessage does.
+ */
+const createChannel = (): [FakeEndpoint, FakeEndpoint] => {
+  const listeners: [Map<string, Set<Listener>>, Map<string, Set<Listener>>] = [new Map(), new Map()];
+  const endpoint = (own: Map<string, Set<Listener>>, other: Map<string, Set<Listener>>): FakeEndpoint => {
+    const dispatch = (target: Map<string, Set<Listener>>, type: string, event: Event) =>
+      target.get(type)?.forEach(listener => listener(event));
+
+    return {
+      postMessage: message => {
+        const data = structuredClone(message);
+        setTimeout(() => dispatch(other, 'message', { data } as MessageEvent));
+      },
+      addEventListener: (type: string, listener: Listener) => {
+        if (!own.has(type)) own.set(type, new Set());
+        own.get(type)!.add(listener);
+      },
+      removeEventListener: (type: string, listener: Listener) => {
+        own.get(type)?.delete(listener);
+      },
+      dispatch: (type, event) => dispatch(own, type, event)
+    };
+  };
+  return [endpoint(listeners[0], listeners[1]), endpoint(listeners[1], listeners[0])];
+};
+
+const connect = (): GameClient => {
+  const [clientSide, workerSide] = createChannel();
+  GameService.listen(workerSide, new GameService(new Engine({ level: 3 })));
+  return new GameClient(clientSide);
+};
+
+describe('Game Service', () => {
+  test('starts from the initial position', async () => {
+    const snapshot = await connect().getSnapshot();
+
+    expect(snapshot).toEqual({
+      fen: START_FEN,
+      activeColor: Color.White,
+      inCheck: false,
+      result: null,
+      history: []
+    });
+  });
+
+  test('loads a position from FEN', async () => {
+    const snapshot = await connect().loadFen('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+
+    expect(snapshot.fen).toBe('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    expect(snapshot.history).toEqual([]);
+  });
+
+  test('a bad FEN rejects with the worker-side error name', async () => {
+    const client = connect();
+    const error = await client.loadFen('not a fen').catch(e => e);
+
+    expect(error).toBeInstanceOf(GameServiceError);
+    expect(error.remoteName).toBe('FENParseError');
+    expect((await client.getSnapshot()).fen).toBe(START_FEN);
+  });
+
+  test('executes voice commands and reports the new position', async () => {
+    const client = connect();
+    const { commandResult, snapshot } = await client.executeCommand({ action: Action.Move, endInfo: 'e4' });
+
+    expect(commandResult.success).toBe(true);
+    expect(snapshot.activeColor).toBe(Color.Black);
+    expect(snapshot.history).toEqual([
+      { piece: PieceType.Pawn, color: Color.White, startSquare: 'e2', endSquare: 'e4' }
+    ]);
+
+    const ambiguous = await client.executeCommand({ startInfo: PieceType.Knight, action: Action.Move });
+    expect(ambiguous.commandResult.success).toBe(false);
+    expect(!ambiguous.commandResult.success && ambiguous.commandResult.reason).toBe(CommandFailureReason.Ambiguous);
+  });
+
+  test('executes moves and refuses illegal ones', async () => {
+    const client = connect();
+    const legal = await client.executeMove({ piece: PieceType.Knight, color: Color.White, startSquare: 'g1', endSquare: 'f3' });
+    const illegal = await client.executeMove({ piece: PieceType.Knight, color: Color.Black, startSquare: 'g8', endSquare: 'g6' });
+
+    expect(legal.executed).toBe(true);
+    expect(illegal.executed).toBe(false);
+    expect(illegal.snapshot.history).toHaveLength(1);
+  });
+
+  test('lists legal moves for the position or for one square', async () => {
+    const client = connect();
+
+    expect(await client.getLegalMoves()).toHaveLength(20);
+    expect((await client.getLegalMoves('b1')).map(move => move.endSquare).sort()).toEqual(['a3', 'c3']);
+  });
+
+  test('searches for the engine move', async () => {
+    const client = connect();
+    await client.loadFen('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    const result = await client.search({ maxDepth: 2 });
+
+    expect(result.move).toMatchObject({ startSquare: 'a1', endSquare: 'a8' });
+    expect(result.mateIn).toBe(1);
+
+    const { snapshot } = await client.executeMove(result.move!);
+    expect(snapshot.result?.termination).toBe(Termination.Checkmate);
+  });
+
+  test('concurrent requests resolve with their own answers', async () => {
+    const client = connect();
+    const [moves, snapshot, knightMoves] = await Promise.all([
+      client.getLegalMoves(),
+      client.getSnapshot(),
+      client.getLegalMoves('g1')
+    ]);
+
+    expect(moves).toHaveLength(20);
+    expect(snapshot.fen).toBe(START_FEN);
+    expect(knightMoves).toHaveLength(2);
+  });
+
+  test('rejects unknown engine levels', async () => {
+    const error = await connect().search({ maxDepth: 1 }, 99).catch(e => e);
+    expect(error.remoteName).toBe('RangeError');
+  });
+
+  test('dispose rejects requests still waiting', async () => {
+    const client = connect();
+    const pending = client.getSnapshot();
+    client.dispose();
+
+    await expect(pending).rejects.toThrow(GameServiceError);
+  });
+
+  test('requests after dispose are rejected immediately', async () => {
+    const client = connect();
+    client.dispose();
+
+    await expect(client.getSnapshot()).rejects.toMatchObject({
+      name: 'GameServiceError',
+      remoteName: 'GameClientDisposed'
+    });
+  });
+
+  test('a worker error rejects every request still waiting', async () => {
+    const [clientSide] = createChannel();
+    const client = new GameClient(clientSide);
+    const requests = [client.getSnapshot(), client.getLegalMoves()];
+
+    clientSide.dispatch('error', { message: 'failed to load game_worker.ts' } as ErrorEvent);
+
+    for (const request of requests) {
+      await expect(request).rejects.toMatchObject({
+        name: 'GameServiceError',
+        message: 'failed to load game_worker.ts',
+        remoteName: 'GameWorkerError'
+      });
+    }
+  });
+
+  test('an unreadable message rejects every request still waiting', async () => {
+    const [clientSide] = createChannel();
+    const client = new GameClient(clientSide);
+    const pending = client.getSnapshot();
+
+    clientSide.dispatch('messageerror', {} as MessageEvent);
+
+    await expect(pending).rejects.toMatchObject({ remoteName: 'GameMessageError' });
+  });
+
+  test('the service can be used directly without a channel', () => {
+    const service = new GameService();
+    const response = service.handle({ id: 7, type: 'getLegalMoves', params: { square: 'e2' } });
+
+    expect(response.id).toBe(7);
+    expect(response.ok && response.result).toHaveLength(2);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { InsufficientMaterial } from '../../src/chess/insufficient_material';
+import { Color, PieceType, SquareType } from '../../src/chess/types';
+
+describe('Dead Positions', () => {
+  test.each([
+    ['K vs K', '8/8/8/4k3/8/8/8/4K3 w - - 0 1'],
+    ['K+N vs K', '8/8/8/4k3/8/8/8/4K1N1 w - - 0 1'],
+    ['K vs K+N', '6n1/8/8/4k3/8/8/8/4K3 w - - 0 1'],
+    ['K+B vs K', '8/8/8/4k3/8/8/8/4KB2 w - - 0 1'],
+    ['K vs K+B', '5b2/8/8/4k3/8/8/8/4K3 w - - 0 1'],
+    ['K+B vs K+B, same square colour', '2b5/8/8/4k3/8/8/8/4KB2 w - - 0 1'],
+    ['K+BB vs K, both on light squares', '8/8/8/4k3/8/8/8/3BKB2 w - - 0 1'],
+    ['K+BB vs K+BB, all on dark squares', '1b3b2/8/4k3/8/8/8/8/B1B1K3 w - - 0 1'],
+  ])('%s is dead', (_, fen) => {
+    const board = Board.fromFEN(fen);
+
+    expect(board.isDeadPosition()).toBe(true);
+    expect(board.isGameOver()).toEqual({ isOver: true, reason: 'draw' });
+  });
+
+  test.each([
+    ['K+N vs K+N', '6n1/8/8/4k3/8/8/8/4K1N1 w - - 0 1'],
+    ['K+NN vs K', '8/8/8/4k3/8/8/8/1N2K1N1 w - - 0 1'],
+    ['K+B+N vs K', '8/8/8/4k3/8/8/8/1N2KB2 w - - 0 1'],
+    ['K+BB vs K, opposite square colours', '8/8/8/4k3/8/8/8/2B1KB2 w - - 0 1'],
+    ['K+B vs K+B, opposite square colours', '5b2/8/8/4k3/8/8/8/4KB2 w - - 0 1'],
+    ['K+B vs K+N', '6n1/8/8/4k3/8/8/8/4KB2 w - - 0 1'],
+    ['K+B vs K+P', '8/8/8/4k3/p7/8/8/4KB2 w - - 0 1'],
+    ['K+N vs K+P', '8/8/8/4k3/p7/8/8/4K1N1 w - - 0 1'],
+    ['K+P vs K', '8/8/8/4k3/8/8/P7/4K3 w - - 0 1'],
+    ['K+R vs K', '8/8/8/4k3/8/8/8/R3K3 w - - 0 1'],
+    ['K+Q vs K', '8/8/8/4k3/8/8/8/3QK3 w - - 0 1'],
+  ])('%s is not dead', (_, fen) => {
+    const board = Board.fromFEN(fen);
+
+    expect(board.isDeadPosition()).toBe(false);
+    expect(board.isGameOver().isOver).toBe(false);
+  });
+
+  test('a capture that leaves bare kings ends the game', () => {
+    const board = Board.fromFEN('8/8/8/4k3/8/8/3r4/4K3 w - - 0 1');
+    board.executeMove({ piece: PieceType.King, color: Color.White, startSquare: 'e1', endSquare: 'd2' });
+
+    expect(board.getPieceAt('d2')?.color).toBe(Color.White);
+    expect(board.isGameOver()).toEqual({ isOver: true, reason: 'draw' });
+  });
+});
+
+describe('Mating Material', () => {
+  test.each([
+    // [description, fen, white can mate, black can mate]
+    ['bare kings', '8/8/8/4k3/8/8/8/4K3 w - - 0 1', false, false],
+    ['lone knight against a bare king', '8/8/8/4k3/8/8/8/4K1N1 w - - 0 1', false, false],
+    ['lone knight against a queen', '3q4/8/8/4k3/8/8/8/4K1N1 w - - 0 1', false, true],
+    ['lone knight against a rook', '3r4/8/8/4k3/8/8/8/4K1N1 w - - 0 1', true, true],
+    ['lone knight against a bishop', '3b4/8/8/4k3/8/8/8/4K1N1 w - - 0 1', true, true],
+    ['lone knight against a pawn', '8/p7/8/4k3/8/8/8/4K1N1 w - - 0 1', true, true],
+    ['two knights against a bare king', '8/8/8/4k3/8/8/8/1N2K1N1 w - - 0 1', true, false],
+    ['bishop against a rook', '3r4/8/8/4k3/8/8/8/4KB2 w - - 0 1', false, true],
+    ['bishop against a queen', '3q4/8/8/4k3/8/8/8/4KB2 w - - 0 1', false, true],
+    ['bishop against a bishop on the other colour', '5b2/8/8/4k3/8/8/8/4KB2 w - - 0 1', true, true],
+    ['bishop against a knight', '6n1/8/8/4k3/8/8/8/4KB2 w - - 0 1', true, true],
+    ['bishop with its own pawn', '8/8/8/4k3/8/8/P7/4KB2 w - - 0 1', true, false],
+    ['rook against a bare king', '8/8/8/4k3/8/8/8/R3K3 w - - 0 1', true, false],
+  ])('%s', (_, fen, white, black) => {
+    const board = Board.fromFEN(fen);
+
+    expect(board.hasMatingMaterial(Color.White)).toBe(white);
+    expect(board.hasMatingMaterial(Color.Black)).toBe(black);
+  });
+});
+
+describe('Timeout With Insufficient Material', () => {
+  test('flagging against a lone knight is a draw', () => {
+    const board = Board.fromFEN('3q4/8/8/4k3/8/8/8/4K1N1 w - - 0 1');
+
+    expect(InsufficientMaterial.isTimeoutDraw(board, Color.Black)).toBe(true);
+    expect(InsufficientMaterial.isTimeoutDraw(board, Color.White)).toBe(false);
+  });
+
+  test('flagging against mating material loses even if mate is far off', () => {
+    const board = Board.fromFEN('8/8/8/4k3/8/8/8/1N2K1N1 w - - 0 1');
+    expect(InsufficientMaterial.isTimeoutDraw(board, Color.Black)).toBe(false);
+  });
+
+  test('a position is not dead just because one side lacks mating material', () => {
+    const board = Board.fromFEN('3q4/8/8/4k3/8/8/8/4K1N1 w - - 0 1');
+    expect(board.isDeadPosition()).toBe(false);
+  });
+});
+
+describe('Square Colours', () => {
+  test.each([
+    ['a1', SquareType.Dark],
+    ['h1', SquareType.Light],
+    ['d4', SquareType.Dark],
+    ['e4', SquareType.Light],
+    ['h8', SquareType.Dark],
+  ] as const)('%s is %s', (square, type) => {
+    expect(InsufficientMaterial.squareType(square)).toBe(type);
+  });
+});
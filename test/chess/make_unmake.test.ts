@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { Zobrist } from '../../src/chess/zobrist';
+import type { Move } from '../../src/chess/types';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const KIWIPETE_FEN = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+// Start positions for the random walks: castling, en passant, promotions and Chess960 castling
+const SEEDS: { name: string; fen: string; chess960?: boolean }[] = [
+  { name: 'start position', fen: START_FEN },
+  { name: 'Kiwipete', fen: KIWIPETE_FEN },
+  { name: 'en passant pins', fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1' },
+  { name: 'promotions', fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1' },
+  { name: 'Chess960', fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', chess960: true },
+];
+
+// Small seeded generator so failures are reproducible
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const moveKey = (move: Move): string => `${move.startSquare}${move.endSquare}${move.promotion ?? ''}`;
+
+const snapshot = (board: Board) => ({
+  fen: board.toFEN(),
+  key: board.getPositionKey(),
+  repetitions: board.getRepetitionCount(),
+  moves: board.getAllValidMoves().map(moveKey).sort(),
+  checkers: board.getCheckers(),
+  pinned: board.getPinnedPieces(board.getActiveColor()),
+});
+
+/**
+ * Visit positions along random games from a seed position, calling visit at each.
+ */
+const randomWalk = (fen: string, chess960: boolean, seed: number, plies: number, visit: (board: Board) => void) => {
+  const random = mulberry32(seed);
+  const board = Board.fromFEN(fen, chess960);
+
+  for (let ply = 0; ply < plies; ply++) {
+    visit(board);
+    const moves = board.getAllValidMoves();
+    if (moves.length === 0) break;
+    board.makeMove(moves[Math.floor(random() * moves.length)]);
+  }
+};
+
+describe('Make and Unmake', () => {
+  describe.each(SEEDS)('$name', ({ fen, chess960 = false }) => {
+    test('make then unmake restores the position for every legal move', () => {
+      for (let seed = 1; seed <= 5; seed++) {
+        randomWalk(fen, chess960, seed, 30, board => {
+          const before = snapshot(board);
+
+          for (const move of board.getAllValidMoves()) {
+            board.makeMove(move);
+            board.unmakeMove();
+            expect(snapshot(board)).toEqual(before);
+          }
+        });
+      }
+    });
+
+    test('the incremental position key matches a key computed from scratch', () => {
+      randomWalk(fen, chess960, 42, 60, board => {
+        expect(board.getPositionKey()).toBe(Zobrist.computeKey(board));
+      });
+    });
+
+    test('makeMove reaches the same position as executeMove', () => {
+      randomWalk(fen, chess960, 7, 40, board => {
+        for (const move of board.getAllValidMoves()) {
+          const played = Board.fromFEN(board.toFEN(), chess960);
+          played.executeMove(move);
+
+          board.makeMove(move);
+          expect(board.toFEN()).toBe(played.toFEN());
+          expect(board.getPositionKey()).toBe(played.getPositionKey());
+          board.unmakeMove();
+        }
+      });
+    });
+  });
+
+  test('a whole line of moves unwinds back to the start', () => {
+    const random = mulberry32(99);
+    const board = Board.fromFEN(KIWIPETE_FEN);
+    let made = 0;
+
+    for (; made < 80; made++) {
+      const moves = board.getAllValidMoves();
+      if (moves.length === 0) break;
+      board.makeMove(moves[Math.floor(random() * moves.length)]);
+    }
+    for (; made > 0; made--) {
+      board.unmakeMove();
+    }
+
+    expect(board.toFEN()).toBe(KIWIPETE_FEN);
+    expect(board.getPositionKey()).toBe(Board.fromFEN(KIWIPETE_FEN).getPositionKey());
+  });
+
+  test('unmake restores the cached moves of the earlier position', () => {
+    const board = new Board();
+    const cached = board.getValidMovesForSquare('g1');
+
+    board.makeMove(board.getValidMovesForSquare('e2')[1]);
+    expect(board.getValidMovesForSquare('g8')).toHaveLength(2);
+    board.unmakeMove();
+
+    expect(board.getValidMovesForSquare('g1')).toBe(cached);
+  });
+
+  test('made moves are not added to the game history or redo stack', () => {
+    const board = new Board();
+    board.makeMove(board.getValidMovesForSquare('e2')[1]);
+
+    expect(board.getHistory()).toEqual([]);
+    expect(board.undo()).toBeNull();
+    expect(board.getRepetitionCount()).toBe(1);
+
+    board.unmakeMove();
+    expect(board.toFEN()).toBe(START_FEN);
+  });
+
+  test('unmakeMove without a made move throws', () => {
+    expect(() => new Board().unmakeMove()).toThrow(/without a matching makeMove/);
+  });
+});
@@ -0,0 +1,111 @@
+import { bench, describe } from 'vitest';
+import { BitboardPosition } from '../../src/chess/bitboard';
+import { AttackDetector } from '../../src/chess/attack_detector';
+import { MoveGenerator } from '../../src/chess/move_generator';
+import { FENParser } from '../../src/chess/fen_parser';
+import { SquareUtils } from '../../src/chess/square_utils';
+import { Color, PieceType, type Move, type Piece, type Square } from '../../src/chess/types';
+
+// Run with `npm run bench`
+const POSITIONS = [
+  'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+  'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+  '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+].map(fen => {
+  const parsed = FENParser.parse(fen);
+  const squares: (Piece | null)[] = new Array(64).fill(null);
+  for (const [square, piece] of parsed.pieces) {
+    squares[SquareUtils.toIndex(square)] = piece;
+  }
+  return { squares, color: parsed.activeColor, enPassantSquare: parsed.enPassantSquare };
+});
+
+const kingIndex = (squares: (Piece | null)[], color: Color): number =>
+  squares.findIndex(piece => piece?.type === PieceType.King && piece.color === color);
+
+// Legal move filtering as Board did before bitboards: play each move on the array and scan for attacks
+const arrayLegalMoves = (squares: (Piece | null)[], color: Color, enPassantSquare: Square | null): Move[] => {
+  const opponent = color === Color.White ? Color.Black : Color.White;
+  const legal: Move[] = [];
+
+  squares.forEach((piece, index) => {
+    if (piece?.color !== color) return;
+    for (const move of MoveGenerator.generateMoves(piece, SquareUtils.fromIndex(index), squares, enPassantSquare)) {
+      const toIndex = SquareUtils.toIndex(move.endSquare);
+      const captured = squares[toIndex];
+      squares[toIndex] = piece;
+      squares[index] = null;
+
+      if (!AttackDetector.isSquareAttacked(squares, kingIndex(squares, color), opponent)) {
+        legal.push(move);
+      }
+
+      squares[index] = piece;
+      squares[toIndex] = captured;
+    }
+  });
+
+  return legal;
+};
+
+const bitboardLegalMoves = (
+  squares: (Piece | null)[],
+  position: BitboardPosition,
+  color: Color,
+  enPassantSquare: Square | null
+): Move[] => {
+  const king = kingIndex(squares, color);
+  const legal: Move[] = [];
+
+  squares.forEach((piece, index) => {
+    if (piece?.color !== color) return;
+    for (const move of MoveGenerator.generateBitboardMoves(piece, SquareUtils.fromIndex(index), position, enPassantSquare)) {
+      const toIndex = SquareUtils.toIndex(move.endSquare);
+      const captured = squares[toIndex] ? toIndex : -1;
+      if (!position.leavesKingInCheck(index, toIndex, captured, color, king)) {
+        legal.push(move);
+      }
+    }
+  });
+
+  return legal;
+};
+
+describe('legal move generation', () => {
+  const positions = POSITIONS.map(p => ({ ...p, bitboards: BitboardPosition.fromSquares(p.squares) }));
+
+  bench('square array', () => {
+    for (const { squares, color, enPassantSquare } of positions) {
+      arrayLegalMoves(squares, color, enPassantSquare);
+    }
+  });
+
+  bench('bitboards', () => {
+    for (const { squares, bitboards, color, enPassantSquare } of positions) {
+      bitboardLegalMoves(squares, bitboards, color, enPassantSquare);
+    }
+  });
+});
+
+describe('attack detection', () => {
+  const positions = POSITIONS.map(p => ({ ...p, bitboards: BitboardPosition.fromSquares(p.squares) }));
+
+  bench('square array', () => {
+    for (const { squares } of positions) {
+      for (let index = 0; index < 64; index++) {
+        AttackDetector.isSquareAttacked(squares, index, Color.White);
+        AttackDetector.isSquareAttacked(squares, index, Color.Black);
+      }
+    }
+  });
+
+  bench('bitboards', () => {
+    for (const { bitboards } of positions) {
+      for (let index = 0; index < 64; index++) {
+        bitboards.isSquareAttacked(index, Color.White);
+        bitboards.isSquareAttacked(index, Color.Black);
+      }
+    }
+  });
+});
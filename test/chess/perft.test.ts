@@ -0,0 +1,128 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { Color, PieceType } from '../../src/chess/types';
+
+interface PerftCase {
+  name: string;
+  fen: string;
+  // Published node counts for depth 1, 2, 3, ...
+  counts: number[];
+  chess960?: boolean;
+}
+
+interface DeepPerftCase {
+  name: string;
+  fen: string;
+  depth: number;
+  nodes: number;
+}
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const KIWIPETE_FEN = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+// Positions from the Chess Programming Wiki perft results page
+const PERFT_POSITIONS: PerftCase[] = [
+  { name: 'start position', fen: START_FEN, counts: [20, 400, 8902, 197281] },
+  { name: 'Kiwipete', fen: KIWIPETE_FEN, counts: [48, 2039, 97862] },
+  { name: 'position 3 (en passant pins)', fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', counts: [14, 191, 2812, 43238] },
+  { name: 'position 4 (promotions)', fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1', counts: [6, 264, 9467] },
+  { name: 'position 5', fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8', counts: [44, 1486, 62379] },
+  { name: 'position 6', fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10', counts: [46, 2079, 89890] },
+  { name: 'Chess960 position 1', fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', counts: [21, 528, 12189], chess960: true },
+  { name: 'Chess960 position 2', fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9', counts: [21, 807, 18002], chess960: true },
+  { name: 'Chess960 position 3', fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9', counts: [20, 479, 10471], chess960: true },
+];
+
+// Edge-case positions collected on TalkChess for catching move generator bugs
+const TRAP_POSITIONS: DeepPerftCase[] = [
+  { name: 'king walks into bishop x-ray', fen: 'r6r/1b2k1bq/8/8/7B/8/8/R3K2R b KQ - 3 2', depth: 1, nodes: 8 },
+  { name: 'en passant evades check', fen: '8/8/8/2k5/2pP4/8/B7/4K3 b - d3 0 3', depth: 1, nodes: 8 },
+  { name: 'knight development', fen: 'r1bqkbnr/pppppppp/n7/8/8/P7/1PPPPPPP/RNBQKBNR w KQkq - 2 2', depth: 1, nodes: 19 },
+  { name: 'queen check blocks castling', fen: 'r3k2r/p1pp1pb1/bn2Qnp1/2qPN3/1p2P3/2N5/PPPPBPPP/R3K2R b KQkq - 3 2', depth: 1, nodes: 5 },
+  { name: 'castled king after queenside castling', fen: '2kr3r/p1ppqpb1/bn2Qnp1/3PN3/1p2P3/2N5/PPPPBPPP/R3K2R b KQ - 3 2', depth: 1, nodes: 44 },
+  { name: 'promotion with discovered check', fen: 'rnb2k1r/pp1Pbppp/2p5/q7/2B5/8/PPPQNnPP/RNB1K2R w KQ - 3 9', depth: 1, nodes: 39 },
+  { name: 'pawn blocks king', fen: '2r5/3pk3/8/2P5/8/2K5/8/8 w - - 5 4', depth: 1, nodes: 9 },
+  { name: 'promote out of check', fen: '4k3/1P6/8/8/8/8/K7/8 w - - 0 1', depth: 6, nodes: 217342 },
+  { name: 'underpromotion to avoid stalemate', fen: '8/P1k5/K7/8/8/8/8/8 w - - 0 1', depth: 6, nodes: 92683 },
+  { name: 'self stalemate', fen: 'K1k5/8/P7/8/8/8/8/8 w - - 0 1', depth: 6, nodes: 2217 },
+  { name: 'double check', fen: '8/8/2k5/5q2/5n2/8/5K2/8 b - - 0 1', depth: 4, nodes: 23527 },
+];
+
+// Several seconds each; run with PERFT_DEEP=1
+const DEEP_POSITIONS: DeepPerftCase[] = [
+  { name: 'illegal en passant (pinned pawn)', fen: '3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1', depth: 6, nodes: 1134888 },
+  { name: 'illegal en passant (discovered check)', fen: '8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1', depth: 6, nodes: 1440467 },
+  { name: 'en passant capture checks opponent', fen: '8/8/4k3/8/2p5/8/B2P2K1/8 w - - 0 1', depth: 6, nodes: 1015133 },
+  { name: 'short castling gives check', fen: '5k2/8/8/8/8/8/8/4K2R w K - 0 1', depth: 6, nodes: 661072 },
+  { name: 'long castling gives check', fen: '3k4/8/8/8/8/8/8/R3K3 w Q - 0 1', depth: 6, nodes: 803711 },
+  { name: 'castle rights', fen: 'r3k2r/1b4bq/8/8/8/8/7B/R3K2R w KQkq - 0 1', depth: 4, nodes: 1274206 },
+  { name: 'castling prevented', fen: 'r3k2r/8/3Q4/8/8/5q2/8/R3K2R b KQkq - 0 1', depth: 4, nodes: 1720476 },
+  { name: 'promote to give check', fen: '2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1', depth: 6, nodes: 3821001 },
+  { name: 'discovered check', fen: '8/8/1P2K3/8/2n5/1q6/8/5k2 b - - 0 1', depth: 5, nodes: 1004658 },
+  { name: 'stalemate and checkmate', fen: '8/k1P5/8/1K6/8/8/8/8 w - - 0 1', depth: 7, nodes: 567584 },
+];
+
+describe('Perft', () => {
+  describe.each(PERFT_POSITIONS)('$name', ({ fen, counts, chess960 }) => {
+    test.each(counts.map((nodes, i) => [i + 1, nodes]))('depth %i = %i nodes', (depth, nodes) => {
+      expect(Board.fromFEN(fen, chess960).perft(depth)).toBe(nodes);
+    });
+  });
+
+  test.each(TRAP_POSITIONS)('$name: depth $depth = $nodes nodes', ({ fen, depth, nodes }) => {
+    expect(Board.fromFEN(fen).perft(depth)).toBe(nodes);
+  });
+
+  describe.skipIf(!process.env.PERFT_DEEP)('deep positions', () => {
+    test.each(DEEP_POSITIONS)('$name: depth $depth = $nodes nodes', ({ fen, depth, nodes }) => {
+      expect(Board.fromFEN(fen).perft(depth)).toBe(nodes);
+    }, 120_000);
+  });
+
+  test('depth 0 counts the position itself', () => {
+    expect(new Board().perft(0)).toBe(1);
+  });
+
+  test('perft leaves the board unchanged', () => {
+    const board = Board.fromFEN(KIWIPETE_FEN);
+    const key = board.getPositionKey();
+    board.perft(2);
+
+    expect(board.toFEN()).toBe(KIWIPETE_FEN);
+    expect(board.getPositionKey()).toBe(key);
+    expect(board.getHistory()).toEqual([]);
+  });
+
+  test('perft does not clear the redo stack', () => {
+    const board = new Board();
+    board.executeMove({ piece: PieceType.Pawn, color: Color.White, startSquare: 'e2', endSquare: 'e4' });
+    board.undo();
+    board.perft(2);
+
+    expect(board.redo()?.endSquare).toBe('e4');
+  });
+});
+
+describe('Divide', () => {
+  test('splits node counts by root move', () => {
+    const divide = new Board().divide(3);
+
+    expect(divide.size).toBe(20);
+    expect(divide.get('e2e4')).toBe(600);
+    expect(divide.get('g1f3')).toBe(440);
+    expect([...divide.values()].reduce((sum, n) => sum + n, 0)).toBe(8902);
+  });
+
+  test('promotion moves carry the promotion letter', () => {
+    const divide = Board.fromFEN('4k3/8/8/8/8/8/1p6/R3K3 b - - 0 1').divide(1);
+    expect([...divide.keys()]).toEqual(expect.arrayContaining(['b2a1q', 'b2a1r', 'b2a1b', 'b2a1n', 'b2b1n']));
+  });
+
+  test('Kiwipete castling moves appear in the split', () => {
+    const divide = Board.fromFEN(KIWIPETE_FEN).divide(2);
+
+    expect(divide.size).toBe(48);
+    expect(divide.get('e1g1')).toBe(43);
+    expect(divide.get('e1c1')).toBe(43);
+  });
+});
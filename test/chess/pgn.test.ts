@@ -0,0 +1,204 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { PGNParser, PGNParseError } from '../../src/chess/pgn';
+import { SANParser } from '../../src/chess/san';
+import { Color, PieceType } from '../../src/chess/types';
+
+const OPERA_GAME = `[Event "Paris"]
+[Site "Paris FRA"]
+[Date "1858.??.??"]
+[Round "?"]
+[White "Paul Morphy"]
+[Black "Duke Karl / Count Isouard"]
+[Result "1-0"]
+[ECO "C41"]
+
+1. e4 e5 2. Nf3 d6 3. d4 Bg4 {This is a weak move already.} 4. dxe5 Bxf3 5. Qxf3
+dxe5 6. Bc4 Nf6 7. Qb3 Qe7 8. Nc3 c6 9. Bg5 b5 10. Nxb5 cxb5 11. Bxb5+ Nbd7 12.
+O-O-O Rd8 13. Rxd7 Rxd7 14. Rd1 Qe6 15. Bxd7+ Nxd7 16. Qb8+ Nxb8 17. Rd8# 1-0
+`;
+
+describe('PGN Import', () => {
+  test('parses tags, moves, comments and result', () => {
+    const game = PGNParser.parse(OPERA_GAME);
+
+    expect(game.tags.White).toBe('Paul Morphy');
+    expect(game.tags.ECO).toBe('C41');
+    expect(game.result).toBe('1-0');
+    expect(game.moves).toHaveLength(33);
+    expect(game.moves[5].san).toBe('Bg4');
+    expect(game.moves[5].comment).toBe('This is a weak move already.');
+    expect(game.moves[32].san).toBe('Rd8#');
+  });
+
+  test('replayed game ends in checkmate', () => {
+    const board = PGNParser.toBoard(PGNParser.parse(OPERA_GAME));
+
+    expect(board.isGameOver()).toEqual({ isOver: true, reason: 'checkmate', winner: Color.White });
+    expect(board.getHistory()).toHaveLength(33);
+  });
+
+  test('NAGs, suffix annotations, line comments and variations', () => {
+    const game = PGNParser.parse(`1. e4 $1 e5!? ; a classical reply
+2. Nf3 (2. f4 exf4 (2... d5) 3. Nf3) Nc6?! *`);
+
+    expect(game.moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(game.moves[0].nags).toEqual([1]);
+    expect(game.moves[1].nags).toEqual([5]);
+    expect(game.moves[1].comment).toBe('a classical reply');
+    expect(game.moves[3].nags).toEqual([6]);
+    expect(game.result).toBe('*');
+  });
+
+  test('FEN and SetUp tags start from a custom position', () => {
+    const game = PGNParser.parse(`[SetUp "1"]
+[FEN "4k3/p7/8/8/8/8/4P3/4K3 b - - 0 10"]
+
+10... Kd7 11. e4 Kd6 *`);
+
+    expect(game.startingFen).toBe('4k3/p7/8/8/8/8/4P3/4K3 b - - 0 10');
+    const board = PGNParser.toBoard(game);
+    expect(board.getPieceAt('d6')).toEqual({ type: PieceType.King, color: Color.Black });
+  });
+
+  test('multiple games are parsed from one database', () => {
+    const games = PGNParser.parseAll(`[Event "A"]\n\n1. e4 1-0\n\n[Event "B"]\n\n1. d4 d5 0-1\n`);
+
+    expect(games.map(g => g.tags.Event)).toEqual(['A', 'B']);
+    expect(games.map(g => g.result)).toEqual(['1-0', '0-1']);
+    expect(games[1].moves).toHaveLength(2);
+  });
+
+  test('escaped quotes in tag values are unescaped', () => {
+    const game = PGNParser.parse(`[Event "The \\"Immortal\\" Game"]\n\n*`);
+    expect(game.tags.Event).toBe('The "Immortal" Game');
+  });
+
+  test('illegal move reports the offending move', () => {
+    let error: PGNParseError | undefined;
+    try {
+      PGNParser.parse('1. e4 e5 2. Nf3 Nc6 3. Bb5 Ke6 *');
+    } catch (e) {
+      error = e as PGNParseError;
+    }
+
+    expect(error).toBeInstanceOf(PGNParseError);
+    expect(error?.moveNumber).toBe(3);
+    expect(error?.color).toBe(Color.Black);
+    expect(error?.san).toBe('Ke6');
+    expect(error?.message).toContain('at move 3... Ke6');
+  });
+
+  test('move after an automatic game end reports that move', () => {
+    // Kxd2 leaves king and bishop against king, a dead position
+    const pgn = '[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/3r4/4KB2 w - - 0 1"]\n\n1. Kxd2 Ke7 2. Ke3 Ke6 *';
+
+    let error: PGNParseError | undefined;
+    try {
+      PGNParser.parse(pgn);
+    } catch (e) {
+      error = e as PGNParseError;
+    }
+
+    expect(error).toBeInstanceOf(PGNParseError);
+    expect(error?.san).toBe('Ke7');
+    expect(error?.message).toBe('Game already ended by insufficient material at move 1... Ke7');
+  });
+
+  test('toBoard refuses moves the board will not play', () => {
+    const game = PGNParser.parse('[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/3r4/4KB2 w - - 0 1"]\n\n1. Kxd2 *');
+    game.moves.push({
+      san: 'Ke7',
+      move: { piece: PieceType.King, color: Color.Black, startSquare: 'e8', endSquare: 'e7' },
+      nags: []
+    });
+
+    expect(() => PGNParser.toBoard(game)).toThrow('Game already ended by insufficient material at move 1... Ke7');
+  });
+
+  test.each([
+    ['[Event "unterminated\n1. e4 *', /Malformed tag/],
+    ['1. e4 {never closed *', /Unterminated comment/],
+    ['1. e4 (1. d4 *', /Unterminated variation/],
+    ['$1 1. e4 *', /before any move/],
+  ])('malformed PGN rejected: %s', (pgn, message) => {
+    expect(() => PGNParser.parse(pgn)).toThrow(message);
+  });
+});
+
+describe('PGN Export', () => {
+  test('round-trips a parsed game', () => {
+    const game = PGNParser.parse(OPERA_GAME);
+    const reparsed = PGNParser.parse(PGNParser.generate(game));
+
+    expect(reparsed.tags).toEqual(game.tags);
+    expect(reparsed.moves).toEqual(game.moves);
+    expect(reparsed.result).toBe('1-0');
+  });
+
+  test('writes seven tag roster first with defaults and wraps movetext', () => {
+    const game = PGNParser.parse(OPERA_GAME);
+    const pgn = PGNParser.generate({ ...game, tags: { ECO: 'C41', White: 'Paul Morphy' } });
+    const lines = pgn.split('\n');
+
+    expect(lines.slice(0, 8)).toEqual([
+      '[Event "?"]',
+      '[Site "?"]',
+      '[Date "????.??.??"]',
+      '[Round "?"]',
+      '[White "Paul Morphy"]',
+      '[Black "?"]',
+      '[Result "1-0"]',
+      '[ECO "C41"]',
+    ]);
+    expect(lines.every(line => line.length <= 80)).toBe(true);
+    expect(pgn).toContain('3. d4 Bg4 {This is a weak move already.} 4. dxe5');
+    expect(pgn.trimEnd().endsWith('17. Rd8# 1-0')).toBe(true);
+  });
+
+  test('exports a voice-played game from board history', () => {
+    const board = Board.fromFEN('4k3/p7/8/8/8/8/4P3/4K3 b - - 0 10');
+    board.executeMove({ piece: PieceType.King, color: Color.Black, startSquare: 'e8', endSquare: 'd7' });
+    board.executeMove({ piece: PieceType.Pawn, color: Color.White, startSquare: 'e2', endSquare: 'e4' });
+
+    const pgn = PGNParser.generate(PGNParser.fromBoard(board, { White: 'Voice', Black: 'Voice' }));
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain('[FEN "4k3/p7/8/8/8/8/4P3/4K3 b - - 0 10"]');
+    expect(pgn).toContain('10... Kd7 11. e4 *');
+    expect(board.getHistory()).toHaveLength(2);
+  });
+
+  test('result taken from a finished board', () => {
+    const board = Board.fromFEN('6k1/5ppp/8/8/8/8/8/R3K3 w - - 0 1');
+    board.executeMove({ piece: PieceType.Rook, color: Color.White, startSquare: 'a1', endSquare: 'a8' });
+
+    expect(PGNParser.fromBoard(board).result).toBe('1-0');
+  });
+
+  test('a resigned game keeps its moves', () => {
+    const board = new Board();
+    board.executeMove(SANParser.parse(board, 'e4'));
+    board.resign(Color.Black);
+
+    const game = PGNParser.fromBoard(board);
+    expect(game.moves.map(m => m.san)).toEqual(['e4']);
+    expect(game.result).toBe('1-0');
+  });
+  test('finished games carry a Termination tag', () => {
+    const mated = new Board();
+    for (const san of ['f3', 'e5', 'g4', 'Qh4#']) mated.executeMove(SANParser.parse(mated, san));
+    expect(PGNParser.fromBoard(mated).tags.Termination).toBe('normal');
+
+    const flagged = new Board();
+    flagged.flag(Color.White);
+    expect(PGNParser.fromBoard(flagged).tags.Termination).toBe('time forfeit');
+
+    const abandoned = new Board();
+    abandoned.abandon(Color.Black);
+    expect(PGNParser.fromBoard(abandoned, { Termination: 'rules infraction' }).tags.Termination).toBe('rules infraction');
+
+    expect(PGNParser.fromBoard(new Board()).tags.Termination).toBeUndefined();
+  });
+
+});
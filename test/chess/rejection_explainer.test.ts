@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { RejectionExplainer, RejectionReason } from '../../src/chess/commands/rejection_explainer';
+import { CommandParser } from '../../src/chess/commands/command_parser';
+import { CastlingHandler } from '../../src/chess/castling_handler';
+import { Color } from '../../src/chess/types';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function explain(fen: string, input: string) {
+  return RejectionExplainer.explain(Board.fromFEN(fen), CommandParser.parseCommand(input));
+}
+
+describe('Rejection Explainer', () => {
+  test('returns null for a command that can be played', () => {
+    expect(explain(START, 'knight f3')).toBeNull();
+    expect(explain(START, 'resign')).toBeNull();
+  });
+
+  test.each<[string, string, string, RejectionReason, string]>([
+    ['no piece that can reach', START, 'bishop f8', RejectionReason.CannotReach,
+      'You have no bishop that can reach f8.'],
+    ['piece on a square that cannot reach', START, 'b1 to b3', RejectionReason.CannotReach,
+      "Your knight on b1 can't reach b3."],
+    ['no piece that can reach a rank', START, 'rook to the seventh', RejectionReason.CannotReach,
+      'You have no rook that can reach rank 7.'],
+    ['empty start square', START, 'e3 to e4', RejectionReason.NoPieceOnSquare,
+      'There is no piece on e3.'],
+    ['opponent piece on the start square', START, 'e7 to e5', RejectionReason.WrongTurn,
+      "It's white's turn."],
+    ['a move only the opponent could make', '4k3/8/8/8/8/2b5/P7/4K3 w - - 0 1', 'bishop e5', RejectionReason.WrongTurn,
+      "It's white's turn."],
+    ['own piece blocked where the opponent could move', 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+      'bishop b4', RejectionReason.CannotReach, 'You have no bishop that can reach b4.'],
+    ['missing piece type', '4k3/8/8/8/8/8/P7/4K3 w - - 0 1', 'bishop e4', RejectionReason.NoSuchPiece,
+      "You don't have a bishop."],
+    ['own piece on the target', START, 'knight d2', RejectionReason.OwnPieceOnTarget,
+      'Your own pawn is on d2.'],
+    ['capture of an empty square', START, 'knight takes c3', RejectionReason.NothingToCapture,
+      'There is nothing to capture on c3.'],
+    ['pinned piece', '4k3/8/8/b7/8/2N5/8/4K3 w - - 0 1', 'knight e4', RejectionReason.Pinned,
+      'Your knight on c3 is pinned to your king.'],
+    ['move ignoring check', '4r2k/8/8/8/8/8/8/N3K3 w - - 0 1', 'knight b3', RejectionReason.LeavesKingInCheck,
+      'That would leave your king in check.'],
+    ['king walking into check', '5r1k/8/8/8/8/8/8/4K3 w - - 0 1', 'king f2', RejectionReason.LeavesKingInCheck,
+      'That would leave your king in check.'],
+    ['two matching pieces', '4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1', 'knight d2', RejectionReason.Ambiguous,
+      'Both knights can reach d2.'],
+  ])('%s', (_, fen, input, reason, sentence) => {
+    expect(explain(fen, input)).toMatchObject({ reason, sentence });
+  });
+
+  test('points at the pinned piece and the king', () => {
+    expect(explain('4k3/8/8/b7/8/2N5/8/4K3 w - - 0 1', 'knight e4')?.squares).toEqual(['c3', 'e1']);
+  });
+
+  test('names the side to move when it is Black', () => {
+    const board = new Board();
+    board.executeCommand(CommandParser.parseCommand('e4'));
+    expect(RejectionExplainer.explain(board, CommandParser.parseCommand('e4 to e5'))).toMatchObject({
+      reason: RejectionReason.WrongTurn,
+      sentence: "It's black's turn."
+    });
+  });
+
+  describe('Castling', () => {
+    test.each<[string, string, string, RejectionReason, string]>([
+      ['while in check', '4k3/8/8/8/8/8/4r3/R3K2R w KQ - 0 1', 'castle kingside', RejectionReason.CastleInCheck,
+        "You can't castle while in check."],
+      ['without the right', 'r3k2r/8/8/8/8/8/8/R3K2R w Qkq - 0 1', 'castle kingside', RejectionReason.NoCastlingRight,
+        'You can no longer castle kingside.'],
+      ['with pieces in the way', START, 'castle kingside', RejectionReason.CastlingBlocked,
+        'There are pieces in the way of castling kingside.'],
+      ['through an attacked square', '4k3/8/8/8/8/8/5r2/R3K2R w KQ - 0 1', 'castle kingside', RejectionReason.CastleThroughCheck,
+        "Your king can't castle through or into check."],
+    ])('%s', (_, fen, input, reason, sentence) => {
+      expect(explain(fen, input)).toMatchObject({ reason, sentence, squares: ['e1'] });
+    });
+
+    test('getCastlingObstacle is null exactly when castling is allowed', () => {
+      const board = Board.fromFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+      expect(CastlingHandler.getCastlingObstacle(board, Color.White, 'kingside')).toBeNull();
+      expect(CastlingHandler.getCastlingObstacle(board, Color.White, 'queenside')).toBeNull();
+      expect(CastlingHandler.getCastlingObstacle(new Board(), Color.White, 'kingside')).toBe('blocked');
+    });
+  });
+
+  test('explains undo, redo and draw claims that are not available', () => {
+    expect(explain(START, 'undo')?.reason).toBe(RejectionReason.NothingToUndo);
+    expect(explain(START, 'redo')?.reason).toBe(RejectionReason.NothingToRedo);
+    expect(explain(START, 'claim draw')?.reason).toBe(RejectionReason.NoDrawToClaim);
+  });
+
+  test('reports a finished game before anything else', () => {
+    const board = new Board();
+    board.resign();
+    expect(RejectionExplainer.explain(board, CommandParser.parseCommand('knight f3'))).toMatchObject({
+      reason: RejectionReason.GameOver,
+      sentence: 'The game is over.'
+    });
+  });
+});
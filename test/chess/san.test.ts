@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { SANParser, SANParseError } from '../../src/chess/san';
+import { Color, Move, PieceType, Square } from '../../src/chess/types';
+
+const move = (
+  piece: PieceType,
+  color: Color,
+  from: Square,
+  to: Square,
+  promotion?: PieceType
+): Move => ({
+  piece, color, startSquare: from, endSquare: to, ...(promotion ? { promotion } : {})
+});
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+describe('SAN Generation', () => {
+  test.each<[string, string, Move]>([
+    ['e4', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      move(PieceType.Pawn, Color.White, 'e2', 'e4')],
+    ['exd5', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2',
+      move(PieceType.Pawn, Color.White, 'e4', 'd5')],
+    ['Nf3', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      move(PieceType.Knight, Color.White, 'g1', 'f3')],
+    ['Nbd7', 'rnbqkb1r/ppp2ppp/5n2/3pp3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 0 4',
+      move(PieceType.Knight, Color.Black, 'b8', 'd7')],
+    ['R1a3', '4k3/8/8/R7/8/8/8/R3K3 w - - 0 1',
+      move(PieceType.Rook, Color.White, 'a1', 'a3')],
+    ['Qh4e1', '8/8/k7/8/4Q2Q/8/8/K6Q w - - 0 1',
+      move(PieceType.Queen, Color.White, 'h4', 'e1')],
+    ['O-O', 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1',
+      move(PieceType.King, Color.White, 'e1', 'g1')],
+    ['O-O-O', 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R b KQkq - 0 1',
+      move(PieceType.King, Color.Black, 'e8', 'c8')],
+    ['Bb5+', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2',
+      move(PieceType.Bishop, Color.White, 'f1', 'b5')],
+    ['Qh7#', '5rk1/5pp1/8/7Q/8/3B4/8/6K1 w - - 0 1',
+      move(PieceType.Queen, Color.White, 'h5', 'h7')],
+    ['e8=Q', '8/4P3/8/8/8/8/k7/7K w - - 0 1',
+      move(PieceType.Pawn, Color.White, 'e7', 'e8', PieceType.Queen)],
+    ['bxa8=N', 'r3k3/1P6/8/8/8/8/8/4K3 w q - 0 1',
+      move(PieceType.Pawn, Color.White, 'b7', 'a8', PieceType.Knight)],
+  ])('%s', (expected, fen, m) => {
+    expect(SANParser.generate(Board.fromFEN(fen), m)).toBe(expected);
+  });
+
+  test('en passant capture can be marked', () => {
+    const board = Board.fromFEN('rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 3');
+    const epMove = move(PieceType.Pawn, Color.White, 'e5', 'd6');
+
+    expect(SANParser.generate(board, epMove)).toBe('exd6');
+    expect(SANParser.generate(board, epMove, { markEnPassant: true })).toBe('exd6 e.p.');
+  });
+
+  test('pinned rival does not force disambiguation', () => {
+    // Knight on c3 is pinned to the king by the bishop on b4, so only the e2 knight can reach d4
+    const board = Board.fromFEN('4k3/8/8/8/1b6/2N5/4N3/4K3 w - - 0 1');
+    expect(SANParser.generate(board, move(PieceType.Knight, Color.White, 'e2', 'd4'))).toBe('Nd4');
+  });
+
+  test('check suffix is added on a board whose game has ended', () => {
+    // The 75-move rule has already ended this game
+    const board = Board.fromFEN('4k3/8/8/8/8/8/8/R3K3 w - - 150 90');
+    expect(board.getResult()).not.toBeNull();
+    expect(SANParser.generate(board, move(PieceType.Rook, Color.White, 'a1', 'a8'))).toBe('Ra8+');
+  });
+});
+
+describe('SAN Parsing', () => {
+  test('every legal move round-trips through SAN', () => {
+    const board = Board.fromFEN(KIWIPETE);
+    for (const legal of board.getAllValidMoves()) {
+      expect(SANParser.parse(board, SANParser.generate(board, legal))).toEqual(legal);
+    }
+  });
+
+  test.each([
+    ['Nbd7', 'b8'],
+    ['Nfd7', 'f6'],
+  ])('%s resolves to knight on %s', (san, from) => {
+    const board = Board.fromFEN('rnbqkb1r/ppp2ppp/5n2/3pp3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 0 4');
+    expect(SANParser.parse(board, san).startSquare).toBe(from);
+  });
+
+  test('en passant marker is accepted', () => {
+    const board = Board.fromFEN('rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 3');
+    expect(SANParser.parse(board, 'exd6 e.p.')).toEqual(move(PieceType.Pawn, Color.White, 'e5', 'd6'));
+  });
+
+  test('castling parses to the king move', () => {
+    const board = Board.fromFEN('r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1');
+    expect(SANParser.parse(board, 'O-O-O')).toEqual(move(PieceType.King, Color.White, 'e1', 'c1'));
+  });
+
+  test.each([
+    ['Nd7', 'rnbqkb1r/ppp2ppp/5n2/3pp3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 0 4', /ambiguous/],
+    ['Ke2', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', /no legal move/],
+    ['Nxf3', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', /captures nothing/],
+    ['ed5', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', /missing "x"/],
+    ['xd5', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', /file/],
+    ['e8', '8/4P3/8/8/8/8/k7/7K w - - 0 1', /no legal move/],
+    ['Bb5#', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', /not checkmate/],
+    ['Nf3+', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', /does not give check/],
+    ['0-0', 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1', /not valid/],
+    ['Pe4', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', /not valid/],
+  ])('"%s" is rejected', (san, fen, message) => {
+    const board = Board.fromFEN(fen);
+    expect(() => SANParser.parse(board, san)).toThrow(SANParseError);
+    expect(() => SANParser.parse(board, san)).toThrow(message);
+  });
+});
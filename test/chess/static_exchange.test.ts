@@ -0,0 +1,121 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { ExchangeOutcome } from '../../src/chess/static_exchange';
+import { Color, PieceType, type Move, type Square } from '../../src/chess/types';
+
+const capture = (board: Board, startSquare: Square, endSquare: Square, promotion?: PieceType): Move => {
+  const piece = board.getPieceAt(startSquare)!;
+  return { piece: piece.type, color: piece.color, startSquare, endSquare, promotion };
+};
+
+const exchange = (fen: string, from: Square, to: Square, promotion?: PieceType) => {
+  const board = Board.fromFEN(fen);
+  return board.evaluateExchange(capture(board, from, to, promotion));
+};
+
+describe('Static Exchange Evaluation', () => {
+  test('taking an undefended piece wins it', () => {
+    const result = exchange('4k3/8/8/4p3/8/5N2/8/4K3 w - - 0 1', 'f3', 'e5');
+
+    expect(result.gain).toBe(100);
+    expect(result.outcome).toBe(ExchangeOutcome.Wins);
+    expect(result.won).toEqual([PieceType.Pawn]);
+    expect(result.lost).toEqual([]);
+  });
+
+  test('knight takes a defended pawn and loses a knight for a pawn', () => {
+    const result = exchange('4k3/8/3p4/4p3/8/5N2/8/4K3 w - - 0 1', 'f3', 'e5');
+
+    expect(result.gain).toBe(-200);
+    expect(result.outcome).toBe(ExchangeOutcome.Loses);
+    expect(result.won).toEqual([PieceType.Pawn]);
+    expect(result.lost).toEqual([PieceType.Knight]);
+    expect(result.sequence.map(c => c.square)).toEqual(['f3', 'd6']);
+  });
+
+  test('equal captures trade', () => {
+    const result = exchange('4k3/8/3p4/4n3/8/5N2/8/4K3 w - - 0 1', 'f3', 'e5');
+
+    expect(result.gain).toBe(0);
+    expect(result.outcome).toBe(ExchangeOutcome.Trades);
+  });
+
+  test('a pawn taken by a pawn with more attackers behind it', () => {
+    // exd5 cxd5 Nxd5 leaves white a pawn up, so black does better not to recapture
+    const result = exchange('4k3/8/2p5/3p4/4P3/2N5/8/4K3 w - - 0 1', 'e4', 'd5');
+    expect(result.gain).toBe(100);
+    expect(result.sequence).toHaveLength(1);
+
+    const even = exchange('4k3/8/2p5/3p4/4P3/8/8/4K3 w - - 0 1', 'e4', 'd5');
+    expect(even.gain).toBe(0);
+    expect(even.outcome).toBe(ExchangeOutcome.Trades);
+  });
+
+  test('each side stops recapturing once it no longer pays', () => {
+    // Qxd5 Rxd5 would lose the queen for a pawn, so black's rook capture is played and white stops
+    const result = exchange('3rk3/8/8/3p4/8/8/8/3QK3 w - - 0 1', 'd1', 'd5');
+
+    expect(result.gain).toBe(-800);
+    expect(result.sequence).toHaveLength(2);
+    expect(result.lost).toEqual([PieceType.Queen]);
+  });
+
+  test('x-ray attackers join in once uncovered', () => {
+    // The rook doubled behind the first keeps d5 covered, so recapturing only trades rooks
+    const doubled = exchange('3rk3/8/8/3p4/8/8/3R4/3RK3 w - - 0 1', 'd2', 'd5');
+    expect(doubled.gain).toBe(100);
+
+    const single = exchange('3rk3/8/8/3p4/8/8/3R4/4K3 w - - 0 1', 'd2', 'd5');
+    expect(single.gain).toBe(-400);
+  });
+
+  test('least valuable attacker recaptures first', () => {
+    // Black can recapture with the queen or the pawn and should use the pawn
+    const result = exchange('4k3/3q4/2p5/3p4/8/8/3R4/3RK3 w - - 0 1', 'd2', 'd5');
+    expect(result.sequence[1].piece).toEqual({ type: PieceType.Pawn, color: Color.Black });
+  });
+
+  test('the king only recaptures an undefended piece', () => {
+    const undefended = exchange('8/8/3k4/3p4/8/8/3R4/4K3 w - - 0 1', 'd2', 'd5');
+    expect(undefended.gain).toBe(-400);
+
+    const defended = exchange('8/8/3k4/3p4/8/8/3R4/3RK3 w - - 0 1', 'd2', 'd5');
+    expect(defended.gain).toBe(100);
+  });
+
+  test('quiet moves onto attacked squares lose the piece', () => {
+    const result = exchange('4k3/8/3p4/8/8/5N2/8/4K3 w - - 0 1', 'f3', 'e5');
+
+    expect(result.gain).toBe(-300);
+    expect(result.sequence[0].captured).toBeNull();
+    expect(exchange('4k3/8/8/8/8/5N2/8/4K3 w - - 0 1', 'f3', 'e5').gain).toBe(0);
+  });
+
+  test('en passant captures the passed pawn', () => {
+    expect(exchange('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1', 'e5', 'd6').gain).toBe(100);
+  });
+
+  test('promotions count the promoted piece', () => {
+    expect(exchange('3r3k/2P5/8/8/8/8/8/4K3 w - - 0 1', 'c7', 'd8', PieceType.Queen).gain).toBe(1300);
+    expect(exchange('3rr2k/2P5/8/8/8/8/8/4K3 w - - 0 1', 'c7', 'd8', PieceType.Queen).gain).toBe(400);
+  });
+});
+
+describe('Hanging Pieces', () => {
+  test('undefended and underdefended pieces hang', () => {
+    // The knight on c6 is attacked and undefended; the pawn on e5 is defended
+    const board = Board.fromFEN('4k3/8/2n2p2/4p3/B7/5N2/8/4K3 b - - 0 1');
+    expect(board.getHangingPieces(Color.Black)).toEqual(['c6']);
+  });
+
+  test('pieces attacked by cheaper pieces hang even when defended', () => {
+    const board = Board.fromFEN('4k3/8/2p5/3r4/4P3/8/8/4K3 b - - 0 1');
+    expect(board.getHangingPieces(Color.Black)).toEqual(['d5']);
+  });
+
+  test('nothing hangs in the opening position', () => {
+    const board = new Board();
+    expect(board.getHangingPieces(Color.White)).toEqual([]);
+    expect(board.getHangingPieces(Color.Black)).toEqual([]);
+  });
+});
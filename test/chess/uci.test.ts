@@ -0,0 +1,209 @@
+import { describe, test, expect } from 'vitest';
+import { Board } from '../../src/chess/board';
+import { UCIParser, UCIParseError } from '../../src/chess/uci/uci_notation';
+import { UCIClient, UCIError, type UCIInfo } from '../../src/chess/uci/uci_client';
+import { FakeUCIEngine } from '../../src/chess/uci/fake_uci_engine';
+import { Color, PieceType } from '../../src/chess/types';
+
+describe('UCI Notation', () => {
+  test('generates long algebraic moves', () => {
+    expect(UCIParser.generate({ piece: PieceType.Pawn, color: Color.White, startSquare: 'e2', endSquare: 'e4' })).toBe('e2e4');
+    expect(UCIParser.generate({
+      piece: PieceType.Pawn, color: Color.Black, startSquare: 'b2', endSquare: 'a1', promotion: PieceType.Knight
+    })).toBe('b2a1n');
+  });
+
+  test('parses moves against the position', () => {
+    const board = Board.fromFEN('4k3/1P6/8/8/8/8/8/R3K2R w KQ - 0 1');
+
+    expect(UCIParser.parse(board, 'b7b8r')).toEqual({
+      piece: PieceType.Pawn, color: Color.White, startSquare: 'b7', endSquare: 'b8', promotion: PieceType.Rook
+    });
+    expect(UCIParser.parse(board, 'e1g1')).toMatchObject({ piece: PieceType.King, endSquare: 'g1' });
+  });
+
+  test('Chess960 castling is written king takes rook', () => {
+    const board = Board.fromFEN('rk5r/8/8/8/8/8/8/RK5R w HAha - 0 1', true);
+    const castle = board.getValidMovesForSquare('b1').find(m => m.endSquare === 'h1')!;
+
+    expect(UCIParser.generate(castle)).toBe('b1h1');
+    expect(UCIParser.parse(board, 'b1h1')).toEqual(castle);
+  });
+
+  test.each([
+    ['e2e5', 'no legal move matches'],
+    ['e7e8', 'no legal move matches'],
+    ['e2-e4', 'not valid long algebraic notation'],
+    ['e7e8k', 'not valid long algebraic notation'],
+  ])('rejects %s', (uci, message) => {
+    expect(() => UCIParser.parse(new Board(), uci)).toThrow(UCIParseError);
+    expect(() => UCIParser.parse(new Board(), uci)).toThrow(message);
+  });
+
+  test('round-trips every legal move of a busy position', () => {
+    const board = Board.fromFEN('r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1');
+    for (const move of board.getAllValidMoves()) {
+      expect(UCIParser.parse(board, UCIParser.generate(move))).toEqual(move);
+    }
+  });
+});
+
+describe('UCI Info Parsing', () => {
+  test('reads search statistics, score and principal variation', () => {
+    expect(UCIClient.parseInfo('info depth 12 seldepth 18 multipv 1 score cp -35 nodes 150000 nps 900000 time 166 pv e7e5 g1f3 b8c6')).toEqual({
+      depth: 12, seldepth: 18, multipv: 1, score: { type: 'cp', value: -35, bound: null },
+      nodes: 150000, nps: 900000, time: 166, pv: ['e7e5', 'g1f3', 'b8c6']
+    });
+  });
+
+  test('reads mate scores and bounds', () => {
+    expect(UCIClient.parseInfo('info depth 5 score mate -3').score).toEqual({ type: 'mate', value: -3, bound: null });
+    expect(UCIClient.parseInfo('info score cp 20 lowerbound nodes 10').score).toEqual({ type: 'cp', value: 20, bound: 'lower' });
+  });
+
+  test('skips unknown fields and keeps free text', () => {
+    expect(UCIClient.parseInfo('info tbhits 0 currmove e2e4 currmovenumber 1')).toEqual({ currmove: 'e2e4', currmovenumber: 1 });
+    expect(UCIClient.parseInfo('info string NNUE evaluation using nn.bin')).toEqual({ string: 'NNUE evaluation using nn.bin' });
+  });
+
+  test('reads option declarations', () => {
+    expect(UCIClient.parseOption('option name Skill Level type spin default 20 min 0 max 20')).toEqual({
+      name: 'Skill Level', type: 'spin', default: '20', min: 0, max: 20, vars: []
+    });
+    expect(UCIClient.parseOption('option name Style type combo default Normal var Solid var Normal var Risky').vars)
+      .toEqual(['Solid', 'Normal', 'Risky']);
+    expect(UCIClient.parseOption('option name Debug Log File type string default <empty>').default).toBe('');
+  });
+});
+
+describe('UCI Client', () => {
+  test('handshake reports the engine id and options', async () => {
+    const engine = new FakeUCIEngine({
+      name: 'Stockfish 17', author: 'the Stockfish developers',
+      options: ['option name Hash type spin default 16 min 1 max 33554432', 'option name Ponder type check default false']
+    });
+    const id = await new UCIClient(engine).init();
+
+    expect(id.name).toBe('Stockfish 17');
+    expect(id.author).toBe('the Stockfish developers');
+    expect(id.options.map(option => option.name)).toEqual(['Hash', 'Ponder']);
+    expect(engine.received).toEqual(['uci']);
+  });
+
+  test('lines split across chunks are reassembled', async () => {
+    const engine = new FakeUCIEngine({ chunkSize: 3, replies: [{ bestMove: 'e2e4', info: ['info depth 20 score cp 31 pv e2e4 e7e5'] }] });
+    const client = new UCIClient(engine);
+    await client.init();
+    const result = await client.go({ depth: 20 });
+
+    expect(result.bestMove).toBe('e2e4');
+    expect(result.info[0].pv).toEqual(['e2e4', 'e7e5']);
+  });
+
+  test('sends positions and search limits', async () => {
+    const engine = new FakeUCIEngine();
+    const client = new UCIClient(engine);
+    await client.newGame();
+    client.setOption('Skill Level', 5);
+    client.setPosition(null, ['e2e4', 'e7e5']);
+    await client.go({ wtime: 60000, btime: 59000, winc: 1000, binc: 1000, movestogo: 30 });
+
+    expect(engine.received).toEqual([
+      'ucinewgame',
+      'isready',
+      'setoption name Skill Level value 5',
+      'position startpos moves e2e4 e7e5',
+      'go wtime 60000 btime 59000 winc 1000 binc 1000 movestogo 30'
+    ]);
+    expect(engine.getBoard().getHistory()).toHaveLength(2);
+  });
+
+  test('finds the best move for a board, sending its whole history', async () => {
+    const board = Board.fromFEN('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+    board.executeMove({ piece: PieceType.Pawn, color: Color.White, startSquare: 'e2', endSquare: 'e4' });
+    const engine = new FakeUCIEngine({ replies: [{ bestMove: 'e8d7', ponder: 'e4e5' }] });
+    const { move, result } = await new UCIClient(engine).findBestMove(board, { movetime: 100 });
+
+    expect(engine.received[0]).toBe('position fen 4k3/8/8/8/8/8/4P3/4K3 w - - 0 1 moves e2e4');
+    expect(move).toEqual({ piece: PieceType.King, color: Color.Black, startSquare: 'e8', endSquare: 'd7' });
+    expect(result.ponder).toBe('e4e5');
+  });
+
+  test('a Chess960 board switches the engine to Chess960 first', async () => {
+    const board = Board.fromFEN('rk5r/8/8/8/8/8/8/RK5R w HAha - 0 1', true);
+    const castle = board.getValidMovesForSquare('b1').find(m => m.endSquare === 'h1')!;
+    board.executeMove(castle);
+    const engine = new FakeUCIEngine({ replies: ['b8a8'] });
+    const client = new UCIClient(engine);
+    const { move } = await client.findBestMove(board);
+
+    expect(engine.received.slice(0, 2)).toEqual([
+      'setoption name UCI_Chess960 value true',
+      'position fen rk5r/8/8/8/8/8/8/RK5R w KQkq - 0 1 moves b1h1'
+    ]);
+    expect(engine.getBoard().toFEN()).toBe(board.toFEN());
+    expect(move).toMatchObject({ piece: PieceType.King, startSquare: 'b8', endSquare: 'a8' });
+
+    await client.findBestMove(new Board());
+    expect(engine.received).toContain('setoption name UCI_Chess960 value false');
+  });
+
+  test('a best move promoting reads back as a promotion', async () => {
+    const board = Board.fromFEN('8/4P1k1/8/8/8/8/8/4K3 w - - 0 1');
+    const { move } = await new UCIClient(new FakeUCIEngine({ replies: ['e7e8q'] })).findBestMove(board);
+    expect(move?.promotion).toBe(PieceType.Queen);
+  });
+
+  test('no legal move is reported as null', async () => {
+    const board = Board.fromFEN('R5k1/5ppp/8/8/8/8/8/4K3 b - - 1 1');
+    const { move, result } = await new UCIClient(new FakeUCIEngine()).findBestMove(board);
+
+    expect(move).toBeNull();
+    expect(result.bestMove).toBeNull();
+  });
+
+  test('info lines stream to the listener during the search', async () => {
+    const engine = new FakeUCIEngine({
+      replies: [{ bestMove: 'd2d4', info: ['info depth 1 score cp 10 pv e2e4', 'info depth 2 score cp 15 pv d2d4'] }]
+    });
+    const seen: UCIInfo[] = [];
+    const result = await new UCIClient(engine).go({ depth: 2 }, info => seen.push(info));
+
+    expect(seen.map(info => info.depth)).toEqual([1, 2]);
+    expect(result.info).toEqual(seen);
+  });
+
+  test('an infinite search ends on stop', async () => {
+    const engine = new FakeUCIEngine({ replies: ['g1f3'] });
+    const client = new UCIClient(engine);
+    const search = client.go({ infinite: true });
+
+    await client.isReady();
+    client.stop();
+
+    expect((await search).bestMove).toBe('g1f3');
+    expect(engine.received).toEqual(['go infinite', 'isready', 'stop']);
+  });
+
+  test('each isready waits for its own readyok', async () => {
+    const engine = new FakeUCIEngine();
+    const client = new UCIClient(engine);
+    await Promise.all([client.isReady(), client.isReady()]);
+
+    expect(engine.received).toEqual(['isready', 'isready']);
+  });
+
+  test('an engine that never answers times out', async () => {
+    const client = new UCIClient(new FakeUCIEngine({ ignore: ['uci'] }), { timeoutMs: 20 });
+    await expect(client.init()).rejects.toThrow(UCIError);
+  });
+
+  test('quit rejects pending requests and further commands', async () => {
+    const client = new UCIClient(new FakeUCIEngine({ ignore: ['go'] }));
+    const search = client.go({ depth: 5 });
+    client.quit();
+
+    await expect(search).rejects.toThrow('UCI client closed');
+    expect(() => client.stop()).toThrow(UCIError);
+  });
+});